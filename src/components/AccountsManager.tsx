@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2, Plus } from 'lucide-react';
+import { AccountSize } from '@/types/account';
+import { ACCOUNT_SIZES, AccountTotals, getAccountTotals } from '@/lib/accounts';
+import { createAccount } from '@/services/accountService';
+import { accountKeys, useAccounts, useAccountSummary } from '@/hooks/use-accounts';
+import { customerKeys } from '@/hooks/use-customers';
+import { usePipeline } from '@/contexts/PipelineContext';
+
+const NO_SIZE = '__none__';
+
+// Contacts per stage in pipeline order, e.g. "Active 3" "Won 1"
+export const AccountStageBadges = ({ totals }: { totals: AccountTotals }) => {
+  const { stages, getStage } = usePipeline();
+  const entries = [
+    ...stages.filter(stage => totals.byStatus[stage.key]).map(stage => stage.key),
+    ...Object.keys(totals.byStatus).filter(status => !getStage(status)),
+  ];
+
+  if (entries.length === 0) return <span className="text-muted-foreground">-</span>;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {entries.map(status => {
+        const stage = getStage(status);
+        return (
+          <Badge
+            key={status}
+            variant={stage ? 'default' : 'secondary'}
+            style={stage ? { backgroundColor: stage.color } : undefined}
+            className={stage ? 'text-white' : undefined}
+          >
+            {stage?.name || status || 'No stage'} {totals.byStatus[status]}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+};
+
+export const AccountsManager = () => {
+  const { data: accounts = [], isLoading } = useAccounts();
+  const { data: summary = [] } = useAccountSummary();
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newDomain, setNewDomain] = useState('');
+  const [newIndustry, setNewIndustry] = useState('');
+  const [newSize, setNewSize] = useState<string>(NO_SIZE);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const totals = useMemo(() => getAccountTotals(summary), [summary]);
+  const term = search.trim().toLowerCase();
+  const visible = term
+    ? accounts.filter(account =>
+        [account.name, account.domain, account.industry].some(value => value?.toLowerCase().includes(term))
+      )
+    : accounts;
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    setSaving(true);
+    const result = await createAccount({
+      name: newName,
+      domain: newDomain,
+      industry: newIndustry,
+      size: newSize === NO_SIZE ? null : (newSize as AccountSize),
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      toast({
+        title: 'Account Not Created',
+        description: result.message || 'Failed to create account',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setNewName('');
+    setNewDomain('');
+    setNewIndustry('');
+    setNewSize(NO_SIZE);
+    // Customers at the new domain were linked to it
+    queryClient.invalidateQueries({ queryKey: accountKeys.all });
+    if (result.account?.domain) queryClient.invalidateQueries({ queryKey: customerKeys.all });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Customers are linked to the account whose domain matches their email, including imported and webhook leads.
+        </p>
+        <Input
+          className="max-w-xs"
+          placeholder="Search accounts..."
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+        />
+      </div>
+
+      <div className="rounded-md border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Name</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Domain</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Industry</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Size</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Contacts</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Stages</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 && (
+              <tr>
+                <td colSpan={6} className="h-16 text-center text-muted-foreground">
+                  {accounts.length === 0 ? 'No accounts yet' : 'No matching accounts'}
+                </td>
+              </tr>
+            )}
+            {visible.map(account => {
+              const accountTotals = totals.get(account.id);
+              return (
+                <tr key={account.id} className="border-b transition-colors hover:bg-muted/50">
+                  <td className="p-4 font-medium">
+                    <Link to={`/accounts/${account.id}`} className="hover:underline">
+                      {account.name}
+                    </Link>
+                  </td>
+                  <td className="p-4 text-muted-foreground">{account.domain || '-'}</td>
+                  <td className="p-4">{account.industry || '-'}</td>
+                  <td className="p-4">{account.size || '-'}</td>
+                  <td className="p-4">{accountTotals?.contacts || 0}</td>
+                  <td className="p-4">
+                    {accountTotals ? <AccountStageBadges totals={accountTotals} /> : <span className="text-muted-foreground">-</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="max-w-xs"
+          placeholder="Company name"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        />
+        <Input
+          className="max-w-[200px]"
+          placeholder="Domain, e.g. acme.com"
+          value={newDomain}
+          onChange={e => setNewDomain(e.target.value)}
+        />
+        <Input
+          className="max-w-[200px]"
+          placeholder="Industry"
+          value={newIndustry}
+          onChange={e => setNewIndustry(e.target.value)}
+        />
+        <Select value={newSize} onValueChange={setNewSize}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_SIZE}>Size unknown</SelectItem>
+            {ACCOUNT_SIZES.map(size => (
+              <SelectItem key={size} value={size}>{size} employees</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={handleAdd} disabled={saving || !newName.trim()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Account
+        </Button>
+      </div>
+    </div>
+  );
+};
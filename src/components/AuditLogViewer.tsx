@@ -25,7 +25,13 @@ export default function AuditLogViewer() {
       invite_sales_rep: 'bg-blue-500',
       create_customer: 'bg-green-500',
       update_customer: 'bg-yellow-500',
+      update_customer_status: 'bg-amber-500',
+      update_customer_deal: 'bg-lime-500',
       delete_customer: 'bg-red-500',
+      reassign_customer: 'bg-teal-500',
+      undo_import: 'bg-orange-500',
+      export_customers: 'bg-sky-500',
+      merge_customers: 'bg-violet-500',
       login: 'bg-purple-500',
       logout: 'bg-gray-500',
     };
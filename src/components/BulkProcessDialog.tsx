@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react';
+import { Customer } from '@/types/customer';
+import { processCustomersInBatches } from '@/services/salesApi';
+
+interface BulkProcessDialogProps {
+  customers: Customer[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onFinished: () => void;
+}
+
+interface ProcessResult {
+  success: boolean;
+  message?: string;
+}
+
+export const BulkProcessDialog = ({ customers, open, onOpenChange, onFinished }: BulkProcessDialogProps) => {
+  const [results, setResults] = useState<Record<string, ProcessResult>>({});
+  const [inFlight, setInFlight] = useState<Set<string>>(new Set());
+  const [running, setRunning] = useState(false);
+  const [stopped, setStopped] = useState(false);
+  const stopRef = useRef(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setResults({});
+    setStopped(false);
+    stopRef.current = false;
+  }, [open]);
+
+  const handleStart = async () => {
+    setRunning(true);
+    await processCustomersInBatches(
+      customers,
+      (customer, result) => {
+        setResults(prev => ({ ...prev, [customer.id]: result }));
+        setInFlight(prev => {
+          const next = new Set(prev);
+          next.delete(customer.id);
+          return next;
+        });
+      },
+      {
+        shouldStop: () => stopRef.current,
+        onStart: customer => setInFlight(prev => new Set(prev).add(customer.id)),
+      }
+    );
+    setRunning(false);
+    onFinished();
+  };
+
+  const handleStop = () => {
+    stopRef.current = true;
+    setStopped(true);
+  };
+
+  const done = Object.keys(results).length;
+  const failed = Object.values(results).filter(r => !r.success).length;
+  const started = running || done > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={next => !running && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Process Customers</DialogTitle>
+          <DialogDescription>
+            Send {customers.length} customer{customers.length === 1 ? '' : 's'} to the processing workflow.
+          </DialogDescription>
+        </DialogHeader>
+
+        {started && (
+          <div className="space-y-2">
+            <Progress value={(done / customers.length) * 100} />
+            <p className="text-sm text-muted-foreground">
+              {done} of {customers.length} processed
+              {failed > 0 && <span className="text-destructive"> · {failed} failed</span>}
+              {stopped && !running && done < customers.length && ' · stopped'}
+            </p>
+          </div>
+        )}
+
+        <ul className="max-h-72 divide-y overflow-y-auto rounded-md border text-sm">
+          {customers.map(customer => {
+            const result = results[customer.id];
+            return (
+              <li key={customer.id} className="flex items-center gap-2 p-2">
+                {result ? (
+                  result.success ? (
+                    <CheckCircle2 className="h-4 w-4 shrink-0 text-emerald-600" />
+                  ) : (
+                    <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                  )
+                ) : inFlight.has(customer.id) ? (
+                  <Loader2 className="h-4 w-4 shrink-0 animate-spin text-muted-foreground" />
+                ) : (
+                  <Circle className="h-4 w-4 shrink-0 text-muted-foreground" />
+                )}
+                <span className="font-medium">{customer.first_name} {customer.last_name}</span>
+                <span className="truncate text-muted-foreground">
+                  {result && !result.success ? result.message || 'Failed' : customer.email}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+
+        <DialogFooter>
+          {running ? (
+            <Button variant="outline" onClick={handleStop} disabled={stopped}>
+              {stopped ? 'Stopping...' : 'Stop'}
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              {!started && <Button onClick={handleStart}>Process {customers.length}</Button>}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
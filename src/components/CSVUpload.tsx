@@ -1,80 +1,76 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Upload, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, Columns, ClipboardCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { processClient } from '@/services/salesApi';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { getCustomers } from '@/services/customerService';
+import {
+  resolveColumns,
+  applyHeaderMapping,
+  toHeaderMapping,
+  CustomerColumnMap,
+  ImportedCustomerRow,
+} from '@/services/csvImport';
+import {
+  analyzeImportReport,
+  applyRowFix,
+  buildImportReport,
+  buildRejectedRowsCsv,
+  hasErrors,
+  isImportable,
+  summarizeImportReport,
+  ImportReportRow,
+  ImportRowAction,
+} from '@/services/importValidation';
+import { getImportFileKind, parseImportFile, IMPORT_FILE_ACCEPT } from '@/services/fileImport';
+import { getSavedImportMapping, saveImportMapping } from '@/services/importMappingService';
+import {
+  createImportJob,
+  downloadImportFile,
+  failImportJob,
+  runImportJob,
+  stageImportRows,
+  uploadImportFile,
+  ImportJob,
+  ImportJobProgress,
+} from '@/services/importJobService';
+import { downloadFile } from '@/lib/download';
+import { Customer } from '@/types/customer';
+import { ColumnMappingStep } from './ColumnMappingStep';
+import { ImportPreview } from './ImportPreview';
 
 interface CSVUploadProps {
   onUploadSuccess: () => void;
+  rerunJob?: ImportJob | null;
 }
 
-// Helper to normalize phone numbers (handle scientific notation from Excel)
-const normalizePhone = (phone: string): string => {
-  if (!phone) return '';
-  const num = parseFloat(phone);
-  if (!isNaN(num) && phone.includes('E')) {
-    return Math.round(num).toString();
-  }
-  return phone.replace(/[^\d+]/g, '').substring(0, 20);
-};
-
-// Helper to map various status values to allowed database values
-const normalizeStatus = (status: string): string => {
-  if (!status) return 'pending';
-  
-  const normalized = status.toLowerCase().trim();
-  
-  // Map common variations to allowed values: pending, active, won, lost
-  const statusMap: Record<string, string> = {
-    // Pending variations
-    'pending': 'pending',
-    'new': 'pending',
-    'new lead': 'pending',
-    'lead': 'pending',
-    'prospect': 'pending',
-    'open': 'pending',
-    
-    // Active variations
-    'active': 'active',
-    'contacted': 'active',
-    'contact': 'active',
-    'in progress': 'active',
-    'working': 'active',
-    'engaged': 'active',
-    'qualified': 'active',
-    'negotiation': 'active',
-    'coder': 'active', // From the CSV example
-    
-    // Won variations
-    'won': 'won',
-    'closed won': 'won',
-    'success': 'won',
-    'complete': 'won',
-    'completed': 'won',
-    'closed': 'won',
-    
-    // Lost variations
-    'lost': 'lost',
-    'closed lost': 'lost',
-    'rejected': 'lost',
-    'failed': 'lost',
-    'declined': 'lost',
-    'cancelled': 'lost',
-  };
-  
-  return statusMap[normalized] || 'pending';
-};
+interface PendingImport {
+  file: File;
+  headers: string[];
+  rows: string[][];
+  sheets: string[];
+  sheet: string | null;
+  filePath?: string; // already stored in csv-imports (re-run of a previous job)
+}
 
-export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
+export const CSVUpload = ({ onUploadSuccess, rerunJob }: CSVUploadProps) => {
   const [uploading, setUploading] = useState(false);
   const [dragOver, setDragOver] = useState(false);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [columns, setColumns] = useState<CustomerColumnMap | null>(null);
+  const [report, setReport] = useState<ImportReportRow[] | null>(null);
+  const [existingCustomers, setExistingCustomers] = useState<Customer[]>([]);
+  const [progress, setProgress] = useState<ImportJobProgress | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { stages } = usePipeline();
+  const { data: customFields = [], isPending: customFieldsPending } = useCustomFields();
+  const rerunStarted = useRef<string | null>(null);
 
-  const handleFileUpload = async (file: File) => {
+  const handleFileUpload = useCallback(async (file: File, previousJob?: ImportJob, sheet?: string) => {
     if (!user) {
       toast({
         title: "Error",
@@ -84,10 +80,10 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
       return;
     }
 
-    if (!file.type.includes('csv') && !file.name.endsWith('.csv')) {
+    if (!getImportFileKind(file)) {
       toast({
         title: "Invalid File Type",
-        description: "Please upload a CSV file.",
+        description: "Please upload a CSV, Excel (.xlsx) or JSON file.",
         variant: "destructive",
       });
       return;
@@ -96,189 +92,211 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
     setUploading(true);
     
     try {
-      // Create a unique filename
-      const fileName = `${user.id}/${Date.now()}-${file.name}`;
-      
-      // Upload file to Supabase Storage
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('csv-imports')
-        .upload(fileName, file);
-
-      if (uploadError) throw uploadError;
-
-      // Parse CSV and insert data
-      const text = await file.text();
-      const lines = text.split('\n');
-      
-      // Improved CSV parsing to handle quoted fields
-      const parseCSVLine = (line: string): string[] => {
-        const result: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        
-        for (let i = 0; i < line.length; i++) {
-          const char = line[i];
-          
-          if (char === '"') {
-            if (inQuotes && line[i + 1] === '"') {
-              // Handle escaped quotes
-              current += '"';
-              i++; // Skip next quote
-            } else {
-              // Toggle quote mode
-              inQuotes = !inQuotes;
-            }
-          } else if (char === ',' && !inQuotes) {
-            // End of field
-            result.push(current.trim());
-            current = '';
-          } else {
-            current += char;
-          }
-        }
-        
-        // Add the last field
-        result.push(current.trim());
-        return result;
-      };
-      
-      const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/"/g, '').trim());
-      
-      // Find column indices - try multiple variations, return -1 if not found
-      const getColumnIndex = (columnVariations: string[]) => {
-        for (const variation of columnVariations) {
-          const index = headers.findIndex(header => 
-            header.includes(variation.toLowerCase()) || 
-            variation.toLowerCase().includes(header) ||
-            header === variation.toLowerCase()
-          );
-          if (index !== -1) return index;
-        }
-        return -1;
-      };
-
-      const fullNameIdx = getColumnIndex(['fullname', 'full_name', 'full name', 'name']);
-      const firstNameIdx = getColumnIndex(['firstname', 'first_name', 'fname', 'first name']);
-      const lastNameIdx = getColumnIndex(['lastname', 'last_name', 'lname', 'last name']);
-      const emailIdx = getColumnIndex(['email', 'email_address', 'mail', 'e-mail']);
-      const phoneIdx = getColumnIndex(['phoneno', 'phone_no', 'phone', 'mobile', 'contact', 'phonenumber', 'phone number']);
-      const sourceIdx = getColumnIndex(['source', 'lead_source', 'origin', 'lead source']);
-      const notesIdx = getColumnIndex(['notes', 'note', 'remarks', 'comments', 'description']);
-      const statusIdx = getColumnIndex(['status', 'lead_status', 'customer_status']);
-
-      // Helper to split full name into first and last name
-      const splitFullName = (fullName: string): { firstName: string; lastName: string } => {
-        const trimmed = fullName.trim();
-        if (!trimmed) return { firstName: '', lastName: '' };
-        
-        const parts = trimmed.split(/\s+/);
-        if (parts.length === 1) {
-          return { firstName: parts[0], lastName: '' };
-        }
-        // First part is first name, rest is last name
-        const firstName = parts[0];
-        const lastName = parts.slice(1).join(' ');
-        return { firstName, lastName };
-      };
-
-      // Process data rows
-      const dataRows = lines.slice(1).filter(line => line.trim());
-      const clientsData = [];
-      const errors: string[] = [];
-
-      for (let i = 0; i < dataRows.length; i++) {
-        const line = dataRows[i];
-        const columns = parseCSVLine(line).map(c => c.replace(/"/g, '').trim());
-        
-        // Skip completely empty rows
-        if (!columns.some(col => col.length > 0)) continue;
-
-        // Try to get first and last name
-        let firstName = '';
-        let lastName = '';
-        
-        // Check if we have a full name field first
-        if (fullNameIdx !== -1 && columns[fullNameIdx]) {
-          const { firstName: fn, lastName: ln } = splitFullName(columns[fullNameIdx]);
-          firstName = fn;
-          lastName = ln;
-        }
-        
-        // Override with explicit first/last name if available
-        if (firstNameIdx !== -1 && columns[firstNameIdx]) {
-          firstName = columns[firstNameIdx].trim();
-        }
-        if (lastNameIdx !== -1 && columns[lastNameIdx]) {
-          lastName = columns[lastNameIdx].trim();
-        }
-
-        const email = emailIdx !== -1 ? columns[emailIdx]?.trim() : '';
-        const phone = phoneIdx !== -1 ? normalizePhone(columns[phoneIdx]) : '';
-        const source = sourceIdx !== -1 ? (columns[sourceIdx]?.trim() || 'CSV Import') : 'CSV Import';
-        const notes = notesIdx !== -1 ? columns[notesIdx]?.trim() : '';
-        const status = statusIdx !== -1 ? normalizeStatus(columns[statusIdx]) : 'pending';
-
-        // Validate required fields
-        if (!email || !email.includes('@')) {
-          errors.push(`Row ${i + 2}: Invalid or missing email`);
-          continue;
-        }
-        if (!firstName && !lastName) {
-          errors.push(`Row ${i + 2}: Missing name (provide Full Name or First/Last Name)`);
-          continue;
-        }
-
-        clientsData.push({
-          sales_rep_user_id: user.id,
-          first_name: firstName || 'Unknown',
-          last_name: lastName || 'Unknown',
-          email: email,
-          phone_no: phone,
-          source: source,
-          notes: notes,
-          status: status
-        });
-      }
+      // Parse the file and propose a column mapping, preferring the tenant's last confirmed one
+      const parsed = await parseImportFile(file, { sheet });
+      const { headers, rows } = parsed;
 
-      if (clientsData.length === 0) {
-        const errorMsg = errors.length > 0 
-          ? `No valid rows found. Errors:\n${errors.slice(0, 5).join('\n')}${errors.length > 5 ? `\n...and ${errors.length - 5} more` : ''}`
-          : 'No data rows found in CSV file';
-        throw new Error(errorMsg);
+      if (headers.length === 0 || rows.length === 0) {
+        throw new Error(parsed.sheet ? `No data rows found in sheet "${parsed.sheet}"` : 'No data rows found in file');
       }
 
-      // Insert data into Supabase
-      const { error, data } = await supabase
-        .from('customers')
-        .insert(clientsData)
-        .select();
+      const savedMapping = previousJob ? previousJob.mapping : await getSavedImportMapping();
+      setColumns(savedMapping ? applyHeaderMapping(headers, savedMapping, customFields) : resolveColumns(headers, customFields));
+      setPendingImport(prev => ({
+        file,
+        headers,
+        rows,
+        sheets: parsed.sheets,
+        sheet: parsed.sheet,
+        filePath: previousJob?.file_path ?? prev?.filePath,
+      }));
+    } catch (error) {
+      console.error('Import file parse error:', error);
+      toast({
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "Failed to read the file. Please check the format and try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  }, [user, toast, customFields]);
 
-      if (error) throw error;
+  const handlePreview = async () => {
+    if (!pendingImport || !columns) return;
 
-      // Show warning if some rows had errors
-      const warningMsg = errors.length > 0 
-        ? ` ${errors.length} row(s) skipped due to validation errors.` 
-        : '';
+    setUploading(true);
 
+    try {
+      // Dry run: validate every row against the mapping and existing customers without writing anything
+      const customers = await getCustomers();
+      setExistingCustomers(customers);
+      setReport(buildImportReport(pendingImport.rows, columns, customers, 'CSV Import', stages, customFields));
+    } catch (error) {
+      console.error('CSV preview error:', error);
       toast({
-        title: "Upload Successful",
-        description: `Imported ${clientsData.length} customer(s).${warningMsg}`,
+        title: "Preview Failed",
+        description: error instanceof Error ? error.message : "Failed to validate CSV file.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleActionChange = (rowNumber: number, action: ImportRowAction) => {
+    setReport(prev => prev?.map(row => (row.rowNumber === rowNumber ? { ...row, action } : row)) ?? null);
+  };
+
+  const handleFixRow = (rowNumber: number, updates: Partial<ImportedCustomerRow>) => {
+    if (!report || !columns) return;
+    const fixed = report.map(row => (row.rowNumber === rowNumber ? applyRowFix(row, columns, updates) : row));
+    setReport(analyzeImportReport(fixed, columns, existingCustomers, false, stages, customFields));
+  };
+
+  const handleDownloadRejected = () => {
+    if (!pendingImport || !report) return;
+    const baseName = pendingImport.file.name.replace(/\.[^.]+$/, '');
+    downloadFile(buildRejectedRowsCsv(pendingImport.headers, report), `${baseName}-rejected.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleConfirmImport = async () => {
+    if (!user || !pendingImport || !columns || !report) return;
+
+    const { file, headers } = pendingImport;
+    const summary = summarizeImportReport(report);
+    const rowErrors = report
+      .filter(hasErrors)
+      .map(row => ({
+        row: row.rowNumber,
+        message: row.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; '),
+      }));
+    const mapping = toHeaderMapping(headers, columns);
+    let jobId: string | null = null;
+    setUploading(true);
+    
+    try {
+      // Upload file to Supabase Storage unless this is a re-run of a stored file
+      const filePath = pendingImport.filePath || await uploadImportFile(user.id, file);
+
+      const importable = report.filter(isImportable);
+      if (importable.length === 0) {
+        throw new Error('No rows selected for import');
+      }
+
+      // Stage the reviewed rows; the bulk-import-customers edge function writes them in chunks
+      const rowsPath = await stageImportRows(
+        user.id,
+        file.name,
+        importable.map(({ customer }) => ({
+          first_name: customer.firstName || 'Unknown',
+          last_name: customer.lastName || 'Unknown',
+          // Lowercased as in the preview's duplicate check, so a matched customer is updated
+          email: customer.email.toLowerCase(),
+          phone_no: customer.phone,
+          source: customer.source,
+          notes: customer.notes,
+          status: customer.status,
+          custom_fields: customer.customFields,
+        }))
+      );
+
+      jobId = await createImportJob({
+        fileName: file.name,
+        filePath,
+        rowsPath,
+        totalRows: summary.total,
+        stagedRows: importable.length,
+        skippedRows: summary.skipped,
+        failedRows: summary.invalid,
+        errors: rowErrors,
+        mapping,
       });
 
+      if (!jobId) {
+        throw new Error('Failed to create import job');
+      }
+
+      // Remember the confirmed mapping for the next upload in this tenant
+      await saveImportMapping(mapping);
+
+      setProgress({ done: false, processed_rows: 0, staged_rows: importable.length, inserted_count: 0, updated_count: 0 });
+      const result = await runImportJob(jobId, setProgress);
+      const written = result.progress?.processed_rows || 0;
+
+      if (!result.success) {
+        toast({
+          title: "Import Paused",
+          description: `${written} of ${importable.length} row(s) imported before an error: ${result.message}. Resume it from Import History.`,
+          variant: "destructive",
+        });
+      } else {
+        // Show warning if some rows were not imported
+        const notImported = summary.skipped + summary.invalid;
+        const warningMsg = notImported > 0
+          ? ` ${notImported} row(s) skipped.`
+          : '';
+
+        toast({
+          title: "Upload Successful",
+          description: `Imported ${result.progress?.inserted_count || 0} new and updated ${result.progress?.updated_count || 0} existing customer(s).${warningMsg}`,
+        });
+      }
+
+      resetImport();
       onUploadSuccess();
 
-    } catch (error: any) {
+    } catch (error) {
       console.error('CSV upload error:', error);
+      const message = error instanceof Error ? error.message : "Failed to process CSV file. Please check the format and try again.";
+      // Only reached before any chunk ran; chunk failures leave the job resumable
+      if (jobId) {
+        await failImportJob(jobId, message, summary.toInsert + summary.toUpdate, rowErrors);
+      }
       toast({
         title: "Upload Failed",
-        description: error.message || "Failed to process CSV file. Please check the format and try again.",
+        description: message,
         variant: "destructive",
       });
     } finally {
       setUploading(false);
+      setProgress(null);
     }
   };
 
+  // Re-running a previous job starts from its stored file and the mapping it used.
+  // Waits for the custom fields so their columns are mapped, and runs once per job.
+  useEffect(() => {
+    if (!rerunJob || customFieldsPending || rerunStarted.current === rerunJob.id) return;
+    rerunStarted.current = rerunJob.id;
+
+    const loadJobFile = async () => {
+      try {
+        setUploading(true);
+        const file = await downloadImportFile(rerunJob);
+        await handleFileUpload(file, rerunJob);
+      } catch (error) {
+        console.error('Error loading import file:', error);
+        toast({
+          title: "Re-run Failed",
+          description: "Could not download the original import file.",
+          variant: "destructive",
+        });
+      } finally {
+        setUploading(false);
+      }
+    };
+
+    loadJobFile();
+  }, [rerunJob, customFieldsPending, handleFileUpload, toast]);
+
+  const resetImport = () => {
+    setPendingImport(null);
+    setColumns(null);
+    setReport(null);
+    setExistingCustomers([]);
+  };
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setDragOver(false);
@@ -296,6 +314,68 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
     }
   };
 
+  if (pendingImport && report) {
+    return (
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-6 w-6" />
+            Review Import
+          </CardTitle>
+          <CardDescription>
+            Accept, skip or fix rows before anything is written
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ImportPreview
+            fileName={pendingImport.file.name}
+            report={report}
+            onActionChange={handleActionChange}
+            onFixRow={handleFixRow}
+            onDownloadRejected={handleDownloadRejected}
+            onConfirm={handleConfirmImport}
+            onBack={() => setReport(null)}
+            busy={uploading}
+            progress={progress}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (pendingImport && columns) {
+    return (
+      <Card className="w-full">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Columns className="h-6 w-6" />
+            Map Columns
+          </CardTitle>
+          <CardDescription>
+            Confirm which column holds each customer field before importing
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ColumnMappingStep
+            fileName={pendingImport.file.name}
+            headers={pendingImport.headers}
+            rows={pendingImport.rows}
+            columns={columns}
+            onColumnsChange={setColumns}
+            sheets={pendingImport.sheets}
+            sheet={pendingImport.sheet}
+            onSheetChange={sheet => handleFileUpload(pendingImport.file, undefined, sheet)}
+            onConfirm={handlePreview}
+            onCancel={resetImport}
+            confirmLabel="Preview import"
+            busy={uploading}
+            customFields={customFields}
+          />
+        </CardContent>
+      </Card>
+    );
+  }
+
   return (
     <Card className="w-full max-w-2xl mx-auto">
       <CardHeader className="text-center">
@@ -304,7 +384,7 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
           Import Client Data
         </CardTitle>
         <CardDescription>
-          Upload a CSV file containing your client data to get started
+          Upload a CSV, Excel or JSON file containing your client data to get started
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -325,13 +405,13 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
           
           <div className="space-y-4">
             <div>
-              <p className="text-lg font-medium">Drop your CSV file here</p>
+              <p className="text-lg font-medium">Drop your CSV, Excel or JSON file here</p>
               <p className="text-sm text-muted-foreground">or click to browse</p>
             </div>
             
             <input
               type="file"
-              accept=".csv"
+              accept={IMPORT_FILE_ACCEPT}
               onChange={handleFileSelect}
               className="hidden"
               id="csv-upload"
@@ -346,7 +426,7 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
                 asChild
               >
                 <span>
-                  {uploading ? 'Processing...' : 'Select CSV File'}
+                  {uploading ? 'Processing...' : 'Select File'}
                 </span>
               </Button>
             </label>
@@ -357,9 +437,9 @@ export const CSVUpload = ({ onUploadSuccess }: CSVUploadProps) => {
           <div className="flex items-start gap-2 text-sm">
             <AlertCircle className="h-4 w-4 text-amber-500 mt-0.5 flex-shrink-0" />
             <div>
-              <p className="font-medium">Flexible CSV Format:</p>
+              <p className="font-medium">Flexible File Formats:</p>
               <p className="text-muted-foreground">
-                Supports various column names: Full Name (or First/Last Name), Email, Phone, Source, Status, Notes
+                Supports comma, semicolon or tab separated files, Excel workbooks (.xlsx) and JSON arrays. You can review and adjust the column mapping before importing.
               </p>
             </div>
           </div>
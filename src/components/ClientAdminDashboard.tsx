@@ -1,87 +1,49 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Plus, Users, UserCheck, Activity, TrendingUp } from 'lucide-react';
-import { SalesRep } from '@/types/salesRep';
-import { Customer } from '@/types/customer';
-import { getSalesReps } from '@/services/salesRepService';
-import { getCustomers } from '@/services/customerService';
+import { Plus, Users, UserCheck, Activity, TrendingUp, XCircle } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { CustomerStageSummary } from '@/types/customer';
+import { getTenantId } from '@/services/roleService';
 import { SalesRepTable } from './SalesRepTable';
 import { InviteSalesRepDialog } from './InviteSalesRepDialog';
 import { useToast } from '@/hooks/use-toast';
-import { supabase } from '@/integrations/supabase/client';
+import { customerKeys, useCustomerChanges, useCustomerList, useCustomerStageSummary } from '@/hooks/use-customers';
+import { salesRepKeys, useSalesRepChanges, useSalesReps } from '@/hooks/use-sales-reps';
 import AuditLogViewer from './AuditLogViewer';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { exportTenantCustomers, ExportFormat } from '@/services/exportService';
+import { ExportMenu } from './ExportMenu';
+import { DuplicateFinder } from './DuplicateFinder';
+import { PipelineStagesManager } from './PipelineStagesManager';
+import { CustomFieldsManager } from './CustomFieldsManager';
+import { AccountsManager } from './AccountsManager';
+import { LeadRoutingRulesManager } from './LeadRoutingRulesManager';
+import { ForecastView } from './ForecastView';
+import { RepActivitySummary } from './RepActivitySummary';
+import { NotificationBell } from './NotificationBell';
+import { formatMoney, getSummaryCurrencies, getSummaryTotals } from '@/services/forecastService';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { isOpenStage } from '@/lib/pipeline';
 
 export const ClientAdminDashboard = () => {
-  const [salesReps, setSalesReps] = useState<SalesRep[]>([]);
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [loading, setLoading] = useState(true);
   const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [tab, setTab] = useState('reps');
   const { toast } = useToast();
+  const { getStage } = usePipeline();
+  const queryClient = useQueryClient();
+  const { data: tenantId } = useQuery({ queryKey: ['tenant_id'], queryFn: getTenantId, staleTime: Infinity });
+  const { data: salesReps = [], isLoading: loading } = useSalesReps();
+  const { data: summary = [] } = useCustomerStageSummary();
+  // Forecast and duplicate detection work on every customer in the tenant, so
+  // the full list is only loaded while one of those tabs is open
+  const { data: customers = [] } = useCustomerList({}, tab === 'forecast' || tab === 'duplicates');
 
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      const [repsData, customersData] = await Promise.all([
-        getSalesReps(),
-        getCustomers()
-      ]);
-      setSalesReps(repsData);
-      setCustomers(customersData);
-    } catch (error) {
-      console.error('Error loading data:', error);
-      toast({
-        title: 'Error',
-        description: 'Failed to load dashboard data',
-        variant: 'destructive'
-      });
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    loadData();
-
-    // Set up real-time subscriptions for sales_reps and customers
-    const salesRepsChannel = supabase
-      .channel('sales-reps-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'sales_reps'
-        },
-        () => {
-          console.log('Sales reps data changed, reloading...');
-          loadData();
-        }
-      )
-      .subscribe();
-
-    const customersChannel = supabase
-      .channel('customers-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'customers'
-        },
-        () => {
-          console.log('Customers data changed, reloading...');
-          loadData();
-        }
-      )
-      .subscribe();
+  // Only changes in this tenant reach the dashboard
+  useSalesRepChanges(tenantId);
+  useCustomerChanges('customers-changes', { filter: `client_id=eq.${tenantId}`, enabled: !!tenantId });
 
-    return () => {
-      supabase.removeChannel(salesRepsChannel);
-      supabase.removeChannel(customersChannel);
-    };
-  }, []);
+  const loadData = () => queryClient.invalidateQueries({ queryKey: salesRepKeys.all });
 
   const handleInviteSuccess = () => {
     setShowInviteDialog(false);
@@ -92,11 +54,38 @@ export const ClientAdminDashboard = () => {
     });
   };
 
+  const handleTenantExport = async (format: ExportFormat) => {
+    const result = await exportTenantCustomers(format);
+    if (result.success) {
+      toast({
+        title: 'Export Ready',
+        description: `Exported ${result.count} customer(s).`,
+      });
+    } else {
+      toast({
+        title: 'Export Failed',
+        description: result.message || 'Failed to export customers',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const activeSalesReps = salesReps.filter(rep => rep.status === 'active').length;
-  const totalCustomers = customers.length;
-  const activeCustomers = customers.filter(c => c.status === 'active').length;
-  const pendingCustomers = customers.filter(c => c.status === 'pending').length;
-  const wonCustomers = customers.filter(c => c.status === 'won').length;
+  const countCustomers = (matches: (row: CustomerStageSummary) => boolean) =>
+    summary.filter(matches).reduce((sum, row) => sum + row.customer_count, 0);
+  const totalCustomers = countCustomers(() => true);
+  const openCustomers = countCustomers(row => {
+    const stage = getStage(row.status);
+    return !stage || isOpenStage(stage);
+  });
+  const wonCustomers = countCustomers(row => !!getStage(row.status)?.is_won);
+  const lostCustomers = countCustomers(row => !!getStage(row.status)?.is_lost);
+  const customerCounts = summary.reduce<Record<string, number>>((counts, row) => {
+    counts[row.sales_rep_user_id] = (counts[row.sales_rep_user_id] || 0) + row.customer_count;
+    return counts;
+  }, {});
+  const dealCurrency = getSummaryCurrencies(summary)[0];
+  const dealTotals = dealCurrency ? getSummaryTotals(summary, getStage, dealCurrency) : null;
 
   return (
     <div className="min-h-screen bg-dashboard-bg p-6">
@@ -107,10 +96,18 @@ export const ClientAdminDashboard = () => {
             <h1 className="text-3xl font-bold text-primary">Client Dashboard</h1>
             <p className="text-muted-foreground">Manage your sales team and monitor performance</p>
           </div>
-          <Button onClick={() => setShowInviteDialog(true)}>
-            <Plus className="h-4 w-4 mr-2" />
-            Invite Sales Rep
-          </Button>
+          <div className="flex gap-2">
+            <NotificationBell />
+            <ExportMenu
+              label="Export All Customers"
+              onExport={handleTenantExport}
+              disabled={loading || totalCustomers === 0}
+            />
+            <Button onClick={() => setShowInviteDialog(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Invite Sales Rep
+            </Button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -143,39 +140,39 @@ export const ClientAdminDashboard = () => {
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active</CardTitle>
+              <CardTitle className="text-sm font-medium">Open</CardTitle>
               <Activity className="h-4 w-4 text-green-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{activeCustomers}</div>
+              <div className="text-2xl font-bold">{openCustomers}</div>
               <p className="text-xs text-muted-foreground">
-                In workflow
+                {dealTotals ? `${formatMoney(dealTotals.weighted, dealCurrency)} weighted` : 'In the pipeline'}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Pending</CardTitle>
-              <Activity className="h-4 w-4 text-yellow-600" />
+              <CardTitle className="text-sm font-medium">Won</CardTitle>
+              <TrendingUp className="h-4 w-4 text-blue-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{pendingCustomers}</div>
+              <div className="text-2xl font-bold">{wonCustomers}</div>
               <p className="text-xs text-muted-foreground">
-                Awaiting process
+                {dealTotals ? `${formatMoney(dealTotals.won, dealCurrency)} won` : 'Converted'}
               </p>
             </CardContent>
           </Card>
 
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Won</CardTitle>
-              <TrendingUp className="h-4 w-4 text-blue-600" />
+              <CardTitle className="text-sm font-medium">Lost</CardTitle>
+              <XCircle className="h-4 w-4 text-red-600" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{wonCustomers}</div>
+              <div className="text-2xl font-bold">{lostCustomers}</div>
               <p className="text-xs text-muted-foreground">
-                Converted
+                Not converted
               </p>
             </CardContent>
           </Card>
@@ -190,9 +187,16 @@ export const ClientAdminDashboard = () => {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="reps" className="w-full">
+            <Tabs value={tab} onValueChange={setTab} className="w-full">
               <TabsList>
                 <TabsTrigger value="reps">Sales Reps</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+                <TabsTrigger value="accounts">Accounts</TabsTrigger>
+                <TabsTrigger value="forecast">Forecast</TabsTrigger>
+                <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+                <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+                <TabsTrigger value="fields">Custom Fields</TabsTrigger>
+                <TabsTrigger value="routing">Lead Routing</TabsTrigger>
                 <TabsTrigger value="audit">Audit Log</TabsTrigger>
               </TabsList>
               
@@ -201,9 +205,42 @@ export const ClientAdminDashboard = () => {
                   data={salesReps} 
                   loading={loading}
                   onDataChange={loadData}
+                  customerCounts={customerCounts}
+                />
+              </TabsContent>
+              
+              <TabsContent value="activity" className="mt-6">
+                <RepActivitySummary salesReps={salesReps} />
+              </TabsContent>
+              
+              <TabsContent value="accounts" className="mt-6">
+                <AccountsManager />
+              </TabsContent>
+              
+              <TabsContent value="forecast" className="mt-6">
+                <ForecastView customers={customers} salesReps={salesReps} />
+              </TabsContent>
+              
+              <TabsContent value="duplicates" className="mt-6">
+                <DuplicateFinder
+                  customers={customers}
+                  salesReps={salesReps}
+                  onMerged={() => queryClient.invalidateQueries({ queryKey: customerKeys.all })}
                 />
               </TabsContent>
               
+              <TabsContent value="pipeline" className="mt-6">
+                <PipelineStagesManager />
+              </TabsContent>
+              
+              <TabsContent value="fields" className="mt-6">
+                <CustomFieldsManager />
+              </TabsContent>
+              
+              <TabsContent value="routing" className="mt-6">
+                <LeadRoutingRulesManager salesReps={salesReps} />
+              </TabsContent>
+              
               <TabsContent value="audit" className="mt-6">
                 <AuditLogViewer />
               </TabsContent>
@@ -0,0 +1,215 @@
+import React, { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { CustomField } from '@/types/customField';
+import { formatCustomFieldValue } from '@/lib/customFields';
+import {
+  CUSTOMER_IMPORT_FIELDS,
+  CustomerColumnMap,
+  CustomerImportField,
+  extractCustomerRow,
+} from '@/services/csvImport';
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  columns: CustomerColumnMap;
+  onColumnsChange: (columns: CustomerColumnMap) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  confirmLabel?: string;
+  busy?: boolean;
+  sheets?: string[];
+  sheet?: string | null;
+  onSheetChange?: (sheet: string) => void;
+  customFields?: CustomField[];
+}
+
+const NOT_MAPPED = '__none__';
+const PREVIEW_ROWS = 5;
+
+export const ColumnMappingStep = ({
+  fileName,
+  headers,
+  rows,
+  columns,
+  onColumnsChange,
+  onConfirm,
+  onCancel,
+  confirmLabel = 'Import',
+  busy = false,
+  sheets = [],
+  sheet = null,
+  onSheetChange,
+  customFields = [],
+}: ColumnMappingStepProps) => {
+  const { stages } = usePipeline();
+  const previewRows = useMemo(
+    () => rows.slice(0, PREVIEW_ROWS).map(row => extractCustomerRow(row, columns, undefined, stages, customFields)),
+    [rows, columns, stages, customFields]
+  );
+  const mappedCustomFields = customFields.filter(field => (columns.customFields?.[field.key] ?? -1) !== -1);
+
+  const hasEmail = columns.email !== -1;
+  const hasName = columns.fullName !== -1 || columns.firstName !== -1 || columns.lastName !== -1;
+
+  const handleFieldChange = (field: CustomerImportField, value: string) => {
+    onColumnsChange({
+      ...columns,
+      [field]: value === NOT_MAPPED ? -1 : Number(value),
+    });
+  };
+
+  const handleCustomFieldChange = (key: string, value: string) => {
+    onColumnsChange({
+      ...columns,
+      customFields: { ...columns.customFields, [key]: value === NOT_MAPPED ? -1 : Number(value) },
+    });
+  };
+
+  const renderColumnSelect = (id: string, column: number, onChange: (value: string) => void) => (
+    <Select value={column === -1 ? NOT_MAPPED : String(column)} onValueChange={onChange} disabled={busy}>
+      <SelectTrigger id={id}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+        {headers.map((header, index) => (
+          <SelectItem key={index} value={String(index)}>
+            {header || `Column ${index + 1}`}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="font-medium">{fileName}</p>
+        <p className="text-sm text-muted-foreground">
+          {headers.length} column(s) detected, {rows.length} data row(s). Check how each column maps to a customer field.
+        </p>
+      </div>
+
+      {sheets.length > 1 && onSheetChange && (
+        <div className="space-y-1 max-w-xs">
+          <Label htmlFor="mapping-sheet">Sheet</Label>
+          <Select value={sheet ?? sheets[0]} onValueChange={onSheetChange} disabled={busy}>
+            <SelectTrigger id="mapping-sheet">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {sheets.map(name => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {CUSTOMER_IMPORT_FIELDS.map(({ field, label }) => (
+          <div key={field} className="space-y-1">
+            <Label htmlFor={`mapping-${field}`}>{label}</Label>
+            {renderColumnSelect(`mapping-${field}`, columns[field], value => handleFieldChange(field, value))}
+          </div>
+        ))}
+      </div>
+
+      {customFields.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Custom fields</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {customFields.map(field => (
+              <div key={field.id} className="space-y-1">
+                <Label htmlFor={`mapping-custom-${field.key}`}>{field.label}</Label>
+                {renderColumnSelect(
+                  `mapping-custom-${field.key}`,
+                  columns.customFields?.[field.key] ?? -1,
+                  value => handleCustomFieldChange(field.key, value)
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(!hasEmail || !hasName) && (
+        <div className="flex flex-wrap gap-2">
+          {!hasEmail && <Badge variant="destructive">Email column is required</Badge>}
+          {!hasName && <Badge variant="destructive">Map Full Name or First/Last Name</Badge>}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Preview (first {Math.min(PREVIEW_ROWS, rows.length)} rows)</p>
+        <div className="rounded-md border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">First Name</th>
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">Last Name</th>
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">Email</th>
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">Phone</th>
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">Source</th>
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">Status</th>
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground">Notes</th>
+                {mappedCustomFields.map(field => (
+                  <th key={field.id} className="h-10 px-3 text-left font-medium text-muted-foreground">{field.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((row, index) => (
+                <tr key={index} className="border-b last:border-0">
+                  <td className="p-3">{row.firstName || '-'}</td>
+                  <td className="p-3">{row.lastName || '-'}</td>
+                  <td className="p-3">{row.email || '-'}</td>
+                  <td className="p-3">{row.phone || '-'}</td>
+                  <td className="p-3">{row.source}</td>
+                  <td className="p-3">{row.status}</td>
+                  <td className="p-3 truncate max-w-[200px]">{row.notes || '-'}</td>
+                  {mappedCustomFields.map(field => (
+                    <td key={field.id} className="p-3">
+                      {formatCustomFieldValue(field, row.customFields[field.key]) || '-'}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+        <Button onClick={onConfirm} disabled={busy || !hasEmail || !hasName}>
+          {busy ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Processing...
+            </>
+          ) : (
+            confirmLabel
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Table } from '@tanstack/react-table';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ArrowDown, ArrowUp, Columns3 } from 'lucide-react';
+
+interface ColumnsMenuProps<T> {
+  table: Table<T>;
+  labels: Record<string, string>; // columns the user can hide and move, by id
+}
+
+export const ColumnsMenu = <T,>({ table, labels }: ColumnsMenuProps<T>) => {
+  const allIds = table.getAllLeafColumns().map(column => column.id);
+  const saved = table.getState().columnOrder;
+  // Columns missing from a saved order (e.g. added later) keep their default place at the end
+  const order = saved.length ? [...saved.filter(id => allIds.includes(id)), ...allIds.filter(id => !saved.includes(id))] : allIds;
+  const movable = order.filter(id => labels[id]);
+
+  // Swaps with the neighbouring movable column, so fixed ones like the row
+  // checkboxes and actions stay where they are
+  const move = (id: string, offset: number) => {
+    const neighbour = movable[movable.indexOf(id) + offset];
+    if (!neighbour) return;
+    const next = [...order];
+    next[order.indexOf(id)] = neighbour;
+    next[order.indexOf(neighbour)] = id;
+    table.setColumnOrder(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Columns3 className="h-4 w-4 mr-2" />
+          Columns
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-64 p-2">
+        <ul className="space-y-1">
+          {movable.map((id, index) => {
+            const column = table.getColumn(id);
+            if (!column) return null;
+            return (
+              <li key={id} className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-muted">
+                <Checkbox
+                  id={`column-${id}`}
+                  checked={column.getIsVisible()}
+                  onCheckedChange={value => column.toggleVisibility(!!value)}
+                />
+                <label htmlFor={`column-${id}`} className="flex-1 text-sm">{labels[id]}</label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Move left"
+                  disabled={index === 0}
+                  onClick={() => move(id, -1)}
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Move right"
+                  disabled={index === movable.length - 1}
+                  onClick={() => move(id, 1)}
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+};
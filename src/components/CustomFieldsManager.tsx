@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+import { CustomField, CustomFieldType } from '@/types/customField';
+import { CUSTOM_FIELD_TYPE_LABELS } from '@/lib/customFields';
+import {
+  createCustomField,
+  deleteCustomField,
+  reorderCustomFields,
+  updateCustomField,
+} from '@/services/customFieldService';
+import { customFieldKeys, useCustomFields } from '@/hooks/use-custom-fields';
+import { customerKeys } from '@/hooks/use-customers';
+
+const splitOptions = (text: string) => text.split(',').map(option => option.trim()).filter(Boolean);
+
+export const CustomFieldsManager = () => {
+  const { data: fields = [], isLoading } = useCustomFields();
+  const [labels, setLabels] = useState<Record<string, string>>({});
+  const [options, setOptions] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [newLabel, setNewLabel] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState('');
+  const [deleteTarget, setDeleteTarget] = useState<CustomField | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Runs a change, then refreshes the fields everywhere they are shown
+  const applyChange = async (change: () => Promise<{ success: boolean; message?: string }>) => {
+    setSaving(true);
+    const result = await change();
+    if (!result.success) {
+      toast({
+        title: 'Custom Fields Update Failed',
+        description: result.message || 'Failed to update custom fields',
+        variant: 'destructive',
+      });
+    }
+    await queryClient.invalidateQueries({ queryKey: customFieldKeys.all });
+    setSaving(false);
+    return result.success;
+  };
+
+  const handleRename = (field: CustomField) => {
+    const label = (labels[field.id] ?? field.label).trim();
+    if (!label) {
+      setLabels({ ...labels, [field.id]: field.label });
+      return;
+    }
+    if (label === field.label) return;
+    applyChange(() => updateCustomField(field.id, { label }));
+  };
+
+  const handleOptionsChange = (field: CustomField) => {
+    const next = splitOptions(options[field.id] ?? field.options.join(', '));
+    if (next.length === 0) {
+      setOptions({ ...options, [field.id]: field.options.join(', ') });
+      return;
+    }
+    if (next.join(',') === field.options.join(',')) return;
+    applyChange(() => updateCustomField(field.id, { options: next }));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ordered = [...fields];
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + direction, 0, moved);
+    applyChange(() => reorderCustomFields(ordered.map(field => field.id)));
+  };
+
+  const handleAdd = async () => {
+    if (!newLabel.trim()) return;
+    const added = await applyChange(() =>
+      createCustomField({ label: newLabel, field_type: newType, options: splitOptions(newOptions) })
+    );
+    if (added) {
+      setNewLabel('');
+      setNewOptions('');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteTarget) return;
+    const deleted = await applyChange(() => deleteCustomField(deleteTarget));
+    if (deleted) queryClient.invalidateQueries({ queryKey: customerKeys.all });
+    setDeleteTarget(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Custom fields appear as columns in every rep's customer table, can be mapped in imports and set by the
+        onboarding webhook under <span className="font-mono">custom_fields</span> using the key shown here.
+      </p>
+
+      <div className="rounded-md border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Name</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Key</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Type</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Options</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.length === 0 && (
+              <tr>
+                <td colSpan={5} className="h-16 text-center text-muted-foreground">No custom fields yet</td>
+              </tr>
+            )}
+            {fields.map((field, index) => (
+              <tr key={field.id} className="border-b transition-colors hover:bg-muted/50">
+                <td className="p-4">
+                  <Input
+                    value={labels[field.id] ?? field.label}
+                    disabled={saving}
+                    onChange={e => setLabels({ ...labels, [field.id]: e.target.value })}
+                    onBlur={() => handleRename(field)}
+                    onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                  />
+                </td>
+                <td className="p-4 font-mono text-xs text-muted-foreground">{field.key}</td>
+                <td className="p-4">
+                  <Badge variant="secondary">{CUSTOM_FIELD_TYPE_LABELS[field.field_type]}</Badge>
+                </td>
+                <td className="p-4">
+                  {field.field_type === 'select' ? (
+                    <Input
+                      value={options[field.id] ?? field.options.join(', ')}
+                      disabled={saving}
+                      onChange={e => setOptions({ ...options, [field.id]: e.target.value })}
+                      onBlur={() => handleOptionsChange(field)}
+                      onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                    />
+                  ) : (
+                    <span className="text-muted-foreground">-</span>
+                  )}
+                </td>
+                <td className="p-4">
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving || index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving || index === fields.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" disabled={saving} onClick={() => setDeleteTarget(field)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="max-w-xs"
+          placeholder="New field name, e.g. Company"
+          value={newLabel}
+          onChange={e => setNewLabel(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        />
+        <Select value={newType} onValueChange={value => setNewType(value as CustomFieldType)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[]).map(type => (
+              <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {newType === 'select' && (
+          <Input
+            className="max-w-xs"
+            placeholder="Options, comma separated"
+            value={newOptions}
+            onChange={e => setNewOptions(e.target.value)}
+          />
+        )}
+        <Button
+          onClick={handleAdd}
+          disabled={saving || !newLabel.trim() || (newType === 'select' && splitOptions(newOptions).length === 0)}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Field
+        </Button>
+      </div>
+
+      <AlertDialog open={!!deleteTarget} onOpenChange={open => !open && !saving && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.label}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The field and its values on every customer will be removed. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={e => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={saving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {saving ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { Customer } from '@/types/customer';
+import { updateCustomerDeal } from '@/services/customerService';
+
+interface CustomerDealDialogProps {
+  customer: Customer | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (customer: Customer) => void;
+}
+
+const emptyForm = {
+  deal_amount: '',
+  deal_currency: 'USD',
+  deal_probability: '',
+  expected_close_date: '',
+};
+
+export const CustomerDealDialog = ({ customer, onOpenChange, onSaved }: CustomerDealDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!customer) return;
+    setFormData({
+      deal_amount: customer.deal_amount?.toString() ?? '',
+      deal_currency: customer.deal_currency || 'USD',
+      deal_probability: customer.deal_probability?.toString() ?? '',
+      expected_close_date: customer.expected_close_date ?? '',
+    });
+  }, [customer]);
+
+  const handleInputChange = (field: keyof typeof emptyForm, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!customer) return;
+
+    const amount = formData.deal_amount.trim() === '' ? null : Number(formData.deal_amount);
+    const probability = formData.deal_probability.trim() === '' ? null : Number(formData.deal_probability);
+    const currency = formData.deal_currency.trim().toUpperCase();
+
+    if (amount !== null && (isNaN(amount) || amount < 0)) {
+      toast({ title: 'Error', description: 'Deal amount must be a positive number', variant: 'destructive' });
+      return;
+    }
+    if (probability !== null && (!Number.isInteger(probability) || probability < 0 || probability > 100)) {
+      toast({ title: 'Error', description: 'Probability must be a whole number between 0 and 100', variant: 'destructive' });
+      return;
+    }
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      toast({ title: 'Error', description: 'Currency must be a 3-letter code such as USD', variant: 'destructive' });
+      return;
+    }
+
+    setLoading(true);
+    const result = await updateCustomerDeal(customer, {
+      deal_amount: amount,
+      deal_currency: currency,
+      deal_probability: probability,
+      expected_close_date: formData.expected_close_date || null,
+    });
+    setLoading(false);
+
+    if (result.success && result.customer) {
+      toast({ title: 'Success', description: 'Deal updated successfully' });
+      onSaved(result.customer);
+      onOpenChange(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to update deal',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!customer} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Deal Details</DialogTitle>
+          <DialogDescription>
+            {customer ? `${customer.first_name} ${customer.last_name}` : ''}. Deals without a probability are left out of
+            the weighted forecast.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="deal_amount" className="text-right">
+                Amount
+              </Label>
+              <Input
+                id="deal_amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.deal_amount}
+                onChange={(e) => handleInputChange('deal_amount', e.target.value)}
+                className="col-span-2"
+                disabled={loading}
+              />
+              <Input
+                id="deal_currency"
+                aria-label="Currency"
+                maxLength={3}
+                value={formData.deal_currency}
+                onChange={(e) => handleInputChange('deal_currency', e.target.value.toUpperCase())}
+                disabled={loading}
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="deal_probability" className="text-right">
+                Probability %
+              </Label>
+              <Input
+                id="deal_probability"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={formData.deal_probability}
+                onChange={(e) => handleInputChange('deal_probability', e.target.value)}
+                className="col-span-3"
+                disabled={loading}
+              />
+            </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="expected_close_date" className="text-right">
+                Expected Close
+              </Label>
+              <Input
+                id="expected_close_date"
+                type="date"
+                value={formData.expected_close_date}
+                onChange={(e) => handleInputChange('expected_close_date', e.target.value)}
+                className="col-span-3"
+                disabled={loading}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Save Deal'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
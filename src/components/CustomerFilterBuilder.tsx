@@ -0,0 +1,271 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ChevronDown, Filter, Plus, X } from 'lucide-react';
+import { FilterCondition, FilterGroup, FilterOperator } from '@/types/filter';
+import {
+  FilterField,
+  OPERATOR_LABELS,
+  countFilterConditions,
+  createFilterCondition,
+  createFilterGroup,
+  getFilterField,
+  getFilterOperators,
+  isFilterGroup,
+} from '@/lib/customerFilters';
+
+export interface FilterChoice {
+  value: string;
+  label: string;
+}
+
+interface CustomerFilterBuilderProps {
+  value?: FilterGroup;
+  onChange: (filter: FilterGroup | undefined) => void;
+  fields: FilterField[];
+  choices: Record<string, FilterChoice[]>; // options of choice fields without fixed choices, by field key
+}
+
+interface ConditionRowProps {
+  condition: FilterCondition;
+  fields: FilterField[];
+  choices: Record<string, FilterChoice[]>;
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow = ({ condition, fields, choices, onChange, onRemove }: ConditionRowProps) => {
+  const field = getFilterField(condition.field, fields) ?? fields[0];
+  const operators = getFilterOperators(field);
+  const options = field.choices ?? choices[field.key] ?? [];
+  const inputType = field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text';
+
+  const toggleChoice = (choice: string, checked: boolean) => {
+    const values = condition.values ?? [];
+    onChange({ ...condition, values: checked ? [...values, choice] : values.filter(value => value !== choice) });
+  };
+
+  const selectedLabels = options.filter(option => condition.values?.includes(option.value)).map(option => option.label);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={field.key}
+        onValueChange={key => onChange({ ...createFilterCondition(key, fields), id: condition.id })}
+      >
+        <SelectTrigger className="h-8 w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {fields.map(option => (
+            <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.operator}
+        onValueChange={operator => onChange({ ...condition, operator: operator as FilterOperator })}
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map(operator => (
+            <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {(condition.operator === 'in' || condition.operator === 'not_in') && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 w-56 justify-between font-normal">
+              <span className="truncate">{selectedLabels.length ? selectedLabels.join(', ') : 'Select...'}</span>
+              <ChevronDown className="h-4 w-4 shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-64 overflow-y-auto">
+            {options.length === 0 && <p className="px-2 py-1.5 text-sm text-muted-foreground">No options</p>}
+            {options.map(option => (
+              <DropdownMenuCheckboxItem
+                key={option.value}
+                checked={condition.values?.includes(option.value) ?? false}
+                onCheckedChange={checked => toggleChoice(option.value, !!checked)}
+                onSelect={e => e.preventDefault()}
+              >
+                {option.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {!['in', 'not_in', 'is_empty', 'is_not_empty'].includes(condition.operator) && (
+        <Input
+          type={inputType}
+          className="h-8 w-40"
+          value={condition.value ?? ''}
+          onChange={e => onChange({ ...condition, value: e.target.value })}
+        />
+      )}
+      {condition.operator === 'between' && (
+        <>
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input
+            type={inputType}
+            className="h-8 w-40"
+            value={condition.valueTo ?? ''}
+            onChange={e => onChange({ ...condition, valueTo: e.target.value })}
+          />
+        </>
+      )}
+
+      <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" title="Remove condition" onClick={onRemove}>
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: FilterGroup;
+  fields: FilterField[];
+  choices: Record<string, FilterChoice[]>;
+  nested?: boolean; // subgroups hold conditions only, one level deep
+  onChange: (group: FilterGroup) => void;
+  onRemove?: () => void;
+}
+
+const GroupEditor = ({ group, fields, choices, nested, onChange, onRemove }: GroupEditorProps) => {
+  const replaceItem = (id: string, item: FilterCondition | FilterGroup) =>
+    onChange({ ...group, conditions: group.conditions.map(current => (current.id === id ? item : current)) });
+
+  const removeItem = (id: string) =>
+    onChange({ ...group, conditions: group.conditions.filter(current => current.id !== id) });
+
+  return (
+    <div className={nested ? 'space-y-2 rounded-md border bg-muted/30 p-3' : 'space-y-3'}>
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select
+          value={group.combinator}
+          onValueChange={combinator => onChange({ ...group, combinator: combinator as FilterGroup['combinator'] })}
+        >
+          <SelectTrigger className="h-8 w-20">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of the following</span>
+        {onRemove && (
+          <Button variant="ghost" size="icon" className="ml-auto h-8 w-8" title="Remove group" onClick={onRemove}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map(item =>
+        isFilterGroup(item) ? (
+          <GroupEditor
+            key={item.id}
+            group={item}
+            fields={fields}
+            choices={choices}
+            nested
+            onChange={next => replaceItem(item.id, next)}
+            onRemove={() => removeItem(item.id)}
+          />
+        ) : (
+          <ConditionRow
+            key={item.id}
+            condition={item}
+            fields={fields}
+            choices={choices}
+            onChange={next => replaceItem(item.id, next)}
+            onRemove={() => removeItem(item.id)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, createFilterCondition()] })}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add condition
+        </Button>
+        {!nested && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...group, conditions: [...group.conditions, createFilterGroup(true)] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Edits a copy of the filter and hands it over on Apply, so half-built
+// conditions never reach the query
+export const CustomerFilterBuilder = ({ value, onChange, fields, choices }: CustomerFilterBuilderProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterGroup>(() => value ?? createFilterGroup(true));
+  const activeCount = countFilterConditions(value);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(value ?? createFilterGroup(true));
+    setOpen(next);
+  };
+
+  const apply = (filter: FilterGroup | undefined) => {
+    onChange(filter && countFilterConditions(filter) > 0 ? filter : undefined);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline">
+          <Filter className="h-4 w-4 mr-2" />
+          Filters
+          {activeCount > 0 && <Badge variant="secondary" className="ml-2">{activeCount}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[720px] max-w-[95vw] space-y-4">
+        <GroupEditor group={draft} fields={fields} choices={choices} onChange={setDraft} />
+        <div className="flex justify-between border-t pt-3">
+          <Button variant="ghost" size="sm" onClick={() => apply(undefined)} disabled={!value}>
+            Clear filters
+          </Button>
+          <Button size="sm" onClick={() => apply(draft)}>
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
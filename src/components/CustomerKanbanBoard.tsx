@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Clock } from 'lucide-react';
+import { differenceInDays, formatDistanceToNow } from 'date-fns';
+import { Customer } from '@/types/customer';
+import { Workflow } from '@/services/workflowService';
+import { updateCustomerStatus } from '@/services/customerService';
+import { usePipeline } from '@/contexts/PipelineContext';
+
+interface CustomerKanbanBoardProps {
+  customers: Customer[];
+  workflows?: Workflow[];
+  onCustomerUpdated: (customer: Customer) => void;
+}
+
+const workflowColors: Record<string, string> = {
+  pending: 'bg-orange-500',
+  active: 'bg-cyan-500',
+  completed: 'bg-emerald-500',
+  failed: 'bg-rose-500',
+};
+
+// Days a customer has spent in its current stage
+const stageAge = (customer: Customer): number =>
+  differenceInDays(new Date(), new Date(customer.status_changed_at || customer.created_at || Date.now()));
+
+export const CustomerKanbanBoard = ({ customers, workflows = [], onCustomerUpdated }: CustomerKanbanBoardProps) => {
+  const { stages } = usePipeline();
+  const { toast } = useToast();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const workflowsByCustomer = new Map(workflows.map(w => [w.customer_id, w]));
+
+  const handleDrop = async (status: string) => {
+    const customer = customers.find(c => c.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (!customer || customer.status === status) return;
+
+    // Move the card right away and put it back if the update fails
+    onCustomerUpdated({ ...customer, status, status_changed_at: new Date().toISOString() });
+
+    const result = await updateCustomerStatus(customer, status);
+    if (result.success && result.customer) {
+      onCustomerUpdated(result.customer);
+    } else {
+      onCustomerUpdated(customer);
+      toast({
+        title: 'Move Failed',
+        description: result.message || `Failed to move ${customer.first_name} ${customer.last_name}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {stages.map(stage => {
+        const columnCustomers = customers
+          .filter(c => c.status === stage.key)
+          .sort((a, b) => stageAge(b) - stageAge(a));
+        const averageAge = columnCustomers.length
+          ? Math.round(columnCustomers.reduce((sum, c) => sum + stageAge(c), 0) / columnCustomers.length)
+          : 0;
+
+        return (
+          <div
+            key={stage.key}
+            className={`flex w-72 shrink-0 flex-col rounded-lg border bg-muted/30 transition-colors ${
+              dropTarget === stage.key ? 'border-primary bg-primary/5' : ''
+            }`}
+            onDragOver={e => {
+              e.preventDefault();
+              setDropTarget(stage.key);
+            }}
+            onDragLeave={() => setDropTarget(prev => (prev === stage.key ? null : prev))}
+            onDrop={e => {
+              e.preventDefault();
+              handleDrop(stage.key);
+            }}
+          >
+            <div className="border-b p-3" style={{ borderTop: `3px solid ${stage.color}` }}>
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{stage.name}</span>
+                <Badge variant="secondary">{columnCustomers.length}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {columnCustomers.length ? `Avg. ${averageAge}d in stage` : 'No customers'}
+              </p>
+            </div>
+
+            <div className="flex min-h-[120px] flex-col gap-2 p-2">
+              {columnCustomers.map(customer => {
+                const workflow = workflowsByCustomer.get(customer.id);
+                const age = stageAge(customer);
+
+                return (
+                  <div
+                    key={customer.id}
+                    draggable
+                    onDragStart={e => {
+                      // Firefox only starts a drag that carries data
+                      e.dataTransfer.setData('text/plain', customer.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                      setDraggedId(customer.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedId(null);
+                      setDropTarget(null);
+                    }}
+                    className={`cursor-grab rounded-md border bg-card p-3 text-sm shadow-sm active:cursor-grabbing ${
+                      draggedId === customer.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <Link to={`/customers/${customer.id}`} className="block font-medium hover:underline">
+                      {customer.first_name} {customer.last_name}
+                    </Link>
+                    <div className="truncate text-xs text-muted-foreground">{customer.email}</div>
+                    <div className="mt-2 flex items-center justify-between gap-2">
+                      {workflow ? (
+                        <Badge className={workflowColors[workflow.status] || 'bg-gray-500'}>
+                          {workflow.status}
+                        </Badge>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">Not started</span>
+                      )}
+                      <span
+                        className={`flex items-center gap-1 text-xs ${age >= 14 ? 'text-red-600' : 'text-muted-foreground'}`}
+                        title="Days in this stage"
+                      >
+                        <Clock className="h-3 w-3" />
+                        {age}d
+                      </span>
+                    </div>
+                    {workflow?.current_step && (
+                      <div className="mt-1 truncate text-xs text-muted-foreground">
+                        {workflow.current_step} · {formatDistanceToNow(new Date(workflow.last_updated), { addSuffix: true })}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,36 +1,286 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   createColumnHelper,
   flexRender,
+  functionalUpdate,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
   useReactTable,
+  ColumnOrderState,
+  PaginationState,
   SortingState,
-  ColumnFiltersState,
+  RowSelectionState,
+  Updater,
+  VisibilityState,
 } from '@tanstack/react-table';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Customer } from '@/types/customer';
-import { processClient } from '@/services/salesApi';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Customer, CustomerQuery, CustomerSortField } from '@/types/customer';
+import { processClient, toProcessClientRequest } from '@/services/salesApi';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Send } from 'lucide-react';
+import {
+  ArrowRightLeft,
+  CalendarDays,
+  CheckSquare,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  Mail,
+  MoreHorizontal,
+  Phone,
+  Send,
+  StickyNote,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { format as formatDate, parseISO } from 'date-fns';
 import { Workflow } from '@/services/workflowService';
+import { exportCustomers } from '@/services/exportService';
+import { ExportMenu } from './ExportMenu';
+import { CustomerDealDialog } from './CustomerDealDialog';
+import { LogActivityDialog } from './LogActivityDialog';
+import { EditableCell } from './EditableCell';
+import { ReassignCustomersDialog } from './ReassignCustomersDialog';
+import { BulkProcessDialog } from './BulkProcessDialog';
+import {
+  bulkDeleteCustomers,
+  bulkUpdateCustomerStatus,
+  CustomerChanges,
+  deleteCustomer,
+  getCustomersMatching,
+  updateCustomer,
+  validateCustomerChanges,
+} from '@/services/customerService';
+import { customerKeys, setCachedCustomer, useCustomersPage } from '@/hooks/use-customers';
+import { getFilterValue, useTableViewState } from '@/hooks/use-table-view-state';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { ColumnsMenu } from './ColumnsMenu';
+import { CustomerFilterBuilder, FilterChoice } from './CustomerFilterBuilder';
+import { NO_VALUE, getCustomerFilterFields } from '@/lib/customerFilters';
+import {
+  formatCustomFieldValue,
+  parseCustomFieldValue,
+  toCustomFieldInput,
+  withCustomFieldValue,
+} from '@/lib/customFields';
+import { CustomField } from '@/types/customField';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { useAccounts } from '@/hooks/use-accounts';
+import { getAssignableSalesReps } from '@/services/salesRepService';
+import { useAuth } from '@/contexts/AuthContext';
+import { ActivityType } from '@/services/activityService';
+import { formatMoney } from '@/services/forecastService';
+import { usePipeline } from '@/contexts/PipelineContext';
+
+const ACTIVITY_ACTIONS: { type: ActivityType; label: string; icon: React.ElementType }[] = [
+  { type: 'call', label: 'Log call', icon: Phone },
+  { type: 'email', label: 'Log email', icon: Mail },
+  { type: 'meeting', label: 'Log meeting', icon: CalendarDays },
+  { type: 'note', label: 'Add note', icon: StickyNote },
+  { type: 'task', label: 'Add task', icon: CheckSquare },
+];
+
+const PAGE_SIZES = [25, 50, 100];
+const SEARCH_DEBOUNCE_MS = 300;
+const NO_SORTING: SortingState = [];
+const NO_COLUMN_ORDER: ColumnOrderState = [];
+const ALL_COLUMNS_VISIBLE: VisibilityState = {};
+
+const WORKFLOW_CHOICES: FilterChoice[] = [
+  { value: NO_VALUE, label: 'Not started' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'active', label: 'Active' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'failed', label: 'Failed' },
+];
+
+// Select cells need a non-empty value for clearing a custom field
+const CLEAR_VALUE = '__clear__';
+
+const BOOLEAN_OPTIONS = [
+  { value: CLEAR_VALUE, label: '-' },
+  { value: 'true', label: 'Yes' },
+  { value: 'false', label: 'No' },
+];
+
+const COLUMN_LABELS: Record<string, string> = {
+  first_name: 'First Name',
+  last_name: 'Last Name',
+  email: 'Email',
+  phone_no: 'Phone',
+  source: 'Source',
+  account_id: 'Account',
+  status: 'Status',
+  deal_amount: 'Deal',
+  workflow: 'Workflow',
+  notes: 'Notes',
+};
 
 interface CustomerTableProps {
-  data: Customer[];
-  loading?: boolean;
-  onDataChange?: () => void;
   workflows?: Workflow[];
+  onActivityLogged?: () => void;
 }
 
-export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: CustomerTableProps) => {
+// Customers are searched, sorted and paged on the server; only the current page
+// is loaded. Search, filters, sort and layout are kept in the URL.
+export const CustomerTable = ({
+  workflows = [],
+  onActivityLogged,
+}: CustomerTableProps) => {
   const { toast } = useToast();
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [globalFilter, setGlobalFilter] = useState('');
+  const { user } = useAuth();
+  const { stages, getStage } = usePipeline();
+  const queryClient = useQueryClient();
+  const [view, setView] = useTableViewState('customers');
+  const [search, setSearch] = useState(view.search ?? '');
+  const [pageIndex, setPageIndex] = useState(0);
+  const sorting = view.sorting ?? NO_SORTING;
+  const statusFilter = getFilterValue(view, 'status');
+  const pageSize = view.pageSize ?? PAGE_SIZES[0];
+  const pagination = useMemo<PaginationState>(() => ({ pageIndex, pageSize }), [pageIndex, pageSize]);
   const [processingCustomers, setProcessingCustomers] = useState<Set<string>>(new Set());
+  const [dealCustomer, setDealCustomer] = useState<Customer | null>(null);
+  const [activityTarget, setActivityTarget] = useState<{ customer: Customer; type: ActivityType } | null>(null);
+  const [savingCustomers, setSavingCustomers] = useState<Set<string>>(new Set());
+  const [deleteTargets, setDeleteTargets] = useState<Customer[]>([]);
+  const [deleting, setDeleting] = useState(false);
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({});
+  // Bulk actions apply to every customer matching the filters, not only this page
+  const [allMatching, setAllMatching] = useState(false);
+  const [resolvingSelection, setResolvingSelection] = useState(false);
+  const [bulkTargets, setBulkTargets] = useState<Customer[]>([]);
+  const [bulkDialog, setBulkDialog] = useState<'reassign' | 'process' | null>(null);
+  const [updatingStatus, setUpdatingStatus] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setView(prev => ({ ...prev, search })), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search, setView]);
+
+  // A saved view or a shared link can change the search from outside the input
+  useEffect(() => {
+    setSearch(prev => (prev.trim() === (view.search ?? '').trim() ? prev : view.search ?? ''));
+  }, [view.search]);
+
+  const { data: customFields = [] } = useCustomFields();
+  const { data: accounts = [] } = useAccounts();
+  const filterFields = useMemo(() => getCustomerFilterFields(customFields), [customFields]);
+  const columnLabels = useMemo(
+    () => ({
+      ...COLUMN_LABELS,
+      ...Object.fromEntries(customFields.map(field => [`custom_fields.${field.key}`, field.label])),
+    }),
+    [customFields]
+  );
+
+  const { data: assignableReps = [] } = useQuery({
+    queryKey: ['assignable_sales_reps'],
+    queryFn: getAssignableSalesReps,
+  });
+
+  const filterChoices = useMemo<Record<string, FilterChoice[]>>(
+    () => ({
+      status: [
+        ...stages.map(stage => ({ value: stage.key, label: stage.name })),
+        { value: NO_VALUE, label: 'No stage' },
+      ],
+      workflow_status: WORKFLOW_CHOICES,
+      sales_rep_user_id: assignableReps.map(rep => ({
+        value: rep.user_id,
+        label: rep.user_id === user?.id ? 'Me' : `${rep.first_name} ${rep.last_name}`,
+      })),
+      account_id: [
+        ...accounts.map(account => ({ value: account.id, label: account.name })),
+        { value: NO_VALUE, label: 'No account' },
+      ],
+    }),
+    [stages, assignableReps, user, accounts]
+  );
+
+  // The same query feeds the page, the export and bulk actions on all matches
+  const listQuery = useMemo<CustomerQuery>(
+    () => ({
+      search: view.search,
+      status: statusFilter,
+      filter: view.advancedFilter,
+      sortBy: sorting[0]?.id as CustomerSortField | undefined,
+      sortDesc: sorting[0]?.desc,
+    }),
+    [view.search, statusFilter, view.advancedFilter, sorting]
+  );
+
+  const clearSelection = () => {
+    setRowSelection({});
+    setAllMatching(false);
+  };
+
+  // A new search, filter or sort starts again from the first page with nothing selected
+  useEffect(() => {
+    setPageIndex(0);
+    setRowSelection({});
+    setAllMatching(false);
+  }, [listQuery]);
+
+  const { data: page, isPending, isFetching } = useCustomersPage({
+    ...listQuery,
+    page: pagination.pageIndex,
+    pageSize: pagination.pageSize,
+  });
+  const data = useMemo(() => page?.customers ?? [], [page]);
+  const total = page?.total ?? 0;
+  const lastPageIndex = Math.max(0, Math.ceil(total / pagination.pageSize) - 1);
+
+  // A selection of rows is kept to the page it was made on
+  useEffect(() => {
+    setRowSelection({});
+    setAllMatching(false);
+  }, [pagination.pageIndex, pagination.pageSize]);
+
+  // Deleting the last rows of the final page would otherwise leave an empty page
+  useEffect(() => {
+    if (page && pageIndex > lastPageIndex) setPageIndex(lastPageIndex);
+  }, [page, pageIndex, lastPageIndex]);
+
+  const handleSortingChange = (updater: Updater<SortingState>) =>
+    setView(prev => ({ ...prev, sorting: functionalUpdate(updater, prev.sorting ?? []) }));
+
+  const handlePaginationChange = (updater: Updater<PaginationState>) => {
+    const next = functionalUpdate(updater, pagination);
+    setPageIndex(next.pageIndex);
+    if (next.pageSize !== pageSize) setView(prev => ({ ...prev, pageSize: next.pageSize }));
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: customerKeys.all });
+  const updateCached = (customer: Customer) => setCachedCustomer(queryClient, customer);
 
   const columnHelper = createColumnHelper<Customer>();
 
@@ -38,20 +288,14 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
     setProcessingCustomers(prev => new Set(prev).add(customer.id));
     
     try {
-      const result = await processClient({
-        firstName: customer.first_name,
-        lastName: customer.last_name,
-        email: customer.email,
-        phoneNo: customer.phone_no,
-        notes: customer.notes || '',
-      });
+      const result = await processClient(toProcessClientRequest(customer));
       
       if (result.success) {
         toast({
           title: 'Success',
           description: `Customer ${customer.first_name} ${customer.last_name} has been processed successfully.`,
         });
-        onDataChange?.();
+        refresh();
       } else {
         toast({
           title: 'Processing Failed',
@@ -74,8 +318,137 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
     }
   };
 
+  // Only the owning rep can edit, and one save per customer at a time so each
+  // edit is checked against the updated_at the previous one returned
+  const canEdit = (customer: Customer) =>
+    customer.sales_rep_user_id === user?.id && !savingCustomers.has(customer.id);
+
+  const handleSaveField = async (customer: Customer, changes: CustomerChanges) => {
+    const { error } = validateCustomerChanges(changes);
+    if (error) {
+      toast({ title: 'Invalid Value', description: error, variant: 'destructive' });
+      return;
+    }
+
+    setSavingCustomers(prev => new Set(prev).add(customer.id));
+    // Show the edit right away and put the row back if the save fails
+    updateCached({ ...customer, ...changes });
+
+    const result = await updateCustomer(customer, changes);
+
+    setSavingCustomers(prev => {
+      const newSet = new Set(prev);
+      newSet.delete(customer.id);
+      return newSet;
+    });
+
+    if (result.success && result.customer) {
+      updateCached(result.customer);
+      if (changes.status !== undefined) queryClient.invalidateQueries({ queryKey: customerKeys.summary });
+      return;
+    }
+
+    updateCached(result.customer ?? customer);
+    toast({
+      title: result.conflict ? 'Edit Conflict' : 'Save Failed',
+      description: result.message || `Failed to update ${customer.first_name} ${customer.last_name}`,
+      variant: 'destructive',
+    });
+    if (result.conflict && !result.customer) refresh();
+  };
+
+  const handleSaveCustomField = (customer: Customer, field: CustomField, raw: string) => {
+    const { value, error } = parseCustomFieldValue(field, raw === CLEAR_VALUE ? '' : raw);
+    if (error) {
+      toast({ title: 'Invalid Value', description: error, variant: 'destructive' });
+      return;
+    }
+    handleSaveField(customer, { custom_fields: withCustomFieldValue(customer.custom_fields, field.key, value) });
+  };
+
+  const handleDelete = async () => {
+    if (deleteTargets.length === 0) return;
+
+    setDeleting(true);
+    const result: { success: boolean; message?: string; deleted?: number } = deleteTargets.length === 1
+      ? await deleteCustomer(deleteTargets[0])
+      : await bulkDeleteCustomers(deleteTargets);
+    setDeleting(false);
+
+    const deleted = result.deleted ?? (result.success ? deleteTargets.length : 0);
+
+    if (result.success) {
+      toast({
+        title: 'Success',
+        description: deleteTargets.length === 1
+          ? `${deleteTargets[0].first_name} ${deleteTargets[0].last_name} was deleted`
+          : `${deleted} customer${deleted === 1 ? '' : 's'} deleted`,
+      });
+    } else {
+      // Batches deleted before the failure stay deleted
+      const message = result.message || 'Failed to delete customer';
+      toast({
+        title: 'Error',
+        description: deleted > 0 ? `${deleted} of ${deleteTargets.length} customers deleted. ${message}` : message,
+        variant: 'destructive',
+      });
+      if (deleted === 0) return;
+    }
+
+    setDeleteTargets([]);
+    clearSelection();
+    refresh();
+  };
+
+  const handleBulkStatus = async (customers: Customer[], status: string) => {
+    setUpdatingStatus(true);
+    const result = await bulkUpdateCustomerStatus(customers, status);
+    setUpdatingStatus(false);
+
+    // Batches committed before a failure are returned too
+    const moved = result.customers || [];
+    moved.forEach(updateCached);
+    if (moved.length > 0) {
+      queryClient.invalidateQueries({ queryKey: customerKeys.summary });
+    }
+
+    const stageName = getStage(status)?.name || status;
+    if (result.success) {
+      toast({
+        title: 'Success',
+        description: `${moved.length} customer${moved.length === 1 ? '' : 's'} moved to ${stageName}`,
+      });
+    } else {
+      const message = result.message || 'Failed to update customer statuses';
+      toast({
+        title: 'Error',
+        description: moved.length > 0 ? `${moved.length} of ${customers.length} customers moved to ${stageName}. ${message}` : message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const stageOptions = stages.map(stage => ({ value: stage.key, label: stage.name }));
+
   const columns = useMemo(
     () => [
+      columnHelper.display({
+        id: 'select',
+        header: ({ table }) => (
+          <Checkbox
+            checked={table.getIsAllPageRowsSelected() ? true : table.getIsSomePageRowsSelected() ? 'indeterminate' : false}
+            onCheckedChange={value => table.toggleAllPageRowsSelected(!!value)}
+            aria-label="Select all"
+          />
+        ),
+        cell: ({ row }) => (
+          <Checkbox
+            checked={row.getIsSelected()}
+            onCheckedChange={value => row.toggleSelected(!!value)}
+            aria-label="Select row"
+          />
+        ),
+      }),
       columnHelper.accessor('first_name', {
         header: ({ column }) => (
           <Button
@@ -85,7 +458,17 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
             First Name
           </Button>
         ),
-        cell: info => info.getValue(),
+        cell: info => (
+          <EditableCell
+            value={info.getValue()}
+            disabled={!canEdit(info.row.original)}
+            onSave={value => handleSaveField(info.row.original, { first_name: value })}
+          >
+            <Link to={`/customers/${info.row.original.id}`} className="font-medium hover:underline">
+              {info.getValue()}
+            </Link>
+          </EditableCell>
+        ),
       }),
       columnHelper.accessor('last_name', {
         header: ({ column }) => (
@@ -96,7 +479,17 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
             Last Name
           </Button>
         ),
-        cell: info => info.getValue(),
+        cell: info => (
+          <EditableCell
+            value={info.getValue()}
+            disabled={!canEdit(info.row.original)}
+            onSave={value => handleSaveField(info.row.original, { last_name: value })}
+          >
+            <Link to={`/customers/${info.row.original.id}`} className="font-medium hover:underline">
+              {info.getValue()}
+            </Link>
+          </EditableCell>
+        ),
       }),
       columnHelper.accessor('email', {
         header: ({ column }) => (
@@ -118,31 +511,112 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
             Phone
           </Button>
         ),
-        cell: info => info.getValue(),
+        cell: info => (
+          <EditableCell
+            value={info.getValue()}
+            disabled={!canEdit(info.row.original)}
+            onSave={value => handleSaveField(info.row.original, { phone_no: value })}
+          />
+        ),
       }),
       columnHelper.accessor('source', {
         header: 'Source',
-        cell: info => info.getValue(),
+        cell: info => (
+          <EditableCell
+            value={info.getValue()}
+            disabled={!canEdit(info.row.original)}
+            onSave={value => handleSaveField(info.row.original, { source: value })}
+          />
+        ),
+      }),
+      columnHelper.accessor('account_id', {
+        header: 'Account',
+        cell: info => {
+          const account = accounts.find(a => a.id === info.getValue());
+
+          return (
+            <EditableCell
+              type="select"
+              value={info.getValue() || CLEAR_VALUE}
+              options={[
+                { value: CLEAR_VALUE, label: '-' },
+                ...accounts.map(option => ({ value: option.id, label: option.name })),
+              ]}
+              disabled={!canEdit(info.row.original)}
+              onSave={value =>
+                handleSaveField(info.row.original, { account_id: value === CLEAR_VALUE ? null : value })
+              }
+            >
+              {account ? (
+                <Link to={`/accounts/${account.id}`} className="hover:underline">
+                  {account.name}
+                </Link>
+              ) : (
+                '-'
+              )}
+            </EditableCell>
+          );
+        },
       }),
       columnHelper.accessor('status', {
         header: 'Status',
         cell: info => {
-          const status = info.getValue() || 'pending';
-          const variant = 
-            status === 'active' ? 'default' :
-            status === 'won' ? 'default' :
-            status === 'lost' ? 'destructive' :
-            'secondary';
-          
+          const status = info.getValue();
+          const stage = getStage(status);
+
+          return (
+            <EditableCell
+              type="select"
+              value={status || ''}
+              options={stageOptions}
+              disabled={!canEdit(info.row.original)}
+              onSave={value => handleSaveField(info.row.original, { status: value })}
+            >
+              {stage ? (
+                <Badge style={{ backgroundColor: stage.color }} className="text-white">
+                  {stage.name}
+                </Badge>
+              ) : (
+                <Badge variant="secondary">{status || '-'}</Badge>
+              )}
+            </EditableCell>
+          );
+        },
+      }),
+      columnHelper.accessor('deal_amount', {
+        header: ({ column }) => (
+          <Button
+            variant="ghost"
+            onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          >
+            Deal
+          </Button>
+        ),
+        cell: info => {
+          const customer = info.row.original;
+          const amount = info.getValue();
+
           return (
-            <Badge variant={variant} className={
-              status === 'active' ? 'bg-green-600' :
-              status === 'won' ? 'bg-blue-600' :
-              status === 'lost' ? 'bg-red-600' :
-              ''
-            }>
-              {status}
-            </Badge>
+            <button
+              type="button"
+              className="text-left hover:underline"
+              onClick={() => setDealCustomer(customer)}
+            >
+              {amount === null || amount === undefined ? (
+                <span className="text-muted-foreground text-sm">Add deal</span>
+              ) : (
+                <>
+                  <div className="font-medium">{formatMoney(amount, customer.deal_currency || 'USD')}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {customer.deal_probability !== null && customer.deal_probability !== undefined
+                      ? `${customer.deal_probability}%`
+                      : 'No probability'}
+                    {customer.expected_close_date &&
+                      ` · ${formatDate(parseISO(customer.expected_close_date), 'MMM d, yyyy')}`}
+                  </div>
+                </>
+              )}
+            </button>
           );
         },
       }),
@@ -180,8 +654,43 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
       }),
       columnHelper.accessor('notes', {
         header: 'Notes',
-        cell: info => info.getValue() || '-',
+        cell: info => (
+          <EditableCell
+            type="textarea"
+            value={info.getValue() || ''}
+            disabled={!canEdit(info.row.original)}
+            onSave={value => handleSaveField(info.row.original, { notes: value })}
+          />
+        ),
       }),
+      ...customFields.map(field =>
+        columnHelper.display({
+          id: `custom_fields.${field.key}`,
+          header: field.label,
+          cell: ({ row }) => {
+            const customer = row.original;
+            const value = customer.custom_fields?.[field.key];
+            const isChoice = field.field_type === 'select' || field.field_type === 'boolean';
+
+            return (
+              <EditableCell
+                type={isChoice ? 'select' : 'text'}
+                inputType={field.field_type === 'number' ? 'number' : field.field_type === 'date' ? 'date' : 'text'}
+                value={toCustomFieldInput(field, value) || (isChoice ? CLEAR_VALUE : '')}
+                options={
+                  field.field_type === 'boolean'
+                    ? BOOLEAN_OPTIONS
+                    : [{ value: CLEAR_VALUE, label: '-' }, ...field.options.map(option => ({ value: option, label: option }))]
+                }
+                disabled={!canEdit(customer)}
+                onSave={next => handleSaveCustomField(customer, field, next)}
+              >
+                {formatCustomFieldValue(field, value) || '-'}
+              </EditableCell>
+            );
+          },
+        })
+      ),
       columnHelper.display({
         id: 'actions',
         header: 'Actions',
@@ -190,48 +699,119 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
           const isProcessing = processingCustomers.has(customer.id);
           
           return (
-            <Button
-              variant="default"
-              size="sm"
-              onClick={() => handleProcessCustomer(customer)}
-              disabled={isProcessing}
-            >
-              {isProcessing ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                  Processing...
-                </>
-              ) : (
-                <>
-                  <Send className="h-4 w-4 mr-2" />
-                  Process
-                </>
-              )}
-            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="default"
+                size="sm"
+                onClick={() => handleProcessCustomer(customer)}
+                disabled={isProcessing}
+              >
+                {isProcessing ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Processing...
+                  </>
+                ) : (
+                  <>
+                    <Send className="h-4 w-4 mr-2" />
+                    Process
+                  </>
+                )}
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" aria-label="More actions">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {ACTIVITY_ACTIONS.map(({ type, label, icon: Icon }) => (
+                    <DropdownMenuItem key={type} onSelect={() => setActivityTarget({ customer, type })}>
+                      <Icon className="h-4 w-4 mr-2" />
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                  {customer.sales_rep_user_id === user?.id && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem className="text-destructive" onSelect={() => setDeleteTargets([customer])}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
           );
         },
       }),
     ],
-    [columnHelper, processingCustomers, workflows, toast]
+    [columnHelper, processingCustomers, savingCustomers, workflows, toast, getStage, stages, user, customFields, accounts]
   );
 
   const table = useReactTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
-    onGlobalFilterChange: setGlobalFilter,
+    manualSorting: true,
+    manualPagination: true,
+    pageCount: lastPageIndex + 1,
+    onSortingChange: handleSortingChange,
+    onPaginationChange: handlePaginationChange,
+    onColumnVisibilityChange: updater =>
+      setView(prev => ({ ...prev, columnVisibility: functionalUpdate(updater, prev.columnVisibility ?? {}) })),
+    onColumnOrderChange: updater =>
+      setView(prev => ({ ...prev, columnOrder: functionalUpdate(updater, prev.columnOrder ?? []) })),
+    onRowSelectionChange: updater => {
+      setAllMatching(false);
+      setRowSelection(updater);
+    },
+    getRowId: row => row.id,
     state: {
       sorting,
-      columnFilters,
-      globalFilter,
+      pagination,
+      rowSelection,
+      columnVisibility: view.columnVisibility ?? ALL_COLUMNS_VISIBLE,
+      columnOrder: view.columnOrder ?? NO_COLUMN_ORDER,
     },
   });
 
-  if (loading) {
+  const selectedCustomers = table.getSelectedRowModel().rows.map(row => row.original);
+  const selectionCount = allMatching ? total : selectedCustomers.length;
+  const canSelectAllMatching = !allMatching && table.getIsAllPageRowsSelected() && total > data.length;
+
+  // Loads every match with the filters of the table, as the export does
+  const withBulkTargets = async (action: (customers: Customer[]) => void | Promise<void>) => {
+    if (!allMatching) return action(selectedCustomers);
+
+    setResolvingSelection(true);
+    let customers: Customer[];
+    try {
+      customers = await getCustomersMatching(listQuery, customFields);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load customers',
+        variant: 'destructive',
+      });
+      return;
+    } finally {
+      setResolvingSelection(false);
+    }
+    await action(customers);
+  };
+
+  const openBulkDialog = (dialog: 'reassign' | 'process') =>
+    withBulkTargets(customers => {
+      setBulkTargets(customers);
+      setBulkDialog(dialog);
+    });
+
+  const firstRow = total === 0 ? 0 : pagination.pageIndex * pagination.pageSize + 1;
+  const lastRow = Math.min(total, (pagination.pageIndex + 1) * pagination.pageSize);
+
+  if (isPending) {
     return (
       <div className="flex items-center justify-center p-8">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -244,13 +824,94 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <Input
-          placeholder="Search customers..."
-          value={globalFilter ?? ''}
-          onChange={event => setGlobalFilter(String(event.target.value))}
+          placeholder="Search name, email, phone or notes..."
+          value={search}
+          onChange={event => setSearch(event.target.value)}
           className="max-w-sm"
         />
+        <div className="flex items-center gap-2">
+          <CustomerFilterBuilder
+            value={view.advancedFilter}
+            onChange={advancedFilter => setView(prev => ({ ...prev, advancedFilter }))}
+            fields={filterFields}
+            choices={filterChoices}
+          />
+          <SavedViewsMenu table="customers" state={view} onApply={setView} />
+          <ColumnsMenu table={table} labels={columnLabels} />
+          {/* Exports every match of the current search, filter and sort order, not just this page */}
+          <ExportMenu
+            onExport={async format =>
+              exportCustomers(await getCustomersMatching(listQuery, customFields), format, workflows, customFields)
+            }
+            disabled={total === 0}
+          />
+        </div>
       </div>
 
+      {/* Bulk actions on the selected rows, or on every match */}
+      {selectionCount > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-2">
+          <span className="px-2 text-sm font-medium">
+            {allMatching ? `All ${total} matching customers selected` : `${selectionCount} selected`}
+          </span>
+          {canSelectAllMatching && (
+            <Button variant="link" size="sm" onClick={() => setAllMatching(true)}>
+              Select all {total} matching customers
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={updatingStatus || resolvingSelection}>
+                {(updatingStatus || resolvingSelection) && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Change Stage
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuLabel>Move to</DropdownMenuLabel>
+              {stages.map(stage => (
+                <DropdownMenuItem
+                  key={stage.key}
+                  onSelect={() => withBulkTargets(customers => handleBulkStatus(customers, stage.key))}
+                >
+                  <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: stage.color }} />
+                  {stage.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" size="sm" disabled={resolvingSelection} onClick={() => openBulkDialog('reassign')}>
+            <ArrowRightLeft className="h-4 w-4 mr-2" />
+            Reassign
+          </Button>
+          <Button variant="outline" size="sm" disabled={resolvingSelection} onClick={() => openBulkDialog('process')}>
+            <Send className="h-4 w-4 mr-2" />
+            Process
+          </Button>
+          <ExportMenu
+            label="Export Selected"
+            onExport={format =>
+              withBulkTargets(customers => exportCustomers(customers, format, workflows, customFields))
+            }
+            disabled={resolvingSelection}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-destructive"
+            disabled={resolvingSelection}
+            onClick={() => withBulkTargets(setDeleteTargets)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={clearSelection}>
+            <X className="h-4 w-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      )}
+
       <div className="rounded-md border">
         <table className="w-full">
           <thead>
@@ -295,6 +956,102 @@ export const CustomerTable = ({ data, loading, onDataChange, workflows = [] }: C
           </tbody>
         </table>
       </div>
+
+      <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+        <div className="flex items-center gap-2">
+          {isFetching && <Loader2 className="h-4 w-4 animate-spin" />}
+          {total === 0 ? 'No customers' : `${firstRow}-${lastRow} of ${total}`}
+        </div>
+        <div className="flex items-center gap-2">
+          <span>Rows per page</span>
+          <Select value={String(pagination.pageSize)} onValueChange={value => table.setPageSize(Number(value))}>
+            <SelectTrigger className="h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => table.previousPage()} disabled={!table.getCanPreviousPage()}>
+            <ChevronLeft className="h-4 w-4" />
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => table.nextPage()} disabled={!table.getCanNextPage()}>
+            Next
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <LogActivityDialog
+        customer={activityTarget?.customer ?? null}
+        type={activityTarget?.type ?? 'call'}
+        onOpenChange={open => !open && setActivityTarget(null)}
+        onLogged={() => {
+          toast({
+            title: 'Success',
+            description: activityTarget?.type === 'task' ? 'Task added' : 'Activity logged',
+          });
+          onActivityLogged?.();
+        }}
+      />
+
+      <AlertDialog open={deleteTargets.length > 0} onOpenChange={open => !open && !deleting && setDeleteTargets([])}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deleteTargets.length === 1 ? 'Delete customer?' : `Delete ${deleteTargets.length} customers?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTargets.length === 1
+                ? `${deleteTargets[0].first_name} ${deleteTargets[0].last_name} and their activities will be removed.`
+                : `The ${deleteTargets.length} selected customers and their activities will be removed.`}{' '}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={e => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={deleting}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleting ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <ReassignCustomersDialog
+        customers={bulkTargets}
+        open={bulkDialog === 'reassign'}
+        onOpenChange={open => !open && setBulkDialog(null)}
+        onReassigned={() => {
+          clearSelection();
+          refresh();
+        }}
+      />
+
+      <BulkProcessDialog
+        customers={bulkTargets}
+        open={bulkDialog === 'process'}
+        onOpenChange={open => !open && setBulkDialog(null)}
+        onFinished={refresh}
+      />
+
+      <CustomerDealDialog
+        customer={dealCustomer}
+        onOpenChange={open => !open && setDealCustomer(null)}
+        onSaved={customer => {
+          updateCached(customer);
+          queryClient.invalidateQueries({ queryKey: customerKeys.summary });
+        }}
+      />
     </div>
   );
 };
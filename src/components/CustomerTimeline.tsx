@@ -0,0 +1,132 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, ArrowRightLeft, CalendarDays, CheckSquare, FileClock, Mail, Phone, StickyNote } from 'lucide-react';
+import { format } from 'date-fns';
+import { Activity, ACTIVITY_TYPE_LABELS } from '@/services/activityService';
+import { AuditLog } from '@/services/auditService';
+import { CustomerOwnershipChange, CustomerStatusChange } from '@/services/customerService';
+import { usePipeline } from '@/contexts/PipelineContext';
+
+interface CustomerTimelineProps {
+  activities: Activity[];
+  statusHistory: CustomerStatusChange[];
+  auditLogs: AuditLog[];
+  ownershipHistory?: CustomerOwnershipChange[];
+}
+
+interface TimelineItem {
+  id: string;
+  at: string;
+  icon: React.ReactNode;
+  title: React.ReactNode;
+  detail?: React.ReactNode;
+}
+
+const activityIcons = {
+  call: <Phone className="h-4 w-4" />,
+  email: <Mail className="h-4 w-4" />,
+  meeting: <CalendarDays className="h-4 w-4" />,
+  note: <StickyNote className="h-4 w-4" />,
+  task: <CheckSquare className="h-4 w-4" />,
+};
+
+const activityStatus = (activity: Activity): string | null => {
+  if (activity.type === 'task') {
+    const due = activity.due_at ? `Due ${format(new Date(activity.due_at), 'PPp')}` : 'No due date';
+    return activity.completed_at
+      ? `${due} · Completed ${format(new Date(activity.completed_at), 'PP')}${activity.outcome ? ` (${activity.outcome})` : ''}`
+      : `${due} · ${activity.overdue_at ? 'Overdue' : 'Open'}`;
+  }
+  return activity.outcome ? `Outcome: ${activity.outcome}` : null;
+};
+
+// Status and owner changes are already shown from their own history
+const HIDDEN_AUDIT_ACTIONS = ['update_customer_status', 'reassign_customer'];
+
+const describeChanges = (log: AuditLog): string | null => {
+  if (!log.new_data || typeof log.new_data !== 'object') return null;
+  return Object.entries(log.new_data as Record<string, unknown>)
+    .map(([field, value]) => {
+      const previous = log.old_data && typeof log.old_data === 'object' ? (log.old_data as Record<string, unknown>)[field] : undefined;
+      const show = (v: unknown) => (v === null || v === undefined || v === '' ? '-' : String(v));
+      return previous !== undefined ? `${field}: ${show(previous)} → ${show(value)}` : `${field}: ${show(value)}`;
+    })
+    .join(', ');
+};
+
+export const CustomerTimeline = ({ activities, statusHistory, auditLogs, ownershipHistory = [] }: CustomerTimelineProps) => {
+  const { getStage } = usePipeline();
+
+  const stageBadge = (status: string | null) => {
+    const stage = getStage(status);
+    return stage ? (
+      <Badge style={{ backgroundColor: stage.color }} className="text-white">{stage.name}</Badge>
+    ) : (
+      <Badge variant="secondary">{status || 'none'}</Badge>
+    );
+  };
+
+  const items: TimelineItem[] = [
+    ...activities.map(activity => ({
+      id: `activity-${activity.id}`,
+      at: activity.occurred_at,
+      icon: activityIcons[activity.type],
+      title: (
+        <>
+          <span className="font-medium">{ACTIVITY_TYPE_LABELS[activity.type]}:</span> {activity.subject}
+        </>
+      ),
+      detail: [activityStatus(activity), activity.body].filter(Boolean).join('\n'),
+    })),
+    ...statusHistory.map(change => ({
+      id: `status-${change.id}`,
+      at: change.changed_at,
+      icon: <ArrowRight className="h-4 w-4" />,
+      title: change.from_status ? (
+        <span className="flex items-center gap-2">
+          Moved from {stageBadge(change.from_status)} to {stageBadge(change.to_status)}
+        </span>
+      ) : (
+        <span className="flex items-center gap-2">Entered the pipeline in {stageBadge(change.to_status)}</span>
+      ),
+    })),
+    ...ownershipHistory.map(change => ({
+      id: `owner-${change.id}`,
+      at: change.changed_at,
+      icon: <ArrowRightLeft className="h-4 w-4" />,
+      title: change.from_user_id
+        ? <>Reassigned from {change.from_rep_name || 'a former sales rep'} to {change.to_rep_name || 'another sales rep'}</>
+        : <>Assigned to {change.to_rep_name || 'a sales rep'}</>,
+    })),
+    ...auditLogs
+      .filter(log => !HIDDEN_AUDIT_ACTIONS.includes(log.action))
+      .map(log => ({
+        id: `audit-${log.id}`,
+        at: log.created_at,
+        icon: <FileClock className="h-4 w-4" />,
+        title: <span className="capitalize">{log.action.replace(/_/g, ' ')}</span>,
+        detail: describeChanges(log),
+      })),
+  ].sort((a, b) => b.at.localeCompare(a.at));
+
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No activity yet</p>;
+  }
+
+  return (
+    <ol className="relative space-y-6 border-l pl-6">
+      {items.map(item => (
+        <li key={item.id} className="relative">
+          <span className="absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full border bg-background text-muted-foreground">
+            {item.icon}
+          </span>
+          <div className="text-sm">{item.title}</div>
+          {item.detail && (
+            <p className="mt-1 whitespace-pre-wrap text-sm text-muted-foreground">{item.detail}</p>
+          )}
+          <p className="mt-1 text-xs text-muted-foreground">{format(new Date(item.at), 'PPp')}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
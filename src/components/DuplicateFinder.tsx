@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Merge } from 'lucide-react';
+import { Customer } from '@/types/customer';
+import { SalesRep } from '@/types/salesRep';
+import { findDuplicateGroups, DuplicateGroup, DuplicateReason } from '@/services/duplicateService';
+import { MergeCustomersDialog } from './MergeCustomersDialog';
+
+interface DuplicateFinderProps {
+  customers: Customer[];
+  salesReps: SalesRep[];
+  onMerged: () => void;
+}
+
+const reasonLabels: Record<DuplicateReason, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name',
+};
+
+export const DuplicateFinder = ({ customers, salesReps, onMerged }: DuplicateFinderProps) => {
+  const [selectedGroup, setSelectedGroup] = useState<DuplicateGroup | null>(null);
+  const groups = useMemo(() => findDuplicateGroups(customers), [customers]);
+
+  const repName = (customer: Customer) => {
+    const rep = salesReps.find(r => r.user_id === customer.sales_rep_user_id);
+    return rep ? `${rep.first_name} ${rep.last_name}` : 'Unknown rep';
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {groups.length === 0
+          ? 'No duplicate customers found.'
+          : `${groups.length} group(s) of possible duplicates across all sales reps.`}
+      </p>
+
+      {groups.length > 0 && (
+        <div className="rounded-md border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="h-12 px-4 text-left font-medium text-muted-foreground">Customers</th>
+                <th className="h-12 px-4 text-left font-medium text-muted-foreground">Matched On</th>
+                <th className="h-12 px-4 text-left font-medium text-muted-foreground">Confidence</th>
+                <th className="h-12 px-4 text-left font-medium text-muted-foreground">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(group => (
+                <tr key={group.id} className="border-b transition-colors hover:bg-muted/50 align-top">
+                  <td className="p-4 space-y-1">
+                    {group.customers.map(customer => (
+                      <div key={customer.id}>
+                        <span className="font-medium">{customer.first_name} {customer.last_name}</span>
+                        <span className="text-muted-foreground"> · {customer.email} · {customer.phone_no || '-'} · {repName(customer)}</span>
+                      </div>
+                    ))}
+                  </td>
+                  <td className="p-4">
+                    <div className="flex flex-wrap gap-1">
+                      {group.reasons.map(reason => (
+                        <Badge key={reason} variant="secondary">{reasonLabels[reason]}</Badge>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="p-4">
+                    <Badge className={group.confidence === 'high' ? 'bg-rose-500' : 'bg-orange-500'}>
+                      {group.confidence}
+                    </Badge>
+                  </td>
+                  <td className="p-4">
+                    <Button variant="outline" size="sm" onClick={() => setSelectedGroup(group)}>
+                      <Merge className="h-4 w-4 mr-1" />
+                      Review & merge
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <MergeCustomersDialog
+        group={selectedGroup}
+        salesReps={salesReps}
+        onOpenChange={open => !open && setSelectedGroup(null)}
+        onMerged={onMerged}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Pencil } from 'lucide-react';
+
+interface EditableCellProps {
+  value: string;
+  onSave: (value: string) => void;
+  children?: React.ReactNode; // display when not editing; defaults to the value
+  type?: 'text' | 'textarea' | 'select';
+  inputType?: 'text' | 'number' | 'date'; // text only
+  options?: { value: string; label: string }[]; // select only
+  disabled?: boolean;
+}
+
+// Click the pencil to edit. Enter or leaving the field saves, Escape cancels.
+// Textareas save on Ctrl/Cmd+Enter so notes can span several lines.
+export const EditableCell = ({
+  value,
+  onSave,
+  children,
+  type = 'text',
+  inputType = 'text',
+  options = [],
+  disabled,
+}: EditableCellProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (editing) inputRef.current?.focus();
+  }, [editing]);
+
+  const startEditing = () => {
+    setDraft(value);
+    setEditing(true);
+  };
+
+  const commit = (next: string) => {
+    setEditing(false);
+    if (next !== value) onSave(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      setEditing(false);
+    } else if (e.key === 'Enter' && (type !== 'textarea' || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      commit(draft);
+    }
+  };
+
+  if (editing && type === 'select') {
+    return (
+      <Select
+        defaultOpen
+        value={draft}
+        onValueChange={commit}
+        onOpenChange={open => !open && setEditing(false)}
+      >
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(option => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
+  if (editing) {
+    const Field = type === 'textarea' ? Textarea : Input;
+    return (
+      <Field
+        ref={inputRef}
+        type={type === 'textarea' ? undefined : inputType}
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={() => commit(draft)}
+        onKeyDown={handleKeyDown}
+        className={type === 'textarea' ? 'min-w-[200px]' : 'h-8 min-w-[120px]'}
+        rows={type === 'textarea' ? 3 : undefined}
+      />
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-1">
+      <span>{children ?? (value || '-')}</span>
+      {!disabled && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+          aria-label="Edit"
+          onClick={startEditing}
+        >
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Clock, Loader2 } from 'lucide-react';
+import { addDays, endOfDay, format, formatDistanceToNow, isBefore } from 'date-fns';
+import { completeTask, FollowUpTask, getFollowUpTasks, rescheduleTask } from '@/services/activityService';
+
+type Bucket = 'today' | 'overdue' | 'upcoming';
+
+interface FollowUpQueueProps {
+  refreshKey?: number;
+}
+
+const bucketOf = (task: FollowUpTask, now: Date): Bucket => {
+  if (!task.due_at) return 'upcoming';
+  const due = new Date(task.due_at);
+  if (isBefore(due, now)) return 'overdue';
+  return isBefore(due, endOfDay(now)) ? 'today' : 'upcoming';
+};
+
+// A day after the due date, or a day from now when the task is already overdue
+const snoozeUntil = (task: FollowUpTask): string => {
+  const due = task.due_at ? new Date(task.due_at) : new Date();
+  return addDays(isBefore(due, new Date()) ? new Date() : due, 1).toISOString();
+};
+
+const emptyMessages: Record<Bucket, string> = {
+  today: 'Nothing else due today',
+  overdue: 'No overdue follow-ups',
+  upcoming: 'No upcoming follow-ups. Add a task from a customer to schedule one.',
+};
+
+export const FollowUpQueue = ({ refreshKey = 0 }: FollowUpQueueProps) => {
+  const [tasks, setTasks] = useState<FollowUpTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [bucket, setBucket] = useState<Bucket | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadTasks = useCallback(async () => {
+    setTasks(await getFollowUpTasks());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTasks();
+  }, [loadTasks, refreshKey]);
+
+  const now = new Date();
+  const grouped: Record<Bucket, FollowUpTask[]> = { today: [], overdue: [], upcoming: [] };
+  tasks.forEach(task => grouped[bucketOf(task, now)].push(task));
+
+  // Open on overdue when there is a backlog, otherwise on today
+  const active: Bucket = bucket ?? (grouped.overdue.length > 0 ? 'overdue' : 'today');
+
+  const runAction = async (task: FollowUpTask, action: () => Promise<{ success: boolean; message?: string }>) => {
+    setBusyId(task.id);
+    const result = await action();
+    setBusyId(null);
+
+    if (result.success) {
+      loadTasks();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to update task',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={active} onValueChange={value => setBucket(value as Bucket)}>
+        <TabsList>
+          <TabsTrigger value="today">Today ({grouped.today.length})</TabsTrigger>
+          <TabsTrigger value="overdue" className={grouped.overdue.length ? 'text-red-600' : ''}>
+            Overdue ({grouped.overdue.length})
+          </TabsTrigger>
+          <TabsTrigger value="upcoming">Upcoming ({grouped.upcoming.length})</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {grouped[active].length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">{emptyMessages[active]}</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {grouped[active].map(task => (
+            <li key={task.id} className="flex items-center justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="truncate font-medium">{task.subject}</span>
+                  {active === 'overdue' && (
+                    <Badge variant="destructive">
+                      {formatDistanceToNow(new Date(task.due_at!))} late
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  <Link to={`/customers/${task.customer_id}`} className="hover:underline">
+                    {task.customer_name}
+                  </Link>
+                  {task.due_at && <> · Due {format(new Date(task.due_at), active === 'today' ? 'p' : 'PPp')}</>}
+                </div>
+              </div>
+              <div className="flex shrink-0 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId === task.id}
+                  title="Push the due date back a day"
+                  onClick={() => runAction(task, () => rescheduleTask(task.id, snoozeUntil(task)))}
+                >
+                  <Clock className="h-4 w-4 mr-1" />
+                  Snooze
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={busyId === task.id}
+                  onClick={() => runAction(task, () => completeTask(task.id))}
+                >
+                  {busyId === task.id ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Check className="h-4 w-4 mr-1" />
+                  )}
+                  Done
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
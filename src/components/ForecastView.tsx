@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Customer } from '@/types/customer';
+import { SalesRep } from '@/types/salesRep';
+import { usePipeline } from '@/contexts/PipelineContext';
+import {
+  buildForecastByMonth,
+  buildForecastByRep,
+  formatMoney,
+  getDealCurrencies,
+  getForecastTotals,
+  ForecastBucket,
+} from '@/services/forecastService';
+
+interface ForecastViewProps {
+  customers: Customer[];
+  salesReps: SalesRep[];
+}
+
+const chartConfig = {
+  weighted: { label: 'Weighted', color: 'hsl(var(--primary))' },
+  pipeline: { label: 'Pipeline', color: 'hsl(var(--muted-foreground))' },
+  won: { label: 'Won', color: '#2563eb' },
+} satisfies ChartConfig;
+
+const BucketTable = ({ title, buckets, currency }: { title: string; buckets: ForecastBucket[]; currency: string }) => (
+  <div className="rounded-md border">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b bg-muted/50">
+          <th className="h-12 px-4 text-left font-medium text-muted-foreground">{title}</th>
+          <th className="h-12 px-4 text-right font-medium text-muted-foreground">Deals</th>
+          <th className="h-12 px-4 text-right font-medium text-muted-foreground">Pipeline</th>
+          <th className="h-12 px-4 text-right font-medium text-muted-foreground">Weighted</th>
+          <th className="h-12 px-4 text-right font-medium text-muted-foreground">Won</th>
+        </tr>
+      </thead>
+      <tbody>
+        {buckets.map(bucket => (
+          <tr key={bucket.key} className="border-b last:border-0 transition-colors hover:bg-muted/50">
+            <td className="p-4">{bucket.label}</td>
+            <td className="p-4 text-right">{bucket.dealCount}</td>
+            <td className="p-4 text-right">{formatMoney(bucket.pipeline, currency)}</td>
+            <td className="p-4 text-right font-medium">{formatMoney(bucket.weighted, currency)}</td>
+            <td className="p-4 text-right">{formatMoney(bucket.won, currency)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const ForecastView = ({ customers, salesReps }: ForecastViewProps) => {
+  const { getStage } = usePipeline();
+  const currencies = useMemo(() => getDealCurrencies(customers), [customers]);
+  const [selectedCurrency, setSelectedCurrency] = useState<string | null>(null);
+  const currency = selectedCurrency && currencies.includes(selectedCurrency) ? selectedCurrency : currencies[0];
+
+  const repName = (userId: string) => {
+    const rep = salesReps.find(r => r.user_id === userId);
+    return rep ? `${rep.first_name} ${rep.last_name}` : 'Unknown rep';
+  };
+
+  if (!currency) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No deals yet. Sales reps can add a deal amount, probability and expected close date to their customers.
+      </p>
+    );
+  }
+
+  const totals = getForecastTotals(customers, getStage, currency);
+  const byMonth = buildForecastByMonth(customers, getStage, currency);
+  const byRep = buildForecastByRep(customers, getStage, currency, repName);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-sm">
+          <div>
+            <div className="text-muted-foreground">Open pipeline</div>
+            <div className="text-xl font-bold">{formatMoney(totals.pipeline, currency)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Weighted forecast</div>
+            <div className="text-xl font-bold">{formatMoney(totals.weighted, currency)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Won</div>
+            <div className="text-xl font-bold">{formatMoney(totals.won, currency)}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Deals</div>
+            <div className="text-xl font-bold">{totals.dealCount}</div>
+          </div>
+        </div>
+        {currencies.length > 1 && (
+          <Select value={currency} onValueChange={setSelectedCurrency}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {currencies.map(code => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-[280px] w-full">
+        <BarChart data={byMonth}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={80}
+            tickFormatter={value => formatMoney(Number(value), currency)}
+          />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar dataKey="pipeline" fill="var(--color-pipeline)" radius={4} />
+          <Bar dataKey="weighted" fill="var(--color-weighted)" radius={4} />
+          <Bar dataKey="won" fill="var(--color-won)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+
+      <BucketTable title="Expected Close" buckets={byMonth} currency={currency} />
+      <BucketTable title="Sales Rep" buckets={byRep} currency={currency} />
+    </div>
+  );
+};
@@ -5,96 +5,18 @@ import { insertCustomers, upsertCustomers } from '@/services/customerService';
 import { Loader2, Upload } from 'lucide-react';
 import { Customer } from '@/types/customer';
 import { supabase } from '@/integrations/supabase/client';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { parseCsv, resolveColumns, extractCustomerRow, validateCustomerRow } from '@/services/csvImport';
 
 interface ImportCsvProps {
   onImported?: (count: number) => void;
   mode?: 'insert' | 'upsert';
 }
 
-// Very basic CSV parser for comma-separated values with a header row
-function parseCsv(content: string) {
-  const normalizedContent = content.replace(/^\uFEFF/, '');
-  const lines = normalizedContent.split(/\r?\n/).filter(l => l.trim().length > 0);
-  if (lines.length === 0) return [] as any[];
-  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
-  const rows = lines.slice(1).map(line => {
-    const cols = line.split(',').map(c => c.trim());
-    const obj: Record<string, string> = {};
-    header.forEach((h, idx) => {
-      obj[h] = cols[idx] ?? '';
-    });
-    return obj;
-  });
-  return rows;
-}
-
-// Helper to normalize phone numbers (handle scientific notation from Excel)
-const normalizePhone = (phone: string): string => {
-  if (!phone) return '';
-  const num = parseFloat(phone);
-  if (!isNaN(num) && phone.includes('E')) {
-    return Math.round(num).toString();
-  }
-  return phone.replace(/[^\d+]/g, '').substring(0, 20);
-};
-
-// Helper to split full name into first and last name
-const splitFullName = (fullName: string): { firstName: string; lastName: string } => {
-  const trimmed = fullName.trim();
-  if (!trimmed) return { firstName: '', lastName: '' };
-  
-  const parts = trimmed.split(/\s+/);
-  if (parts.length === 1) {
-    return { firstName: parts[0], lastName: '' };
-  }
-  const firstName = parts[0];
-  const lastName = parts.slice(1).join(' ');
-  return { firstName, lastName };
-};
-
-// Helper to map various status values to allowed database values
-const normalizeStatus = (status: string): string => {
-  if (!status) return 'pending';
-  
-  const normalized = status.toLowerCase().trim();
-  
-  // Map common variations to allowed values: pending, active, won, lost
-  const statusMap: Record<string, string> = {
-    'pending': 'pending',
-    'new': 'pending',
-    'new lead': 'pending',
-    'lead': 'pending',
-    'prospect': 'pending',
-    'open': 'pending',
-    'active': 'active',
-    'contacted': 'active',
-    'contact': 'active',
-    'in progress': 'active',
-    'working': 'active',
-    'engaged': 'active',
-    'qualified': 'active',
-    'negotiation': 'active',
-    'coder': 'active',
-    'won': 'won',
-    'closed won': 'won',
-    'success': 'won',
-    'complete': 'won',
-    'completed': 'won',
-    'closed': 'won',
-    'lost': 'lost',
-    'closed lost': 'lost',
-    'rejected': 'lost',
-    'failed': 'lost',
-    'declined': 'lost',
-    'cancelled': 'lost',
-  };
-  
-  return statusMap[normalized] || 'pending';
-};
-
 export const ImportCsv: React.FC<ImportCsvProps> = ({ onImported, mode = 'upsert' }) => {
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { toast } = useToast();
+  const { stages } = usePipeline();
   const [loading, setLoading] = useState(false);
 
   const handleChoose = () => fileInputRef.current?.click();
@@ -109,51 +31,33 @@ export const ImportCsv: React.FC<ImportCsvProps> = ({ onImported, mode = 'upsert
       }
 
       const text = await file.text();
-      const rows = parseCsv(text);
+      const { headers, rows } = parseCsv(text);
+      const columns = resolveColumns(headers);
 
       // Map CSV rows to Customer type
       const customers: Customer[] = [];
       const errors: string[] = [];
 
       rows.forEach((r, idx) => {
-        // Try to get first and last name
-        let firstName = r.first_name || r.firstname || '';
-        let lastName = r.last_name || r.lastname || '';
-        
-        // Check if we have a full name field instead
-        const fullName = r['full name'] || r.fullname || r.name || '';
-        if (fullName && (!firstName || !lastName)) {
-          const { firstName: fn, lastName: ln } = splitFullName(fullName);
-          firstName = firstName || fn;
-          lastName = lastName || ln;
-        }
-
-        const email = r.email || '';
-        const phone = normalizePhone(r.phone_no || r.phonenumber || r['phone number'] || r.phone || '');
-        const source = r.source || 'csv';
-        const notes = r.notes || '';
-        const status = normalizeStatus(r.status || 'pending');
+        const row = extractCustomerRow(r, columns, 'csv', stages);
 
         // Validate
-        if (!email || !email.includes('@')) {
-          errors.push(`Row ${idx + 2}: Invalid or missing email`);
-          return;
-        }
-        if (!firstName && !lastName) {
-          errors.push(`Row ${idx + 2}: Missing name (provide Full Name or First/Last Name)`);
+        const validationError = validateCustomerRow(row, idx + 2);
+        if (validationError) {
+          errors.push(validationError);
           return;
         }
 
         customers.push({
           id: crypto.randomUUID(),
           sales_rep_user_id: user.id,
-          first_name: firstName || 'Unknown',
-          last_name: lastName || 'Unknown',
-          email: email,
-          phone_no: phone,
-          source: source,
-          notes: notes || null,
-          status: status,
+          first_name: row.firstName || 'Unknown',
+          last_name: row.lastName || 'Unknown',
+          email: row.email,
+          phone_no: row.phone,
+          source: row.source,
+          notes: row.notes || null,
+          status: row.status,
         });
       });
 
@@ -203,7 +107,7 @@ export const ImportCsv: React.FC<ImportCsvProps> = ({ onImported, mode = 'upsert
       <input
         ref={fileInputRef}
         type="file"
-        accept=".csv,text/csv"
+        accept=".csv,.tsv,text/csv,text/tab-separated-values"
         className="hidden"
         onChange={(e) => {
           const file = e.target.files?.[0];
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Loader2, Play, RotateCcw, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  downloadImportFile,
+  getImportJobs,
+  runImportJob,
+  undoImportJob,
+  ImportJob,
+  ImportJobProgress,
+} from '@/services/importJobService';
+import { downloadFile } from '@/lib/download';
+
+interface ImportHistoryProps {
+  onRerun: (job: ImportJob) => void;
+  onCustomersChanged?: () => void;
+  refreshKey?: number;
+}
+
+const statusColors: Record<ImportJob['status'], string> = {
+  processing: 'bg-orange-500',
+  completed: 'bg-emerald-500',
+  failed: 'bg-rose-500',
+  reverted: 'bg-gray-500',
+};
+
+export const ImportHistory = ({ onRerun, onCustomersChanged, refreshKey }: ImportHistoryProps) => {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedJobId, setExpandedJobId] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [jobToUndo, setJobToUndo] = useState<ImportJob | null>(null);
+  const [undoing, setUndoing] = useState(false);
+  const [resuming, setResuming] = useState<{ jobId: string; progress: ImportJobProgress | null } | null>(null);
+  const { toast } = useToast();
+
+  const loadJobs = async () => {
+    setLoading(true);
+    const data = await getImportJobs();
+    setJobs(data);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadJobs();
+  }, [refreshKey]);
+
+  const handleUndo = async () => {
+    if (!jobToUndo) return;
+
+    setUndoing(true);
+    const result = await undoImportJob(jobToUndo);
+    setUndoing(false);
+    setJobToUndo(null);
+
+    if (result.success) {
+      toast({
+        title: 'Import Undone',
+        description: result.skipped
+          ? `Reverted ${result.reverted} customer(s). ${result.skipped} changed by a later import were left as is.`
+          : `Reverted ${result.reverted} customer(s).`,
+      });
+      loadJobs();
+      onCustomersChanged?.();
+    } else {
+      toast({
+        title: 'Undo Failed',
+        description: result.message || 'Failed to undo import',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // Continues an interrupted import from the next unprocessed chunk
+  const handleResume = async (job: ImportJob) => {
+    setResuming({ jobId: job.id, progress: null });
+    const result = await runImportJob(job.id, progress => setResuming({ jobId: job.id, progress }));
+    setResuming(null);
+
+    if (result.success) {
+      toast({
+        title: 'Import Completed',
+        description: `Imported ${result.progress?.inserted_count || 0} new and updated ${result.progress?.updated_count || 0} existing customer(s).`,
+      });
+    } else {
+      toast({
+        title: 'Import Paused',
+        description: result.message || 'Failed to resume import',
+        variant: 'destructive',
+      });
+    }
+
+    loadJobs();
+    onCustomersChanged?.();
+  };
+
+  const handleDownload = async (job: ImportJob) => {
+    setDownloading(job.id);
+    try {
+      const file = await downloadImportFile(job);
+      downloadFile(file, job.file_name, file.type || 'text/csv');
+    } catch (error) {
+      console.error('Error downloading import file:', error);
+      toast({
+        title: 'Download Failed',
+        description: 'The original file could not be downloaded.',
+        variant: 'destructive',
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        <span className="ml-2 text-muted-foreground">Loading import history...</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+    <div className="rounded-md border">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b bg-muted/50">
+            <th className="h-12 px-4 text-left font-medium text-muted-foreground">Date</th>
+            <th className="h-12 px-4 text-left font-medium text-muted-foreground">File</th>
+            <th className="h-12 px-4 text-left font-medium text-muted-foreground">Status</th>
+            <th className="h-12 px-4 text-right font-medium text-muted-foreground">Rows</th>
+            <th className="h-12 px-4 text-right font-medium text-muted-foreground">Inserted</th>
+            <th className="h-12 px-4 text-right font-medium text-muted-foreground">Updated</th>
+            <th className="h-12 px-4 text-right font-medium text-muted-foreground">Skipped</th>
+            <th className="h-12 px-4 text-right font-medium text-muted-foreground">Failed</th>
+            <th className="h-12 px-4 text-left font-medium text-muted-foreground">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {jobs.length === 0 ? (
+            <tr>
+              <td colSpan={9} className="h-24 text-center">
+                No imports yet.
+              </td>
+            </tr>
+          ) : (
+            jobs.map(job => (
+              <React.Fragment key={job.id}>
+                <tr className="border-b transition-colors hover:bg-muted/50">
+                  <td className="p-4 whitespace-nowrap">{format(new Date(job.created_at), 'PPp')}</td>
+                  <td className="p-4 truncate max-w-[220px]" title={job.file_name}>{job.file_name}</td>
+                  <td className="p-4">
+                    <Badge className={statusColors[job.status] || 'bg-gray-500'}>{job.status}</Badge>
+                    {job.status === 'processing' && job.rows_path && (
+                      <div className="mt-2 space-y-1 min-w-[120px]">
+                        <Progress
+                          value={
+                            ((resuming?.jobId === job.id && resuming.progress
+                              ? resuming.progress.processed_rows
+                              : job.processed_rows) /
+                              Math.max(job.staged_rows, 1)) *
+                            100
+                          }
+                        />
+                        {job.last_error && resuming?.jobId !== job.id && (
+                          <p className="text-xs text-destructive truncate max-w-[200px]" title={job.last_error}>
+                            {job.last_error}
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                  <td className="p-4 text-right">{job.total_rows}</td>
+                  <td className="p-4 text-right">{job.inserted_count}</td>
+                  <td className="p-4 text-right">{job.updated_count}</td>
+                  <td className="p-4 text-right">{job.skipped_count}</td>
+                  <td className="p-4 text-right">
+                    {job.errors.length > 0 ? (
+                      <button
+                        type="button"
+                        className="underline text-destructive"
+                        onClick={() => setExpandedJobId(expandedJobId === job.id ? null : job.id)}
+                      >
+                        {job.failed_count}
+                      </button>
+                    ) : (
+                      job.failed_count
+                    )}
+                  </td>
+                  <td className="p-4">
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(job)}
+                        disabled={downloading === job.id}
+                      >
+                        {downloading === job.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Download className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => onRerun(job)}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Re-run
+                      </Button>
+                      {job.status === 'processing' && job.rows_path && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResume(job)}
+                          disabled={!!resuming}
+                        >
+                          {resuming?.jobId === job.id ? (
+                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          ) : (
+                            <Play className="h-4 w-4 mr-1" />
+                          )}
+                          Resume
+                        </Button>
+                      )}
+                      {job.status === 'completed' && (
+                        <Button variant="outline" size="sm" onClick={() => setJobToUndo(job)}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Undo
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+                {expandedJobId === job.id && (
+                  <tr className="border-b bg-muted/25">
+                    <td colSpan={9} className="p-4">
+                      <ul className="space-y-1 text-xs text-destructive">
+                        {job.errors.map((error, index) => (
+                          <li key={index}>
+                            {error.row !== null ? `Row ${error.row}: ` : ''}{error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+
+    <AlertDialog open={!!jobToUndo} onOpenChange={open => !open && setJobToUndo(null)}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Undo this import?</AlertDialogTitle>
+          <AlertDialogDescription>
+            Customers created by {jobToUndo?.file_name} will be deleted and customers it updated will get their
+            previous values back. This cannot be reversed.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={undoing}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={handleUndo} disabled={undoing}>
+            {undoing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Undo import'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+    </>
+  );
+};
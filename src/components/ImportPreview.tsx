@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, AlertTriangle, Download, Loader2, Pencil } from 'lucide-react';
+import { ImportedCustomerRow } from '@/services/csvImport';
+import {
+  ImportReportRow,
+  ImportRowAction,
+  hasErrors,
+  summarizeImportReport,
+} from '@/services/importValidation';
+import { ImportJobProgress } from '@/services/importJobService';
+
+interface ImportPreviewProps {
+  fileName: string;
+  report: ImportReportRow[];
+  onActionChange: (rowNumber: number, action: ImportRowAction) => void;
+  onFixRow: (rowNumber: number, updates: Partial<ImportedCustomerRow>) => void;
+  onDownloadRejected: () => void;
+  onConfirm: () => void;
+  onBack: () => void;
+  busy?: boolean;
+  progress?: ImportJobProgress | null;
+}
+
+type FixDraft = Pick<ImportedCustomerRow, 'firstName' | 'lastName' | 'email' | 'phone'>;
+
+// Large files would otherwise render tens of thousands of table rows
+const MAX_VISIBLE_ROWS = 500;
+
+export const ImportPreview = ({
+  fileName,
+  report,
+  onActionChange,
+  onFixRow,
+  onDownloadRejected,
+  onConfirm,
+  onBack,
+  busy = false,
+  progress = null,
+}: ImportPreviewProps) => {
+  const [view, setView] = useState<'all' | 'issues'>('issues');
+  const [editingRow, setEditingRow] = useState<number | null>(null);
+  const [draft, setDraft] = useState<FixDraft | null>(null);
+
+  const summary = useMemo(() => summarizeImportReport(report), [report]);
+  const rowsWithIssues = report.filter(row => row.issues.length > 0);
+  const filteredRows = view === 'issues' ? rowsWithIssues : report;
+  const visibleRows = filteredRows.slice(0, MAX_VISIBLE_ROWS);
+  const importCount = summary.toInsert + summary.toUpdate;
+
+  const startFix = (row: ImportReportRow) => {
+    setEditingRow(row.rowNumber);
+    setDraft({
+      firstName: row.customer.firstName,
+      lastName: row.customer.lastName,
+      email: row.customer.email,
+      phone: row.customer.phone,
+    });
+  };
+
+  const saveFix = () => {
+    if (editingRow !== null && draft) {
+      onFixRow(editingRow, draft);
+    }
+    setEditingRow(null);
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="font-medium">{fileName}</p>
+          <p className="text-sm text-muted-foreground">
+            Dry run: nothing has been written yet. Review each row before importing.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Badge className="bg-green-600">{summary.toInsert} new</Badge>
+          <Badge className="bg-blue-600">{summary.toUpdate} update</Badge>
+          <Badge variant="secondary">{summary.skipped} skipped</Badge>
+          <Badge variant="destructive">{summary.invalid} invalid</Badge>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center">
+        <Tabs value={view} onValueChange={value => setView(value as 'all' | 'issues')}>
+          <TabsList>
+            <TabsTrigger value="issues">With issues ({rowsWithIssues.length})</TabsTrigger>
+            <TabsTrigger value="all">All rows ({report.length})</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onDownloadRejected}
+          disabled={summary.skipped + summary.invalid === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download rejected rows
+        </Button>
+      </div>
+
+      <div className="rounded-md border max-h-[480px] overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-background">
+            <tr className="border-b bg-muted/50">
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Row</th>
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Name</th>
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Email</th>
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Phone</th>
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Status</th>
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Issues</th>
+              <th className="h-10 px-3 text-left font-medium text-muted-foreground">Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRows.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="h-24 text-center text-muted-foreground">
+                  No rows with issues.
+                </td>
+              </tr>
+            ) : (
+              visibleRows.map(row => {
+                const invalid = hasErrors(row);
+                const isEditing = editingRow === row.rowNumber && draft;
+
+                return (
+                  <tr key={row.rowNumber} className={`border-b last:border-0 align-top ${invalid ? 'bg-destructive/5' : ''}`}>
+                    <td className="p-3 text-muted-foreground">{row.rowNumber}</td>
+                    {isEditing ? (
+                      <>
+                        <td className="p-2 space-y-1">
+                          <Input
+                            value={draft.firstName}
+                            placeholder="First name"
+                            onChange={e => setDraft({ ...draft, firstName: e.target.value })}
+                          />
+                          <Input
+                            value={draft.lastName}
+                            placeholder="Last name"
+                            onChange={e => setDraft({ ...draft, lastName: e.target.value })}
+                          />
+                        </td>
+                        <td className="p-2">
+                          <Input
+                            value={draft.email}
+                            placeholder="Email"
+                            onChange={e => setDraft({ ...draft, email: e.target.value })}
+                          />
+                        </td>
+                        <td className="p-2">
+                          <Input
+                            value={draft.phone}
+                            placeholder="Phone"
+                            onChange={e => setDraft({ ...draft, phone: e.target.value })}
+                          />
+                        </td>
+                      </>
+                    ) : (
+                      <>
+                        <td className="p-3">
+                          {`${row.customer.firstName} ${row.customer.lastName}`.trim() || '-'}
+                        </td>
+                        <td className="p-3">{row.customer.email || '-'}</td>
+                        <td className="p-3">{row.customer.phone || '-'}</td>
+                      </>
+                    )}
+                    <td className="p-3">{row.customer.status}</td>
+                    <td className="p-3 space-y-1">
+                      {row.issues.length === 0 ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        row.issues.map((issue, index) => (
+                          <div
+                            key={index}
+                            className={`flex items-start gap-1 text-xs ${
+                              issue.severity === 'error' ? 'text-destructive' : 'text-amber-600'
+                            }`}
+                          >
+                            {issue.severity === 'error' ? (
+                              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                            ) : (
+                              <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                            )}
+                            {issue.message}
+                          </div>
+                        ))
+                      )}
+                    </td>
+                    <td className="p-3">
+                      <div className="flex items-center gap-2">
+                        {isEditing ? (
+                          <>
+                            <Button size="sm" onClick={saveFix}>Save</Button>
+                            <Button size="sm" variant="ghost" onClick={() => setEditingRow(null)}>Cancel</Button>
+                          </>
+                        ) : (
+                          <>
+                            <Select
+                              value={invalid ? 'skip' : row.action}
+                              onValueChange={value => onActionChange(row.rowNumber, value as ImportRowAction)}
+                              disabled={invalid || busy}
+                            >
+                              <SelectTrigger className="w-[130px]">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="import">
+                                  {row.existingCustomerId ? 'Update' : 'Accept'}
+                                </SelectItem>
+                                <SelectItem value="skip">Skip</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button size="sm" variant="ghost" onClick={() => startFix(row)} disabled={busy}>
+                              <Pencil className="h-4 w-4 mr-1" />
+                              Fix
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {filteredRows.length > visibleRows.length && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {visibleRows.length} of {filteredRows.length} rows. Download rejected rows to review the rest.
+        </p>
+      )}
+
+      {progress && (
+        <div className="space-y-2">
+          <Progress value={progress.staged_rows ? (progress.processed_rows / progress.staged_rows) * 100 : 0} />
+          <p className="text-sm text-muted-foreground">
+            Imported {progress.processed_rows} of {progress.staged_rows} row(s)
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onBack} disabled={busy}>
+          Back to mapping
+        </Button>
+        <Button onClick={onConfirm} disabled={busy || importCount === 0}>
+          {busy ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Importing...
+            </>
+          ) : (
+            `Import ${importCount} row(s)`
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+import { SalesRep } from '@/types/salesRep';
+import { LeadRoutingRule, LeadRoutingRuleConfig, RoutingStrategy } from '@/types/leadRouting';
+import {
+  createLeadRoutingRule,
+  deleteLeadRoutingRule,
+  getLeadRoutingRules,
+  reorderLeadRoutingRules,
+  ROUTING_STRATEGY_LABELS,
+  updateLeadRoutingRule,
+} from '@/services/leadRoutingService';
+
+interface LeadRoutingRulesManagerProps {
+  salesReps: SalesRep[];
+}
+
+type TextField = 'name' | 'match_source' | 'match_phone_prefix';
+
+export const LeadRoutingRulesManager = ({ salesReps }: LeadRoutingRulesManagerProps) => {
+  const [rules, setRules] = useState<LeadRoutingRule[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Record<TextField, string>>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const { toast } = useToast();
+
+  const activeReps = salesReps.filter(rep => rep.status === 'active');
+
+  const loadRules = async () => {
+    const data = await getLeadRoutingRules();
+    setRules(data);
+    setDrafts(
+      Object.fromEntries(
+        data.map(rule => [
+          rule.id,
+          { name: rule.name, match_source: rule.match_source || '', match_phone_prefix: rule.match_phone_prefix || '' },
+        ])
+      )
+    );
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const applyChange = async (change: () => Promise<{ success: boolean; message?: string }>) => {
+    setSaving(true);
+    const result = await change();
+    if (!result.success) {
+      toast({
+        title: 'Routing Update Failed',
+        description: result.message || 'Failed to update routing rules',
+        variant: 'destructive',
+      });
+    }
+    await loadRules();
+    setSaving(false);
+    return result.success;
+  };
+
+  const setDraft = (rule: LeadRoutingRule, field: TextField, value: string) =>
+    setDrafts(prev => ({ ...prev, [rule.id]: { ...prev[rule.id], [field]: value } }));
+
+  const handleTextBlur = (rule: LeadRoutingRule, field: TextField) => {
+    const value = (drafts[rule.id]?.[field] || '').trim();
+    if (value === (rule[field] || '')) return;
+    applyChange(() => updateLeadRoutingRule(rule.id, { [field]: value } as Partial<LeadRoutingRuleConfig>));
+  };
+
+  const handleToggleRep = (rule: LeadRoutingRule, repId: string, checked: boolean) => {
+    const ids = checked ? [...rule.sales_rep_ids, repId] : rule.sales_rep_ids.filter(id => id !== repId);
+    applyChange(() => updateLeadRoutingRule(rule.id, { sales_rep_ids: ids }));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ordered = [...rules];
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + direction, 0, moved);
+    applyChange(() => reorderLeadRoutingRules(ordered.map(rule => rule.id)));
+  };
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    const added = await applyChange(() =>
+      createLeadRoutingRule({
+        name: newName,
+        is_active: true,
+        strategy: 'round_robin',
+        match_source: null,
+        match_phone_prefix: null,
+        sales_rep_ids: [],
+      })
+    );
+    if (added) setNewName('');
+  };
+
+  const repsLabel = (rule: LeadRoutingRule) => {
+    const count = rule.sales_rep_ids.filter(id => activeReps.some(rep => rep.id === id)).length;
+    return rule.sales_rep_ids.length === 0 ? 'All active reps' : `${count} rep${count === 1 ? '' : 's'}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Leads sent to the onboarding webhook without a <code>sales_rep_email</code> are assigned by the first active
+        rule, top to bottom, whose source and phone prefix match. Leave a condition empty to match anything. When no
+        rule matches, the lead goes to the active rep with the fewest open customers.
+      </p>
+
+      <div className="rounded-md border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Active</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Name</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Source</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Phone Prefix</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Strategy</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Reps</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="h-24 text-center text-muted-foreground">
+                  No routing rules yet. Every unassigned lead goes to the least loaded rep.
+                </td>
+              </tr>
+            ) : (
+              rules.map((rule, index) => (
+                <tr key={rule.id} className="border-b transition-colors hover:bg-muted/50">
+                  <td className="p-4">
+                    <Switch
+                      checked={rule.is_active}
+                      disabled={saving}
+                      onCheckedChange={checked => applyChange(() => updateLeadRoutingRule(rule.id, { is_active: checked }))}
+                    />
+                  </td>
+                  {(['name', 'match_source', 'match_phone_prefix'] as TextField[]).map(field => (
+                    <td key={field} className="p-4">
+                      <Input
+                        value={drafts[rule.id]?.[field] ?? ''}
+                        placeholder={field === 'name' ? '' : 'Any'}
+                        disabled={saving}
+                        onChange={e => setDraft(rule, field, e.target.value)}
+                        onBlur={() => handleTextBlur(rule, field)}
+                        onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                      />
+                    </td>
+                  ))}
+                  <td className="p-4">
+                    <Select
+                      value={rule.strategy}
+                      disabled={saving}
+                      onValueChange={value =>
+                        applyChange(() => updateLeadRoutingRule(rule.id, { strategy: value as RoutingStrategy }))
+                      }
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROUTING_STRATEGY_LABELS) as RoutingStrategy[]).map(strategy => (
+                          <SelectItem key={strategy} value={strategy}>{ROUTING_STRATEGY_LABELS[strategy]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="p-4">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button variant="outline" size="sm" disabled={saving}>{repsLabel(rule)}</Button>
+                      </PopoverTrigger>
+                      <PopoverContent align="start" className="w-64 space-y-2">
+                        <p className="text-xs text-muted-foreground">Select none to use every active rep.</p>
+                        {activeReps.map(rep => (
+                          <div key={rep.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              id={`rule-${rule.id}-${rep.id}`}
+                              checked={rule.sales_rep_ids.includes(rep.id)}
+                              disabled={saving}
+                              onCheckedChange={value => handleToggleRep(rule, rep.id, !!value)}
+                            />
+                            <label htmlFor={`rule-${rule.id}-${rep.id}`}>{rep.first_name} {rep.last_name}</label>
+                          </div>
+                        ))}
+                      </PopoverContent>
+                    </Popover>
+                  </td>
+                  <td className="p-4">
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving || index === 0}
+                        onClick={() => handleMove(index, -1)}
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving || index === rules.length - 1}
+                        onClick={() => handleMove(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={saving}
+                        onClick={() => applyChange(() => deleteLeadRoutingRule(rule.id))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Input
+          className="max-w-xs"
+          placeholder="New rule name, e.g. UK leads"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        />
+        <Button onClick={handleAdd} disabled={saving || !newName.trim()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+    </div>
+  );
+};
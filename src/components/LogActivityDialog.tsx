@@ -0,0 +1,42 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Customer } from '@/types/customer';
+import { ActivityType } from '@/services/activityService';
+import { LogActivityForm } from './LogActivityForm';
+
+interface LogActivityDialogProps {
+  customer: Customer | null;
+  type: ActivityType;
+  onOpenChange: (open: boolean) => void;
+  onLogged?: () => void;
+}
+
+export const LogActivityDialog = ({ customer, type, onOpenChange, onLogged }: LogActivityDialogProps) => (
+  <Dialog open={!!customer} onOpenChange={onOpenChange}>
+    <DialogContent className="sm:max-w-[480px]">
+      <DialogHeader>
+        <DialogTitle>{type === 'task' ? 'Add Task' : 'Log Activity'}</DialogTitle>
+        <DialogDescription>
+          {customer ? `${customer.first_name} ${customer.last_name} · ${customer.email}` : ''}
+        </DialogDescription>
+      </DialogHeader>
+      {customer && (
+        <LogActivityForm
+          key={`${customer.id}-${type}`}
+          customerId={customer.id}
+          initialType={type}
+          onLogged={() => {
+            onOpenChange(false);
+            onLogged?.();
+          }}
+        />
+      )}
+    </DialogContent>
+  </Dialog>
+);
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ACTIVITY_OUTCOMES, ACTIVITY_TYPE_LABELS, ActivityType, createActivity } from '@/services/activityService';
+
+interface LogActivityFormProps {
+  customerId: string;
+  onLogged: () => void;
+  initialType?: ActivityType;
+}
+
+const nowForInput = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export const LogActivityForm = ({ customerId, onLogged, initialType = 'call' }: LogActivityFormProps) => {
+  const [type, setType] = useState<ActivityType>(initialType);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [outcome, setOutcome] = useState('');
+  const [occurredAt, setOccurredAt] = useState(nowForInput);
+  const [dueAt, setDueAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const isTask = type === 'task';
+  const outcomes = ACTIVITY_OUTCOMES[type] || [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!subject.trim()) return;
+    if (isTask && !dueAt) {
+      toast({ title: 'Error', description: 'Tasks need a due date', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    const result = await createActivity({
+      customerId,
+      type,
+      subject,
+      body,
+      outcome: isTask ? undefined : outcome,
+      occurredAt: isTask ? undefined : new Date(occurredAt).toISOString(),
+      dueAt: isTask ? new Date(dueAt).toISOString() : null,
+    });
+    setSaving(false);
+
+    if (result.success) {
+      setSubject('');
+      setBody('');
+      setOutcome('');
+      setOccurredAt(nowForInput());
+      setDueAt('');
+      onLogged();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to log activity',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="activity-type">Type</Label>
+          <Select value={type} onValueChange={value => setType(value as ActivityType)}>
+            <SelectTrigger id="activity-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ACTIVITY_TYPE_LABELS) as ActivityType[]).map(value => (
+                <SelectItem key={value} value={value}>{ACTIVITY_TYPE_LABELS[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {isTask ? (
+          <div className="space-y-1">
+            <Label htmlFor="activity-due-at">Due</Label>
+            <Input
+              id="activity-due-at"
+              type="datetime-local"
+              value={dueAt}
+              onChange={e => setDueAt(e.target.value)}
+              disabled={saving}
+              required
+            />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor="activity-occurred-at">When</Label>
+            <Input
+              id="activity-occurred-at"
+              type="datetime-local"
+              value={occurredAt}
+              onChange={e => setOccurredAt(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+        )}
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="activity-subject">Subject</Label>
+        <Input
+          id="activity-subject"
+          placeholder="e.g. Intro call about pricing"
+          value={subject}
+          onChange={e => setSubject(e.target.value)}
+          disabled={saving}
+          required
+        />
+      </div>
+      {!isTask && type !== 'note' && (
+        <div className="space-y-1">
+          <Label htmlFor="activity-outcome">Outcome</Label>
+          <Input
+            id="activity-outcome"
+            list="activity-outcome-options"
+            value={outcome}
+            onChange={e => setOutcome(e.target.value)}
+            disabled={saving}
+          />
+          <datalist id="activity-outcome-options">
+            {outcomes.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="activity-body">Details</Label>
+        <Textarea
+          id="activity-body"
+          rows={3}
+          value={body}
+          onChange={e => setBody(e.target.value)}
+          disabled={saving}
+        />
+      </div>
+      <Button type="submit" disabled={saving || !subject.trim()}>
+        {saving ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Log Activity'
+        )}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Customer } from '@/types/customer';
+import { SalesRep } from '@/types/salesRep';
+import { combineNotes, mergeCustomers, DuplicateGroup, MergeFields } from '@/services/duplicateService';
+
+interface MergeCustomersDialogProps {
+  group: DuplicateGroup | null;
+  salesReps: SalesRep[];
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+type MergeField = Exclude<keyof MergeFields, 'notes'>;
+
+const MERGE_FIELDS: { field: MergeField; label: string }[] = [
+  { field: 'first_name', label: 'First Name' },
+  { field: 'last_name', label: 'Last Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone_no', label: 'Phone' },
+  { field: 'source', label: 'Source' },
+  { field: 'status', label: 'Status' },
+];
+
+export const MergeCustomersDialog = ({ group, salesReps, onOpenChange, onMerged }: MergeCustomersDialogProps) => {
+  const [primaryId, setPrimaryId] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<MergeField, string>>({} as Record<MergeField, string>);
+  const [notes, setNotes] = useState('');
+  const [merging, setMerging] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the oldest record for every field whenever a new group is opened
+  useEffect(() => {
+    if (!group) return;
+    const oldest = group.customers[0].id;
+    setPrimaryId(oldest);
+    setChoices(
+      MERGE_FIELDS.reduce((acc, { field }) => ({ ...acc, [field]: oldest }), {} as Record<MergeField, string>)
+    );
+    setNotes(combineNotes(group.customers));
+  }, [group]);
+
+  if (!group || !primaryId) return null;
+
+  const repName = (customer: Customer) => {
+    const rep = salesReps.find(r => r.user_id === customer.sales_rep_user_id);
+    return rep ? `${rep.first_name} ${rep.last_name}` : 'Unknown rep';
+  };
+
+  const handleMerge = async () => {
+    const byId = new Map(group.customers.map(c => [c.id, c]));
+    const fields: MergeFields = { notes: notes.trim() || null };
+    MERGE_FIELDS.forEach(({ field }) => {
+      const value = byId.get(choices[field])?.[field];
+      if (value !== undefined && value !== null) {
+        fields[field] = value;
+      }
+    });
+
+    setMerging(true);
+    const result = await mergeCustomers(
+      primaryId,
+      group.customers.filter(c => c.id !== primaryId).map(c => c.id),
+      fields
+    );
+    setMerging(false);
+
+    if (result.success) {
+      toast({
+        title: 'Customers Merged',
+        description: `${group.customers.length} records were merged into one.`,
+      });
+      onOpenChange(false);
+      onMerged();
+    } else {
+      toast({
+        title: 'Merge Failed',
+        description: result.message || 'Failed to merge customers',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!group} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Customers</DialogTitle>
+          <DialogDescription>
+            Pick the record to keep and which value to use for each field. The other records are removed; their
+            activities and stage history move to the kept customer, and their data and workflow history are archived on
+            it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-md border overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="h-10 px-3 text-left font-medium text-muted-foreground w-32">Field</th>
+                {group.customers.map(customer => (
+                  <th key={customer.id} className="h-10 px-3 text-left font-medium text-muted-foreground">
+                    <button
+                      type="button"
+                      className="flex items-center gap-2"
+                      onClick={() => setPrimaryId(customer.id)}
+                    >
+                      <input type="radio" readOnly checked={primaryId === customer.id} />
+                      Keep this record
+                      {primaryId === customer.id && <Badge className="bg-emerald-500">Kept</Badge>}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b">
+                <td className="p-3 text-muted-foreground">Owner</td>
+                {group.customers.map(customer => (
+                  <td key={customer.id} className="p-3">
+                    {repName(customer)}
+                    <div className="text-xs text-muted-foreground">
+                      Created {format(new Date(customer.created_at), 'PP')}
+                    </div>
+                  </td>
+                ))}
+              </tr>
+              {MERGE_FIELDS.map(({ field, label }) => (
+                <tr key={field} className="border-b last:border-0">
+                  <td className="p-3 text-muted-foreground">{label}</td>
+                  {group.customers.map(customer => {
+                    const selected = choices[field] === customer.id;
+                    return (
+                      <td key={customer.id} className="p-1">
+                        <button
+                          type="button"
+                          className={`w-full rounded-md border px-2 py-2 text-left transition-colors ${
+                            selected ? 'border-primary bg-primary/10' : 'border-transparent hover:bg-muted/50'
+                          }`}
+                          onClick={() => setChoices({ ...choices, [field]: customer.id })}
+                        >
+                          {customer[field] || <span className="text-muted-foreground">-</span>}
+                        </button>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="merge-notes">Notes</Label>
+          <Textarea id="merge-notes" rows={5} value={notes} onChange={e => setNotes(e.target.value)} />
+          <p className="text-xs text-muted-foreground">Notes from all records are combined. Edit them before merging if needed.</p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging}>
+            {merging ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Merging...
+              </>
+            ) : (
+              `Merge ${group.customers.length} records`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
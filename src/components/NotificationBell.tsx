@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { getNotifications, markNotificationsRead, Notification } from '@/services/notificationService';
+
+export const NotificationBell = () => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const navigate = useNavigate();
+
+  const loadNotifications = async () => {
+    setNotifications(await getNotifications());
+  };
+
+  useEffect(() => {
+    loadNotifications();
+
+    // New reminders arrive from the scheduled follow-up-reminders function
+    const notificationsChannel = supabase
+      .channel('my-notifications')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications'
+        },
+        () => loadNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(notificationsChannel);
+    };
+  }, []);
+
+  const unread = notifications.filter(n => !n.read_at);
+
+  const markRead = async (ids: string[]) => {
+    const result = await markNotificationsRead(ids);
+    if (result.success) {
+      const readAt = new Date().toISOString();
+      setNotifications(prev => prev.map(n => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n)));
+    }
+  };
+
+  const handleOpen = (notification: Notification) => {
+    markRead([notification.id]);
+    if (notification.link) navigate(notification.link);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="icon" className="relative" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+              {unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b p-3">
+          <span className="font-medium">Notifications</span>
+          {unread.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => markRead(unread.map(n => n.id))}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="p-6 text-center text-sm text-muted-foreground">No notifications</p>
+        ) : (
+          <ul className="max-h-96 divide-y overflow-y-auto">
+            {notifications.map(notification => (
+              <li key={notification.id}>
+                <button
+                  type="button"
+                  className={`w-full p-3 text-left text-sm hover:bg-muted/50 ${notification.read_at ? 'text-muted-foreground' : ''}`}
+                  onClick={() => handleOpen(notification)}
+                >
+                  <div className={notification.read_at ? '' : 'font-medium'}>{notification.title}</div>
+                  {notification.body && <div className="text-xs text-muted-foreground">{notification.body}</div>}
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowDown, ArrowUp, Loader2, Plus, Trash2 } from 'lucide-react';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { PipelineStage } from '@/types/pipeline';
+import {
+  createPipelineStage,
+  deletePipelineStage,
+  getPipelineStages,
+  reorderPipelineStages,
+  updatePipelineStage,
+} from '@/services/pipelineService';
+
+const NEW_STAGE_COLOR = '#64748b';
+
+export const PipelineStagesManager = () => {
+  const [stages, setStages] = useState<PipelineStage[]>([]);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(NEW_STAGE_COLOR);
+  const { reloadStages } = usePipeline();
+  const { toast } = useToast();
+
+  const loadStages = async () => {
+    const data = await getPipelineStages();
+    setStages(data);
+    setNames(Object.fromEntries(data.map(stage => [stage.id, stage.name])));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadStages();
+  }, []);
+
+  // Runs a change, then refreshes this list and the stages used across the app
+  const applyChange = async (change: () => Promise<{ success: boolean; message?: string }>) => {
+    setSaving(true);
+    const result = await change();
+    if (!result.success) {
+      toast({
+        title: 'Pipeline Update Failed',
+        description: result.message || 'Failed to update pipeline stages',
+        variant: 'destructive',
+      });
+    }
+    await Promise.all([loadStages(), reloadStages()]);
+    setSaving(false);
+    return result.success;
+  };
+
+  const handleRename = (stage: PipelineStage) => {
+    const name = (names[stage.id] || '').trim();
+    if (!name) {
+      setNames({ ...names, [stage.id]: stage.name });
+      return;
+    }
+    if (name === stage.name) return;
+    applyChange(() => updatePipelineStage(stage.id, { name }));
+  };
+
+  const handleOutcomeChange = (stage: PipelineStage, outcome: 'won' | 'lost', checked: boolean) => {
+    // A stage can close a deal as won or as lost, never both
+    const updates = outcome === 'won'
+      ? { is_won: checked, is_lost: checked ? false : stage.is_lost }
+      : { is_lost: checked, is_won: checked ? false : stage.is_won };
+    applyChange(() => updatePipelineStage(stage.id, updates));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ordered = [...stages];
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + direction, 0, moved);
+    applyChange(() => reorderPipelineStages(ordered.map(stage => stage.id)));
+  };
+
+  const handleAdd = async () => {
+    if (!newName.trim()) return;
+    const added = await applyChange(() =>
+      createPipelineStage({ name: newName, color: newColor, is_won: false, is_lost: false })
+    );
+    if (added) {
+      setNewName('');
+      setNewColor(NEW_STAGE_COLOR);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Stages are shown in this order on every dashboard. Customers imported or received by webhook without a status
+        start in the first stage that is neither won nor lost.
+      </p>
+
+      <div className="rounded-md border">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/50">
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground w-16">Color</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Name</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Key</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Won</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Lost</th>
+              <th className="h-12 px-4 text-left font-medium text-muted-foreground">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stages.map((stage, index) => (
+              <tr key={stage.id} className="border-b transition-colors hover:bg-muted/50">
+                <td className="p-4">
+                  <input
+                    type="color"
+                    className="h-8 w-10 cursor-pointer rounded border bg-transparent"
+                    value={stage.color}
+                    disabled={saving}
+                    onChange={e => applyChange(() => updatePipelineStage(stage.id, { color: e.target.value }))}
+                  />
+                </td>
+                <td className="p-4">
+                  <Input
+                    value={names[stage.id] ?? stage.name}
+                    disabled={saving}
+                    onChange={e => setNames({ ...names, [stage.id]: e.target.value })}
+                    onBlur={() => handleRename(stage)}
+                    onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                  />
+                </td>
+                <td className="p-4 font-mono text-xs text-muted-foreground">{stage.key}</td>
+                <td className="p-4">
+                  <Switch
+                    checked={stage.is_won}
+                    disabled={saving}
+                    onCheckedChange={checked => handleOutcomeChange(stage, 'won', checked)}
+                  />
+                </td>
+                <td className="p-4">
+                  <Switch
+                    checked={stage.is_lost}
+                    disabled={saving}
+                    onCheckedChange={checked => handleOutcomeChange(stage, 'lost', checked)}
+                  />
+                </td>
+                <td className="p-4">
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving || index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving || index === stages.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving || stages.length === 1}
+                      onClick={() => applyChange(() => deletePipelineStage(stage))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          className="h-10 w-12 cursor-pointer rounded border bg-transparent"
+          value={newColor}
+          onChange={e => setNewColor(e.target.value)}
+        />
+        <Input
+          className="max-w-xs"
+          placeholder="New stage name, e.g. Proposal Sent"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAdd()}
+        />
+        <Button onClick={handleAdd} disabled={saving || !newName.trim()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Stage
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { Customer } from '@/types/customer';
+import { AssignableSalesRep } from '@/types/salesRep';
+import { reassignCustomers } from '@/services/customerService';
+import { getAssignableSalesReps } from '@/services/salesRepService';
+
+interface ReassignCustomersDialogProps {
+  customers: Customer[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReassigned: () => void;
+}
+
+export const ReassignCustomersDialog = ({ customers, open, onOpenChange, onReassigned }: ReassignCustomersDialogProps) => {
+  const [reps, setReps] = useState<AssignableSalesRep[]>([]);
+  const [salesRepId, setSalesRepId] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setSalesRepId('');
+    getAssignableSalesReps().then(setReps);
+  }, [open]);
+
+  // Customers already owned by a rep cannot be handed to that same rep
+  const owners = new Set(customers.map(c => c.sales_rep_user_id));
+  const targets = reps.filter(rep => !(owners.size === 1 && owners.has(rep.user_id)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!salesRepId) return;
+
+    setLoading(true);
+    const result = await reassignCustomers(customers.map(c => c.id), salesRepId);
+    setLoading(false);
+
+    if (result.success) {
+      const skipped = result.skippedEmails || [];
+      const skippedNote = skipped.length > 0
+        ? `. ${skipped.length} skipped: the new rep already has a customer with ${skipped.join(', ')}`
+        : '';
+      const rep = reps.find(r => r.id === salesRepId);
+      toast({
+        title: 'Success',
+        description: `${result.reassigned} customer${result.reassigned === 1 ? '' : 's'} reassigned to ${rep?.first_name} ${rep?.last_name}${skippedNote}`,
+      });
+      onReassigned();
+      onOpenChange(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to reassign customers',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Reassign Customers</DialogTitle>
+          <DialogDescription>
+            Hand {customers.length} customer{customers.length === 1 ? '' : 's'} over to another active sales rep.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="reassign-rep">New sales rep</Label>
+            <Select value={salesRepId} onValueChange={setSalesRepId} disabled={loading}>
+              <SelectTrigger id="reassign-rep">
+                <SelectValue placeholder={targets.length ? 'Choose a sales rep' : 'No other active sales reps'} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(rep => (
+                  <SelectItem key={rep.id} value={rep.id}>{rep.first_name} {rep.last_name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !salesRepId}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Reassigning...
+                </>
+              ) : (
+                'Reassign'
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
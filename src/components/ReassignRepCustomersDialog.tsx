@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { SalesRep } from '@/types/salesRep';
+import { distributeCustomers } from '@/services/customerService';
+import { customerKeys, useCustomerList } from '@/hooks/use-customers';
+
+interface ReassignRepCustomersDialogProps {
+  rep: SalesRep | null;
+  salesReps: SalesRep[];
+  customerCounts: Record<string, number>; // customers owned, by rep user_id
+  onOpenChange: (open: boolean) => void;
+  onReassigned: () => void;
+}
+
+type Mode = 'manual' | 'round_robin';
+
+export const ReassignRepCustomersDialog = ({
+  rep,
+  salesReps,
+  customerCounts,
+  onOpenChange,
+  onReassigned,
+}: ReassignRepCustomersDialogProps) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [mode, setMode] = useState<Mode>('manual');
+  const [targetId, setTargetId] = useState('');
+  const [roundRobinIds, setRoundRobinIds] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: repCustomers = [], isLoading: loadingCustomers } = useCustomerList(
+    { salesRepUserId: rep?.user_id },
+    !!rep
+  );
+  // Least loaded reps first so a round-robin evens out the team
+  const targets = salesReps
+    .filter(r => r.status === 'active' && r.id !== rep?.id)
+    .sort((a, b) => (customerCounts[a.user_id] || 0) - (customerCounts[b.user_id] || 0));
+
+  useEffect(() => {
+    if (!rep) return;
+    setMode('manual');
+    setTargetId('');
+    setRoundRobinIds(new Set(salesReps.filter(r => r.status === 'active' && r.id !== rep.id).map(r => r.id)));
+    // Only reset when another rep is opened, not when the rep list refreshes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rep?.id]);
+
+  // Every customer starts selected once the rep's customers have loaded
+  useEffect(() => {
+    if (rep && !loadingCustomers) setSelectedIds(new Set(repCustomers.map(c => c.id)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rep?.id, loadingCustomers]);
+
+  const toggle = (set: Set<string>, id: string, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) next.add(id);
+    else next.delete(id);
+    return next;
+  };
+
+  const repIds = mode === 'manual' ? (targetId ? [targetId] : []) : targets.filter(r => roundRobinIds.has(r.id)).map(r => r.id);
+  const customerIds = repCustomers.filter(c => selectedIds.has(c.id)).map(c => c.id);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rep || repIds.length === 0 || customerIds.length === 0) return;
+
+    setLoading(true);
+    const result = await distributeCustomers(customerIds, repIds);
+    setLoading(false);
+
+    if (result.success) {
+      const skipped = result.skippedEmails || [];
+      const skippedNote = skipped.length > 0
+        ? `. ${skipped.length} skipped: the new rep already has a customer with ${skipped.join(', ')}`
+        : '';
+      toast({
+        title: 'Success',
+        description: `${result.reassigned} customer${result.reassigned === 1 ? '' : 's'} of ${rep.first_name} ${rep.last_name} reassigned${skippedNote}`,
+      });
+      queryClient.invalidateQueries({ queryKey: customerKeys.all });
+      onReassigned();
+      onOpenChange(false);
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to reassign customers',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!rep} onOpenChange={next => !loading && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Reassign Customers</DialogTitle>
+          <DialogDescription>
+            Move customers of {rep?.first_name} {rep?.last_name} to other active sales reps. Open follow-up tasks move with them.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Customers ({customerIds.length} of {repCustomers.length})</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setSelectedIds(customerIds.length === repCustomers.length ? new Set() : new Set(repCustomers.map(c => c.id)))
+                }
+              >
+                {customerIds.length === repCustomers.length ? 'Select none' : 'Select all'}
+              </Button>
+            </div>
+            {loadingCustomers ? (
+              <div className="flex items-center justify-center p-4">
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              </div>
+            ) : repCustomers.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This sales rep has no customers.</p>
+            ) : (
+              <ul className="max-h-48 divide-y overflow-y-auto rounded-md border text-sm">
+                {repCustomers.map(customer => (
+                  <li key={customer.id} className="flex items-center gap-2 p-2">
+                    <Checkbox
+                      id={`reassign-${customer.id}`}
+                      checked={selectedIds.has(customer.id)}
+                      onCheckedChange={value => setSelectedIds(prev => toggle(prev, customer.id, !!value))}
+                      disabled={loading}
+                    />
+                    <label htmlFor={`reassign-${customer.id}`} className="flex-1 truncate">
+                      {customer.first_name} {customer.last_name}
+                      <span className="ml-2 text-muted-foreground">{customer.email}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <RadioGroup value={mode} onValueChange={value => setMode(value as Mode)} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="manual" id="reassign-manual" />
+              <Label htmlFor="reassign-manual">One sales rep</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="round_robin" id="reassign-round-robin" />
+              <Label htmlFor="reassign-round-robin">Round-robin</Label>
+            </div>
+          </RadioGroup>
+
+          {targets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">There are no other active sales reps to reassign to.</p>
+          ) : mode === 'manual' ? (
+            <Select value={targetId} onValueChange={setTargetId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a sales rep" />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map(r => (
+                  <SelectItem key={r.id} value={r.id}>
+                    {r.first_name} {r.last_name} ({customerCounts[r.user_id] || 0} customers)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <ul className="max-h-40 space-y-2 overflow-y-auto text-sm">
+              {targets.map(r => (
+                <li key={r.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`round-robin-${r.id}`}
+                    checked={roundRobinIds.has(r.id)}
+                    onCheckedChange={value => setRoundRobinIds(prev => toggle(prev, r.id, !!value))}
+                    disabled={loading}
+                  />
+                  <label htmlFor={`round-robin-${r.id}`}>
+                    {r.first_name} {r.last_name}
+                    <span className="ml-2 text-muted-foreground">{customerCounts[r.user_id] || 0} customers</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={loading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || repIds.length === 0 || customerIds.length === 0}>
+              {loading ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Reassigning...
+                </>
+              ) : (
+                `Reassign ${customerIds.length}`
+              )}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { formatDistanceToNow, subDays } from 'date-fns';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SalesRep } from '@/types/salesRep';
+import { getActivityCountsByRep, RepActivityCounts } from '@/services/activityService';
+
+interface RepActivitySummaryProps {
+  salesReps: SalesRep[];
+}
+
+const PERIODS = [7, 30, 90];
+
+export const RepActivitySummary = ({ salesReps }: RepActivitySummaryProps) => {
+  const [days, setDays] = useState(30);
+  const [counts, setCounts] = useState<RepActivityCounts[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setCounts(await getActivityCountsByRep(subDays(new Date(), days)));
+      setLoading(false);
+    };
+
+    load();
+  }, [days]);
+
+  const byUser = new Map(counts.map(entry => [entry.userId, entry]));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Calls, emails, meetings and notes logged by each sales rep. Open and overdue tasks are counted regardless of period.
+        </p>
+        <Select value={String(days)} onValueChange={value => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(period => (
+              <SelectItem key={period} value={String(period)}>Last {period} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="rounded-md border">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/50">
+                <th className="h-12 px-4 text-left font-medium text-muted-foreground">Sales Rep</th>
+                <th className="h-12 px-4 text-right font-medium text-muted-foreground">Calls</th>
+                <th className="h-12 px-4 text-right font-medium text-muted-foreground">Emails</th>
+                <th className="h-12 px-4 text-right font-medium text-muted-foreground">Meetings</th>
+                <th className="h-12 px-4 text-right font-medium text-muted-foreground">Notes</th>
+                <th className="h-12 px-4 text-right font-medium text-muted-foreground">Tasks Done</th>
+                <th className="h-12 px-4 text-right font-medium text-muted-foreground">Open Tasks</th>
+                <th className="h-12 px-4 text-left font-medium text-muted-foreground">Last Activity</th>
+              </tr>
+            </thead>
+            <tbody>
+              {salesReps.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="h-24 text-center text-muted-foreground">No sales reps yet.</td>
+                </tr>
+              ) : (
+                salesReps.map(rep => {
+                  const entry = byUser.get(rep.user_id);
+                  return (
+                    <tr key={rep.id} className="border-b last:border-0 transition-colors hover:bg-muted/50">
+                      <td className="p-4 font-medium">{rep.first_name} {rep.last_name}</td>
+                      <td className="p-4 text-right">{entry?.counts.call ?? 0}</td>
+                      <td className="p-4 text-right">{entry?.counts.email ?? 0}</td>
+                      <td className="p-4 text-right">{entry?.counts.meeting ?? 0}</td>
+                      <td className="p-4 text-right">{entry?.counts.note ?? 0}</td>
+                      <td className="p-4 text-right">{entry?.completedTasks ?? 0}</td>
+                      <td className="p-4 text-right">
+                        {entry?.openTasks ?? 0}
+                        {!!entry?.overdueTasks && (
+                          <span className="ml-1 text-red-600">({entry.overdueTasks} overdue)</span>
+                        )}
+                      </td>
+                      <td className="p-4 text-muted-foreground">
+                        {entry?.lastActivityAt
+                          ? formatDistanceToNow(new Date(entry.lastActivityAt), { addSuffix: true })
+                          : 'None'}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
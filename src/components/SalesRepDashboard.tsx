@@ -1,35 +1,62 @@
 import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Upload, Users, Activity, TrendingUp, XCircle } from 'lucide-react';
+import { Upload, Users, Activity, TrendingUp, XCircle, History, Kanban, Table, Loader2 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Customer } from '@/types/customer';
-import { getCustomers } from '@/services/customerService';
 import { CustomerTable } from './CustomerTable';
+import { CustomerKanbanBoard } from './CustomerKanbanBoard';
 import { CSVUpload } from './CSVUpload';
+import { ImportHistory } from './ImportHistory';
+import { FollowUpQueue } from './FollowUpQueue';
+import { AccountsManager } from './AccountsManager';
+import { NotificationBell } from './NotificationBell';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { usePipeline } from '@/contexts/PipelineContext';
+import {
+  customerKeys,
+  setCachedCustomer,
+  useCustomerChanges,
+  useCustomerList,
+  useCustomerStageSummary,
+} from '@/hooks/use-customers';
+import { getFilterValue, useTableViewState, withFilter } from '@/hooks/use-table-view-state';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { getAllWorkflows, Workflow } from '@/services/workflowService';
+import { getUnfinishedImportJobs, ImportJob } from '@/services/importJobService';
+import { formatMoney, getSummaryCurrencies, getSummaryTotals } from '@/services/forecastService';
 
 export const SalesRepDashboard = () => {
-  const [customers, setCustomers] = useState<Customer[]>([]);
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
   const [loading, setLoading] = useState(true);
   const [showUpload, setShowUpload] = useState(false);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [showHistory, setShowHistory] = useState(false);
+  const [rerunJob, setRerunJob] = useState<ImportJob | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [followUpRefreshKey, setFollowUpRefreshKey] = useState(0);
+  const [customerView, setCustomerView] = useTableViewState('customers');
+  const [view, setView] = useState<'table' | 'board'>('table');
   const { user, signOut } = useAuth();
+  const { stages, getStage } = usePipeline();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: summary = [] } = useCustomerStageSummary();
+  // The board needs every customer, so they are only loaded while it is shown
+  const { data: boardCustomers = [], isLoading: boardLoading } = useCustomerList({}, view === 'board');
+
+  // Only this rep's customers, including ones reassigned away from them
+  useCustomerChanges('my-customers-changes', {
+    filter: `sales_rep_user_id=eq.${user?.id}`,
+    ownerUserId: user?.id,
+    enabled: !!user,
+  });
 
   const loadData = async () => {
     try {
       setLoading(true);
-      const [customersData, workflowsData] = await Promise.all([
-        getCustomers(),
-        getAllWorkflows()
-      ]);
-      setCustomers(customersData);
-      setWorkflows(workflowsData);
+      queryClient.invalidateQueries({ queryKey: customerKeys.all });
+      setWorkflows(await getAllWorkflows());
     } catch (error) {
       console.error('Error loading data:', error);
       toast({
@@ -45,26 +72,16 @@ export const SalesRepDashboard = () => {
   useEffect(() => {
     loadData();
 
-    // Set up real-time subscription for customers
-    const customersChannel = supabase
-      .channel('my-customers-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'customers'
-        },
-        () => {
-          console.log('Customer data changed, reloading...');
-          loadData();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(customersChannel);
-    };
+    // An import interrupted by a reload or a closed tab can be resumed from the history
+    getUnfinishedImportJobs().then(jobs => {
+      if (jobs.length > 0) {
+        setShowHistory(true);
+        toast({
+          title: 'Unfinished Import',
+          description: `${jobs[0].file_name} was not fully imported. Resume it from Import History.`,
+        });
+      }
+    });
   }, []);
 
   const handleSignOut = async () => {
@@ -93,17 +110,36 @@ export const SalesRepDashboard = () => {
 
   const handleUploadSuccess = () => {
     setShowUpload(false);
+    setRerunJob(null);
+    setHistoryRefreshKey(key => key + 1);
     loadData();
   };
 
-  const activeCustomers = customers.filter(c => c.status === 'active').length;
-  const pendingCustomers = customers.filter(c => c.status === 'pending').length;
-  const wonCustomers = customers.filter(c => c.status === 'won').length;
-  const lostCustomers = customers.filter(c => c.status === 'lost').length;
+  const handleCustomerUpdated = (updated: Customer) => {
+    setCachedCustomer(queryClient, updated);
+    queryClient.invalidateQueries({ queryKey: customerKeys.summary });
+  };
+
+  // The stage filter is part of the customer table's view, so it is saved and shared with it
+  const statusFilter = getFilterValue(customerView, 'status') ?? 'all';
+  const setStatusFilter = (status: string) =>
+    setCustomerView(prev => withFilter(prev, 'status', status === 'all' ? undefined : status));
+
+  const handleRerun = (job: ImportJob) => {
+    setRerunJob(job);
+    setShowUpload(true);
+  };
 
-  const filteredCustomers = statusFilter === 'all' 
-    ? customers 
-    : customers.filter(c => c.status === statusFilter);
+  const totalCustomers = summary.reduce((sum, row) => sum + row.customer_count, 0);
+  const stageCounts = summary.reduce<Record<string, number>>((counts, row) => {
+    if (row.status) counts[row.status] = (counts[row.status] || 0) + row.customer_count;
+    return counts;
+  }, {});
+  const dealCurrency = getSummaryCurrencies(summary)[0];
+  const stageValue = (stageKey: string) =>
+    summary
+      .filter(row => row.status === stageKey && row.deal_currency === dealCurrency)
+      .reduce((sum, row) => sum + row.deal_total, 0);
 
   return (
     <div className="min-h-screen bg-dashboard-bg p-6">
@@ -117,13 +153,24 @@ export const SalesRepDashboard = () => {
             </p>
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={() => setShowUpload(!showUpload)}>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setRerunJob(null);
+                setShowUpload(!showUpload);
+              }}
+            >
               <Upload className="h-4 w-4 mr-2" />
               Import CSV
             </Button>
+            <Button variant="outline" onClick={() => setShowHistory(!showHistory)}>
+              <History className="h-4 w-4 mr-2" />
+              Import History
+            </Button>
             <Button onClick={loadData} disabled={loading}>
               Refresh Data
             </Button>
+            <NotificationBell />
             <Button variant="outline" onClick={handleSignOut}>
               Sign Out
             </Button>
@@ -138,77 +185,86 @@ export const SalesRepDashboard = () => {
               <Users className="h-4 w-4 text-muted-foreground" />
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{customers.length}</div>
-              <p className="text-xs text-muted-foreground">
-                All customers
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card className="cursor-pointer hover:bg-accent/50 transition-colors" onClick={() => setStatusFilter('active')}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active</CardTitle>
-              <Activity className="h-4 w-4 text-green-600" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{activeCustomers}</div>
+              <div className="text-2xl font-bold">{totalCustomers}</div>
               <p className="text-xs text-muted-foreground">
-                In workflow
+                {dealCurrency
+                  ? `${formatMoney(getSummaryTotals(summary, getStage, dealCurrency).weighted, dealCurrency)} weighted forecast`
+                  : 'All customers'}
               </p>
             </CardContent>
           </Card>
 
-          <Card className="cursor-pointer hover:bg-accent/50 transition-colors" onClick={() => setStatusFilter('pending')}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Pending</CardTitle>
-              <Activity className="h-4 w-4 text-yellow-600" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{pendingCustomers}</div>
-              <p className="text-xs text-muted-foreground">
-                Awaiting process
-              </p>
-            </CardContent>
-          </Card>
+          {stages.map(stage => {
+            const StageIcon = stage.is_won ? TrendingUp : stage.is_lost ? XCircle : Activity;
+            return (
+              <Card
+                key={stage.key}
+                className="cursor-pointer hover:bg-accent/50 transition-colors"
+                onClick={() => {
+                  setStatusFilter(stage.key);
+                  setView('table');
+                }}
+              >
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">{stage.name}</CardTitle>
+                  <StageIcon className="h-4 w-4" style={{ color: stage.color }} />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{stageCounts[stage.key] || 0}</div>
+                  <p className="text-xs text-muted-foreground">
+                    {dealCurrency && stageValue(stage.key) > 0
+                      ? formatMoney(stageValue(stage.key), dealCurrency)
+                      : stage.is_won ? 'Converted' : stage.is_lost ? 'Not converted' : 'In pipeline'}
+                  </p>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
 
-          <Card className="cursor-pointer hover:bg-accent/50 transition-colors" onClick={() => setStatusFilter('won')}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Won</CardTitle>
-              <TrendingUp className="h-4 w-4 text-blue-600" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{wonCustomers}</div>
-              <p className="text-xs text-muted-foreground">
-                Converted
-              </p>
-            </CardContent>
-          </Card>
+        {/* Follow-up Queue */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Follow-ups</CardTitle>
+            <CardDescription>
+              Open tasks on your customers, most urgent first
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FollowUpQueue refreshKey={followUpRefreshKey} />
+          </CardContent>
+        </Card>
 
-          <Card className="cursor-pointer hover:bg-accent/50 transition-colors" onClick={() => setStatusFilter('lost')}>
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Lost</CardTitle>
-              <XCircle className="h-4 w-4 text-red-600" />
+        {/* CSV Upload */}
+        {showUpload && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Import Customers</CardTitle>
+              <CardDescription>
+                Upload a CSV file to import customer data
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{lostCustomers}</div>
-              <p className="text-xs text-muted-foreground">
-                Not converted
-              </p>
+              <CSVUpload
+                key={rerunJob?.id ?? 'new'}
+                onUploadSuccess={handleUploadSuccess}
+                rerunJob={rerunJob}
+              />
             </CardContent>
           </Card>
-        </div>
+        )}
 
-        {/* CSV Upload */}
-        {showUpload && (
+        {/* Import History */}
+        {showHistory && (
           <Card>
             <CardHeader>
-              <CardTitle>Import Customers</CardTitle>
+              <CardTitle>Import History</CardTitle>
               <CardDescription>
-                Upload a CSV file to import customer data
+                Previous uploads with their results. Download the original file or run it again.
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <CSVUpload onUploadSuccess={handleUploadSuccess} />
+              <ImportHistory onRerun={handleRerun} onCustomersChanged={loadData} refreshKey={historyRefreshKey} />
             </CardContent>
           </Card>
         )}
@@ -223,24 +279,62 @@ export const SalesRepDashboard = () => {
                   Manage and process your assigned customers
                 </CardDescription>
               </div>
-              <Tabs value={statusFilter} onValueChange={setStatusFilter}>
-                <TabsList>
-                  <TabsTrigger value="all">All</TabsTrigger>
-                  <TabsTrigger value="pending">Pending</TabsTrigger>
-                  <TabsTrigger value="active">Active</TabsTrigger>
-                  <TabsTrigger value="won">Won</TabsTrigger>
-                  <TabsTrigger value="lost">Lost</TabsTrigger>
-                </TabsList>
-              </Tabs>
+              <div className="flex items-center gap-2">
+                {view === 'table' && (
+                  <Tabs value={statusFilter} onValueChange={setStatusFilter}>
+                    <TabsList>
+                      <TabsTrigger value="all">All</TabsTrigger>
+                      {stages.map(stage => (
+                        <TabsTrigger key={stage.key} value={stage.key}>{stage.name}</TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                )}
+                <Tabs value={view} onValueChange={value => setView(value as 'table' | 'board')}>
+                  <TabsList>
+                    <TabsTrigger value="table" title="Table view">
+                      <Table className="h-4 w-4" />
+                    </TabsTrigger>
+                    <TabsTrigger value="board" title="Board view">
+                      <Kanban className="h-4 w-4" />
+                    </TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
-            <CustomerTable 
-              data={filteredCustomers} 
-              loading={loading}
-              onDataChange={loadData}
-              workflows={workflows}
-            />
+            {view === 'board' ? (
+              boardLoading ? (
+                <div className="flex items-center justify-center p-8">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <CustomerKanbanBoard
+                  customers={boardCustomers}
+                  workflows={workflows}
+                  onCustomerUpdated={handleCustomerUpdated}
+                />
+              )
+            ) : (
+              <CustomerTable
+                workflows={workflows}
+                onActivityLogged={() => setFollowUpRefreshKey(key => key + 1)}
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Accounts */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts</CardTitle>
+            <CardDescription>
+              Companies your customers work for
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AccountsManager />
           </CardContent>
         </Card>
       </div>
@@ -2,38 +2,71 @@ import React, { useMemo, useState } from 'react';
 import {
   createColumnHelper,
   flexRender,
+  functionalUpdate,
   getCoreRowModel,
   getSortedRowModel,
   getFilteredRowModel,
   useReactTable,
   SortingState,
   ColumnFiltersState,
+  ColumnOrderState,
+  VisibilityState,
 } from '@tanstack/react-table';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { SalesRep } from '@/types/salesRep';
 import { updateSalesRep } from '@/services/salesRepService';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, UserCheck, UserX } from 'lucide-react';
+import { ArrowRightLeft, Loader2, UserCheck, UserX } from 'lucide-react';
+import { exportSalesReps } from '@/services/exportService';
+import { ExportMenu } from './ExportMenu';
+import { ReassignRepCustomersDialog } from './ReassignRepCustomersDialog';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { ColumnsMenu } from './ColumnsMenu';
+import { getFilterValue, useTableViewState, withFilter } from '@/hooks/use-table-view-state';
+
+const NO_SORTING: SortingState = [];
+const NO_FILTERS: ColumnFiltersState = [];
+const NO_COLUMN_ORDER: ColumnOrderState = [];
+const ALL_COLUMNS_VISIBLE: VisibilityState = {};
+
+const COLUMN_LABELS: Record<string, string> = {
+  first_name: 'First Name',
+  last_name: 'Last Name',
+  email: 'Email',
+  phone_no: 'Phone',
+  status: 'Status',
+  customers: 'Customers',
+  created_at: 'Created',
+};
 
 interface SalesRepTableProps {
   data: SalesRep[];
   loading?: boolean;
   onDataChange?: () => void;
+  customerCounts?: Record<string, number>; // customers owned, by rep user_id
 }
 
-export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProps) => {
+export const SalesRepTable = ({ data, loading, onDataChange, customerCounts = {} }: SalesRepTableProps) => {
   const { toast } = useToast();
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [globalFilter, setGlobalFilter] = useState('');
+  // Search, filters, sort and layout are kept in the URL
+  const [view, setView] = useTableViewState('sales_reps');
   const [updatingStatus, setUpdatingStatus] = useState<Set<string>>(new Set());
+  const [reassignRep, setReassignRep] = useState<SalesRep | null>(null);
 
   const columnHelper = createColumnHelper<SalesRep>();
 
-  const handleStatusToggle = async (repId: string, currentStatus: string) => {
-    const newStatus = currentStatus === 'active' ? 'inactive' : 'active';
+  const handleStatusToggle = async (rep: SalesRep) => {
+    const repId = rep.id;
+    const newStatus = rep.status === 'active' ? 'inactive' : 'active';
     
     setUpdatingStatus(prev => new Set(prev).add(repId));
     
@@ -46,6 +79,10 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
           description: `Sales rep ${newStatus === 'active' ? 'activated' : 'deactivated'} successfully`,
         });
         onDataChange?.();
+        // A deactivated rep's customers would otherwise be left without an owner
+        if (newStatus === 'inactive' && customerCounts[rep.user_id]) {
+          setReassignRep({ ...rep, status: newStatus });
+        }
       } else {
         toast({
           title: 'Error',
@@ -71,15 +108,36 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
   const columns = useMemo(
     () => [
       columnHelper.accessor('first_name', {
-        header: 'First Name',
+        header: ({ column }) => (
+          <Button
+            variant="ghost"
+            onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          >
+            First Name
+          </Button>
+        ),
         cell: info => info.getValue(),
       }),
       columnHelper.accessor('last_name', {
-        header: 'Last Name',
+        header: ({ column }) => (
+          <Button
+            variant="ghost"
+            onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          >
+            Last Name
+          </Button>
+        ),
         cell: info => info.getValue(),
       }),
       columnHelper.accessor('email', {
-        header: 'Email',
+        header: ({ column }) => (
+          <Button
+            variant="ghost"
+            onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          >
+            Email
+          </Button>
+        ),
         cell: info => info.getValue(),
       }),
       columnHelper.accessor('phone_no', {
@@ -88,14 +146,27 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
       }),
       columnHelper.accessor('status', {
         header: 'Status',
+        filterFn: 'equals',
         cell: info => (
           <Badge variant={info.getValue() === 'active' ? 'default' : 'secondary'}>
             {info.getValue()}
           </Badge>
         ),
       }),
+      columnHelper.display({
+        id: 'customers',
+        header: 'Customers',
+        cell: info => customerCounts[info.row.original.user_id] || 0,
+      }),
       columnHelper.accessor('created_at', {
-        header: 'Created',
+        header: ({ column }) => (
+          <Button
+            variant="ghost"
+            onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          >
+            Created
+          </Button>
+        ),
         cell: info => new Date(info.getValue()).toLocaleDateString(),
       }),
       columnHelper.display({
@@ -106,31 +177,42 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
           const isUpdating = updatingStatus.has(rep.id);
           
           return (
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => handleStatusToggle(rep.id, rep.status)}
-              disabled={isUpdating}
-            >
-              {isUpdating ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : rep.status === 'active' ? (
-                <>
-                  <UserX className="h-4 w-4 mr-1" />
-                  Deactivate
-                </>
-              ) : (
-                <>
-                  <UserCheck className="h-4 w-4 mr-1" />
-                  Activate
-                </>
-              )}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleStatusToggle(rep)}
+                disabled={isUpdating}
+              >
+                {isUpdating ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : rep.status === 'active' ? (
+                  <>
+                    <UserX className="h-4 w-4 mr-1" />
+                    Deactivate
+                  </>
+                ) : (
+                  <>
+                    <UserCheck className="h-4 w-4 mr-1" />
+                    Activate
+                  </>
+                )}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setReassignRep(rep)}
+                disabled={!customerCounts[rep.user_id]}
+              >
+                <ArrowRightLeft className="h-4 w-4 mr-1" />
+                Reassign
+              </Button>
+            </div>
           );
         },
       }),
     ],
-    [columnHelper, updatingStatus, onDataChange, toast]
+    [columnHelper, updatingStatus, onDataChange, toast, customerCounts]
   );
 
   const table = useReactTable({
@@ -139,13 +221,24 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
-    onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
-    onGlobalFilterChange: setGlobalFilter,
+    onSortingChange: updater =>
+      setView(prev => ({ ...prev, sorting: functionalUpdate(updater, prev.sorting ?? []) })),
+    onColumnFiltersChange: updater =>
+      setView(prev => ({
+        ...prev,
+        filters: functionalUpdate(updater, prev.filters ?? []).map(({ id, value }) => ({ id, value: String(value) })),
+      })),
+    onGlobalFilterChange: value => setView(prev => ({ ...prev, search: String(value ?? '') })),
+    onColumnVisibilityChange: updater =>
+      setView(prev => ({ ...prev, columnVisibility: functionalUpdate(updater, prev.columnVisibility ?? {}) })),
+    onColumnOrderChange: updater =>
+      setView(prev => ({ ...prev, columnOrder: functionalUpdate(updater, prev.columnOrder ?? []) })),
     state: {
-      sorting,
-      columnFilters,
-      globalFilter,
+      sorting: view.sorting ?? NO_SORTING,
+      columnFilters: view.filters ?? NO_FILTERS,
+      globalFilter: view.search ?? '',
+      columnVisibility: view.columnVisibility ?? ALL_COLUMNS_VISIBLE,
+      columnOrder: view.columnOrder ?? NO_COLUMN_ORDER,
     },
   });
 
@@ -161,12 +254,35 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
-        <Input
-          placeholder="Search sales reps..."
-          value={globalFilter ?? ''}
-          onChange={event => setGlobalFilter(String(event.target.value))}
-          className="max-w-sm"
-        />
+        <div className="flex flex-1 items-center gap-2">
+          <Input
+            placeholder="Search sales reps..."
+            value={view.search ?? ''}
+            onChange={event => table.setGlobalFilter(event.target.value)}
+            className="max-w-sm"
+          />
+          <Select
+            value={getFilterValue(view, 'status') ?? 'all'}
+            onValueChange={value => setView(prev => withFilter(prev, 'status', value === 'all' ? undefined : value))}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="inactive">Inactive</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <SavedViewsMenu table="sales_reps" state={view} onApply={setView} />
+          <ColumnsMenu table={table} labels={COLUMN_LABELS} />
+          <ExportMenu
+            onExport={format => exportSalesReps(table.getRowModel().rows.map(row => row.original), format)}
+            disabled={table.getRowModel().rows.length === 0}
+          />
+        </div>
       </div>
 
       <div className="rounded-md border">
@@ -213,6 +329,14 @@ export const SalesRepTable = ({ data, loading, onDataChange }: SalesRepTableProp
           </tbody>
         </table>
       </div>
+
+      <ReassignRepCustomersDialog
+        rep={reassignRep}
+        salesReps={data}
+        customerCounts={customerCounts}
+        onOpenChange={open => !open && setReassignRep(null)}
+        onReassigned={() => onDataChange?.()}
+      />
     </div>
   );
 };
\ No newline at end of file
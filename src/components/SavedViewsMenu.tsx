@@ -0,0 +1,236 @@
+import React, { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Bookmark, ChevronDown, Link2, Loader2, RotateCcw, Save, Trash2, Users } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useRole } from '@/contexts/RoleContext';
+import { SavedView, SavedViewTable, TableViewState } from '@/types/savedView';
+import { createSavedView, deleteSavedView, getSavedViews, updateSavedView } from '@/services/savedViewService';
+import { isSameViewState } from '@/hooks/use-table-view-state';
+
+interface SavedViewsMenuProps {
+  table: SavedViewTable;
+  state: TableViewState;
+  onApply: (state: TableViewState) => void;
+}
+
+export const SavedViewsMenu = ({ table, state, onApply }: SavedViewsMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+  const { isClientAdmin } = useRole();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['saved_views', table];
+  const { data: views = [] } = useQuery({ queryKey, queryFn: () => getSavedViews(table) });
+
+  const currentView = views.find(view => isSameViewState(view.state, state));
+  const myViews = views.filter(view => view.user_id === user?.id && !view.is_shared);
+  const sharedViews = views.filter(view => view.is_shared);
+  const canManage = (view: SavedView) => view.user_id === user?.id || (view.is_shared && isClientAdmin);
+
+  const reload = () => queryClient.invalidateQueries({ queryKey });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await createSavedView(table, { name, state, is_shared: shared });
+    setSaving(false);
+
+    if (result.success) {
+      toast({ title: 'Success', description: `View "${name.trim()}" saved` });
+      setSaveOpen(false);
+      reload();
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to save view', variant: 'destructive' });
+    }
+  };
+
+  const handleUpdate = async (view: SavedView) => {
+    const result = await updateSavedView(view.id, { state });
+    if (result.success) {
+      toast({ title: 'Success', description: `View "${view.name}" updated` });
+      reload();
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to update view', variant: 'destructive' });
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    const result = await deleteSavedView(view.id);
+    if (result.success) {
+      reload();
+    } else {
+      toast({ title: 'Error', description: result.message || 'Failed to delete view', variant: 'destructive' });
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: 'Link Copied', description: 'Anyone in your team with access sees the same filters.' });
+    } catch {
+      toast({ title: 'Error', description: 'Failed to copy the link', variant: 'destructive' });
+    }
+  };
+
+  const viewList = (title: string, list: SavedView[]) =>
+    list.length > 0 && (
+      <div className="space-y-1">
+        <p className="px-2 text-xs font-medium text-muted-foreground">{title}</p>
+        {list.map(view => (
+          <div key={view.id} className="group flex items-center gap-1 rounded-md hover:bg-muted">
+            <button
+              type="button"
+              className={`flex-1 truncate px-2 py-1.5 text-left text-sm ${view.id === currentView?.id ? 'font-medium' : ''}`}
+              onClick={() => {
+                onApply(view.state);
+                setOpen(false);
+              }}
+            >
+              {view.name}
+            </button>
+            {canManage(view) && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                  title="Replace with the current filters and layout"
+                  disabled={view.id === currentView?.id}
+                  onClick={() => handleUpdate(view)}
+                >
+                  <Save className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 opacity-0 group-hover:opacity-100"
+                  title="Delete view"
+                  onClick={() => handleDelete(view)}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline">
+            <Bookmark className="h-4 w-4 mr-2" />
+            {currentView ? currentView.name : 'Views'}
+            <ChevronDown className="h-4 w-4 ml-2" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-72 space-y-3 p-2">
+          {views.length === 0 && (
+            <p className="px-2 py-1.5 text-sm text-muted-foreground">No saved views yet</p>
+          )}
+          {viewList('My views', myViews)}
+          {viewList('Shared with the team', sharedViews)}
+          <div className="space-y-1 border-t pt-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => {
+                setName('');
+                setShared(false);
+                setSaveOpen(true);
+                setOpen(false);
+              }}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save current view...
+            </Button>
+            <Button variant="ghost" size="sm" className="w-full justify-start" onClick={handleCopyLink}>
+              <Link2 className="h-4 w-4 mr-2" />
+              Copy link to this view
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => {
+                onApply({});
+                setOpen(false);
+              }}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset filters and layout
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Dialog open={saveOpen} onOpenChange={next => !saving && setSaveOpen(next)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current search, filters, sort order and columns.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                placeholder="e.g. Hot leads this month"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                disabled={saving}
+                required
+              />
+            </div>
+            {isClientAdmin && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="saved-view-shared"
+                  checked={shared}
+                  onCheckedChange={value => setShared(!!value)}
+                  disabled={saving}
+                />
+                <Label htmlFor="saved-view-shared" className="flex items-center gap-1 font-normal">
+                  <Users className="h-4 w-4" />
+                  Share with everyone in the team
+                </Label>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setSaveOpen(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !name.trim()}>
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
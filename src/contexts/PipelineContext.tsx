@@ -0,0 +1,57 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { PipelineStageConfig } from '@/types/pipeline';
+import { DEFAULT_PIPELINE_STAGES, findStage } from '@/lib/pipeline';
+import { getPipelineStages } from '@/services/pipelineService';
+
+interface PipelineContextType {
+  stages: PipelineStageConfig[];
+  loading: boolean;
+  reloadStages: () => Promise<void>;
+  getStage: (status: string | null | undefined) => PipelineStageConfig | undefined;
+}
+
+const PipelineContext = createContext<PipelineContextType | undefined>(undefined);
+
+export const usePipeline = () => {
+  const context = useContext(PipelineContext);
+  if (context === undefined) {
+    throw new Error('usePipeline must be used within a PipelineProvider');
+  }
+  return context;
+};
+
+// Loads the tenant's ordered pipeline stages. Falls back to the default stages
+// when the tenant has none yet or they cannot be loaded.
+export const PipelineProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const [stages, setStages] = useState<PipelineStageConfig[]>(DEFAULT_PIPELINE_STAGES);
+  const [loading, setLoading] = useState(true);
+
+  const reloadStages = useCallback(async () => {
+    if (!user) {
+      setStages(DEFAULT_PIPELINE_STAGES);
+      setLoading(false);
+      return;
+    }
+
+    const data = await getPipelineStages();
+    setStages(data.length > 0 ? data : DEFAULT_PIPELINE_STAGES);
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    reloadStages();
+  }, [reloadStages]);
+
+  const getStage = useCallback(
+    (status: string | null | undefined) => findStage(stages, status),
+    [stages]
+  );
+
+  return (
+    <PipelineContext.Provider value={{ stages, loading, reloadStages, getStage }}>
+      {children}
+    </PipelineContext.Provider>
+  );
+};
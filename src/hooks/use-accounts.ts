@@ -0,0 +1,21 @@
+import { useQuery } from '@tanstack/react-query';
+import { getAccounts, getAccountSummary } from '@/services/accountService';
+
+export const accountKeys = {
+  all: ['accounts'] as const,
+  list: ['accounts', 'list'] as const,
+  summary: ['accounts', 'summary'] as const,
+};
+
+// The tenant's accounts by name
+export const useAccounts = () =>
+  useQuery({
+    queryKey: accountKeys.list,
+    queryFn: getAccounts,
+  });
+
+export const useAccountSummary = () =>
+  useQuery({
+    queryKey: accountKeys.summary,
+    queryFn: getAccountSummary,
+  });
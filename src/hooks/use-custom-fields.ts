@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { getCustomFields } from '@/services/customFieldService';
+
+export const customFieldKeys = {
+  all: ['custom_fields'] as const,
+};
+
+// The tenant's custom fields in display order
+export const useCustomFields = () =>
+  useQuery({
+    queryKey: customFieldKeys.all,
+    queryFn: getCustomFields,
+  });
@@ -0,0 +1,150 @@
+import { useEffect, useRef } from 'react';
+import { keepPreviousData, QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Customer, CustomerPage, CustomerPageQuery, CustomerQuery } from '@/types/customer';
+import { getCustomersMatching, getCustomersPage, getCustomerStageSummary, mapFromDb } from '@/services/customerService';
+import { useCustomFields } from '@/hooks/use-custom-fields';
+import { RealtimeListener, RealtimePayload, RealtimeRow, useRealtimeChannel } from '@/hooks/use-realtime';
+
+// Every customer query sits under 'customers' so one invalidation refreshes them all
+export const customerKeys = {
+  all: ['customers'] as const,
+  pages: ['customers', 'page'] as const,
+  page: (query: CustomerPageQuery) => ['customers', 'page', query] as const,
+  lists: ['customers', 'list'] as const,
+  list: (query: CustomerQuery) => ['customers', 'list', query] as const,
+  summary: ['customers', 'summary'] as const,
+};
+
+// Realtime events arrive in bursts during imports and bulk actions
+const CHANGE_DEBOUNCE_MS = 500;
+
+// Keeps showing the previous page while the next one loads. Waits for the
+// custom fields, which filter conditions on them need.
+export const useCustomersPage = (query: CustomerPageQuery) => {
+  const { data: customFields } = useCustomFields();
+  return useQuery({
+    queryKey: customerKeys.page(query),
+    queryFn: () => getCustomersPage(query, customFields),
+    placeholderData: keepPreviousData,
+    enabled: !!customFields,
+  });
+};
+
+// The full list, for views that work on every matching customer at once
+export const useCustomerList = (query: CustomerQuery = {}, enabled = true) =>
+  useQuery({
+    queryKey: customerKeys.list(query),
+    queryFn: () => getCustomersMatching(query),
+    enabled,
+  });
+
+export const useCustomerStageSummary = () =>
+  useQuery({
+    queryKey: customerKeys.summary,
+    queryFn: getCustomerStageSummary,
+  });
+
+// Puts a saved customer into every cached page and list without a refetch
+export const setCachedCustomer = (queryClient: QueryClient, customer: Customer) => {
+  const replace = (c: Customer) => (c.id === customer.id ? customer : c);
+  queryClient.setQueriesData<CustomerPage>({ queryKey: customerKeys.pages }, page =>
+    page ? { ...page, customers: page.customers.map(replace) } : page
+  );
+  queryClient.setQueriesData<Customer[]>({ queryKey: customerKeys.lists }, list => list?.map(replace));
+};
+
+// Removes a deleted or reassigned customer from the cache; false when it was not cached
+const removeCachedCustomer = (queryClient: QueryClient, id: string): boolean => {
+  let found = false;
+  queryClient.setQueriesData<CustomerPage>({ queryKey: customerKeys.pages }, page => {
+    if (!page?.customers.some(c => c.id === id)) return page;
+    found = true;
+    return { customers: page.customers.filter(c => c.id !== id), total: page.total - 1 };
+  });
+  queryClient.setQueriesData<Customer[]>({ queryKey: customerKeys.lists }, list => {
+    if (!list?.some(c => c.id === id)) return list;
+    found = true;
+    return list.filter(c => c.id !== id);
+  });
+  return found;
+};
+
+// Adds, replaces or drops the customer in each cached list depending on whether
+// it still matches that list's query. Lists with a search are only patched.
+const applyCustomerToLists = (queryClient: QueryClient, customer: Customer) => {
+  queryClient.getQueriesData<Customer[]>({ queryKey: customerKeys.lists }).forEach(([key, list]) => {
+    if (!list) return;
+    const query = (key[2] ?? {}) as CustomerQuery;
+    const cached = list.some(c => c.id === customer.id);
+    const matches =
+      (!query.status || customer.status === query.status) &&
+      (!query.salesRepUserId || customer.sales_rep_user_id === query.salesRepUserId);
+
+    if (query.search || (matches && cached)) {
+      queryClient.setQueryData(key, list.map(c => (c.id === customer.id ? customer : c)));
+    } else if (matches) {
+      queryClient.setQueryData(key, [customer, ...list]);
+    } else if (cached) {
+      queryClient.setQueryData(key, list.filter(c => c.id !== customer.id));
+    }
+  });
+};
+
+interface CustomerChangesOptions {
+  filter?: string; // server-side filter on inserts and updates, e.g. 'client_id=eq.<tenant>'
+  ownerUserId?: string; // for a rep's own channel: drop customers reassigned to someone else
+  enabled?: boolean;
+}
+
+// Applies realtime changes to the cached customers. Lists take the payload as
+// is; pages and stage counts depend on rows the payload does not describe, so
+// they are refetched once a burst of changes (an import, a bulk action) settles.
+export const useCustomerChanges = (
+  channelName: string,
+  { filter, ownerUserId, enabled = true }: CustomerChangesOptions = {}
+) => {
+  const queryClient = useQueryClient();
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  const refetchPagesAndSummary = () => {
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => {
+      queryClient.invalidateQueries({ queryKey: customerKeys.pages });
+      queryClient.invalidateQueries({ queryKey: customerKeys.summary });
+    }, CHANGE_DEBOUNCE_MS);
+  };
+
+  const applyChange = (payload: RealtimePayload) => {
+    const customer = mapFromDb(payload.new);
+    setCachedCustomer(queryClient, customer);
+    applyCustomerToLists(queryClient, customer);
+    refetchPagesAndSummary();
+  };
+
+  // Delete events reach every subscriber with only the id, so ones for
+  // customers this client never loaded are ignored
+  const applyRemoval = (id: unknown) => {
+    if (typeof id === 'string' && removeCachedCustomer(queryClient, id)) refetchPagesAndSummary();
+  };
+
+  const listeners: RealtimeListener[] = [
+    { table: 'customers', event: 'INSERT', filter, onChange: applyChange },
+    { table: 'customers', event: 'UPDATE', filter, onChange: applyChange },
+    { table: 'customers', event: 'DELETE', onChange: payload => applyRemoval((payload.old as RealtimeRow).id) },
+  ];
+  if (ownerUserId) {
+    listeners.push({
+      table: 'customer_ownership_history',
+      event: 'INSERT',
+      filter: `from_user_id=eq.${ownerUserId}`,
+      onChange: payload => applyRemoval((payload.new as RealtimeRow).customer_id),
+    });
+  }
+
+  useRealtimeChannel(channelName, listeners, {
+    enabled,
+    onResync: () => queryClient.invalidateQueries({ queryKey: customerKeys.all }),
+  });
+};
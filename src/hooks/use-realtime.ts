@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export type RealtimeRow = Record<string, unknown>;
+export type RealtimePayload = RealtimePostgresChangesPayload<RealtimeRow>;
+
+export interface RealtimeListener {
+  table: string;
+  event: 'INSERT' | 'UPDATE' | 'DELETE' | '*';
+  filter?: string; // e.g. 'client_id=eq.<uuid>'; the server never filters DELETE events
+  onChange: (payload: RealtimePayload) => void;
+}
+
+interface RealtimeChannelOptions {
+  enabled?: boolean;
+  // Called when the channel comes back after a drop, as events may have been missed
+  onResync?: () => void;
+}
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+// One channel for all listeners. A channel that errors or times out is
+// replaced with a fresh one, backing off up to 30 seconds between attempts.
+export const useRealtimeChannel = (
+  channelName: string,
+  listeners: RealtimeListener[],
+  { enabled = true, onResync }: RealtimeChannelOptions = {}
+) => {
+  // Handlers change every render; only the tables, events and filters resubscribe
+  const handlers = useRef({ listeners, onResync });
+  handlers.current = { listeners, onResync };
+  const bindings = listeners.map(({ table, event, filter }) => `${table}:${event}:${filter ?? ''}`).join('|');
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let channel: RealtimeChannel | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let subscribedBefore = false;
+    let stopped = false;
+
+    const subscribe = () => {
+      const next = supabase.channel(channelName);
+      channel = next;
+
+      handlers.current.listeners.forEach(({ table, event, filter }, index) => {
+        next.on(
+          'postgres_changes',
+          // Typed as '*' so the one overload covers every event
+          { event: event as '*', schema: 'public', table, ...(filter && event !== 'DELETE' ? { filter } : {}) },
+          (payload: RealtimePayload) => handlers.current.listeners[index]?.onChange(payload)
+        );
+      });
+
+      next.subscribe(status => {
+        if (stopped) return;
+
+        if (status === 'SUBSCRIBED') {
+          if (subscribedBefore) handlers.current.onResync?.();
+          subscribedBefore = true;
+          attempts = 0;
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          console.error(`Realtime channel ${channelName} ${status}, reconnecting...`);
+          supabase.removeChannel(next);
+          channel = null;
+          clearTimeout(retryTimer);
+          retryTimer = setTimeout(subscribe, Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempts++));
+        }
+      });
+    };
+
+    subscribe();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [channelName, bindings, enabled]);
+};
@@ -0,0 +1,46 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { SalesRep } from '@/types/salesRep';
+import { getSalesReps } from '@/services/salesRepService';
+import { RealtimePayload, RealtimeRow, useRealtimeChannel } from '@/hooks/use-realtime';
+
+export const salesRepKeys = {
+  all: ['sales_reps'] as const,
+};
+
+export const useSalesReps = () =>
+  useQuery({
+    queryKey: salesRepKeys.all,
+    queryFn: getSalesReps,
+  });
+
+// Applies realtime changes to the tenant's sales reps in the cache; the list is
+// small and fully loaded, so every payload can be applied without a refetch
+export const useSalesRepChanges = (tenantId: string | null | undefined) => {
+  const queryClient = useQueryClient();
+
+  const applyChange = (payload: RealtimePayload) => {
+    const rep = payload.new as unknown as SalesRep;
+    queryClient.setQueryData<SalesRep[]>(salesRepKeys.all, reps =>
+      reps?.some(r => r.id === rep.id) ? reps.map(r => (r.id === rep.id ? rep : r)) : reps && [rep, ...reps]
+    );
+  };
+
+  const applyRemoval = (payload: RealtimePayload) => {
+    const { id } = payload.old as RealtimeRow;
+    queryClient.setQueryData<SalesRep[]>(salesRepKeys.all, reps => reps?.filter(r => r.id !== id));
+  };
+
+  const filter = `client_id=eq.${tenantId}`;
+  useRealtimeChannel(
+    'sales-reps-changes',
+    [
+      { table: 'sales_reps', event: 'INSERT', filter, onChange: applyChange },
+      { table: 'sales_reps', event: 'UPDATE', filter, onChange: applyChange },
+      { table: 'sales_reps', event: 'DELETE', onChange: applyRemoval },
+    ],
+    {
+      enabled: !!tenantId,
+      onResync: () => queryClient.invalidateQueries({ queryKey: salesRepKeys.all }),
+    }
+  );
+};
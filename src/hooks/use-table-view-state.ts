@@ -0,0 +1,118 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { OPERATOR_LABELS } from '@/lib/customerFilters';
+import { SavedViewTable, TableFilter, TableSort, TableViewState } from '@/types/savedView';
+import { FilterCondition, FilterGroup } from '@/types/filter';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFilter = (value: unknown): value is TableFilter =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.value === 'string';
+
+const isSort = (value: unknown): value is TableSort =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.desc === 'boolean';
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+const isCondition = (value: unknown): value is FilterCondition =>
+  isRecord(value)
+  && typeof value.id === 'string'
+  && typeof value.field === 'string'
+  && typeof value.operator === 'string'
+  && value.operator in OPERATOR_LABELS
+  && isOptionalString(value.value)
+  && isOptionalString(value.valueTo)
+  && (value.values === undefined || (Array.isArray(value.values) && value.values.every(item => typeof item === 'string')));
+
+// Keeps the well-formed conditions of a filter builder group, nested groups included
+const toFilterGroup = (value: unknown): FilterGroup | undefined => {
+  if (!isRecord(value) || typeof value.id !== 'string' || !Array.isArray(value.conditions)) return undefined;
+  if (value.combinator !== 'and' && value.combinator !== 'or') return undefined;
+
+  const conditions = value.conditions.flatMap((item): (FilterCondition | FilterGroup)[] => {
+    if (isRecord(item) && 'conditions' in item) {
+      const group = toFilterGroup(item);
+      return group ? [group] : [];
+    }
+    return isCondition(item) ? [item] : [];
+  });
+  return { id: value.id, combinator: value.combinator, conditions };
+};
+
+// Drops empty parts so an untouched table leaves no trace in the URL, and
+// malformed ones since the state may come from a hand-edited link
+const compact = (state: TableViewState): TableViewState => {
+  const next: TableViewState = {};
+  if (typeof state.search === 'string' && state.search.trim()) next.search = state.search;
+
+  const filters = Array.isArray(state.filters) ? state.filters.filter(isFilter) : [];
+  if (filters.length) next.filters = filters;
+
+  const sorting = Array.isArray(state.sorting) ? state.sorting.filter(isSort) : [];
+  if (sorting.length) next.sorting = sorting;
+
+  const advancedFilter = toFilterGroup(state.advancedFilter);
+  if (advancedFilter?.conditions.length) next.advancedFilter = advancedFilter;
+
+  const columnVisibility = isRecord(state.columnVisibility)
+    ? Object.fromEntries(Object.entries(state.columnVisibility).filter(([, visible]) => typeof visible === 'boolean'))
+    : {};
+  if (Object.values(columnVisibility).some(visible => !visible)) next.columnVisibility = columnVisibility;
+
+  const columnOrder = Array.isArray(state.columnOrder)
+    ? state.columnOrder.filter(id => typeof id === 'string')
+    : [];
+  if (columnOrder.length) next.columnOrder = columnOrder;
+
+  if (Number.isInteger(state.pageSize) && state.pageSize > 0) next.pageSize = state.pageSize;
+  return next;
+};
+
+export const parseViewState = (raw: string | null): TableViewState => {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return isRecord(parsed) ? compact(parsed) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const isSameViewState = (a: TableViewState, b: TableViewState) =>
+  JSON.stringify(compact(a)) === JSON.stringify(compact(b));
+
+export const getFilterValue = (state: TableViewState, id: string): string | undefined =>
+  state.filters?.find(filter => filter.id === id)?.value;
+
+// Sets or, with no value, clears the filter on one column
+export const withFilter = (state: TableViewState, id: string, value: string | undefined): TableViewState => ({
+  ...state,
+  filters: [...(state.filters ?? []).filter(filter => filter.id !== id), ...(value ? [{ id, value }] : [])],
+});
+
+// A table's view state lives in one URL parameter named after the table, e.g.
+// ?customers={"search":"acme"}, so reloading keeps it and the link shares it
+export const useTableViewState = (table: SavedViewTable) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const raw = searchParams.get(table);
+  const state = useMemo(() => parseViewState(raw), [raw]);
+
+  const setState = useCallback(
+    (update: TableViewState | ((prev: TableViewState) => TableViewState)) => {
+      setSearchParams(
+        prev => {
+          const next = new URLSearchParams(prev);
+          const value = compact(typeof update === 'function' ? update(parseViewState(prev.get(table))) : update);
+          if (Object.keys(value).length) next.set(table, JSON.stringify(value));
+          else next.delete(table);
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams, table]
+  );
+
+  return [state, setState] as const;
+};
@@ -14,6 +14,123 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          created_at: string
+          domain: string | null
+          id: string
+          industry: string | null
+          name: string
+          size: string | null
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          domain?: string | null
+          id?: string
+          industry?: string | null
+          name: string
+          size?: string | null
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string | null
+          id?: string
+          industry?: string | null
+          name?: string
+          size?: string | null
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "accounts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      activities: {
+        Row: {
+          body: string | null
+          completed_at: string | null
+          created_at: string
+          customer_id: string
+          due_at: string | null
+          id: string
+          occurred_at: string
+          outcome: string | null
+          overdue_at: string | null
+          sales_rep_id: string | null
+          subject: string
+          tenant_id: string | null
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          completed_at?: string | null
+          created_at?: string
+          customer_id: string
+          due_at?: string | null
+          id?: string
+          occurred_at?: string
+          outcome?: string | null
+          overdue_at?: string | null
+          sales_rep_id?: string | null
+          subject: string
+          tenant_id?: string | null
+          type: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          body?: string | null
+          completed_at?: string | null
+          created_at?: string
+          customer_id?: string
+          due_at?: string | null
+          id?: string
+          occurred_at?: string
+          outcome?: string | null
+          overdue_at?: string | null
+          sales_rep_id?: string | null
+          subject?: string
+          tenant_id?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "activities_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_sales_rep_id_fkey"
+            columns: ["sales_rep_id"]
+            isOneToOne: false
+            referencedRelation: "sales_reps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "activities_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -112,53 +229,626 @@ export type Database = {
         }
         Relationships: []
       }
+      custom_field_definitions: {
+        Row: {
+          created_at: string
+          field_type: string
+          id: string
+          key: string
+          label: string
+          options: string[]
+          position: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          field_type: string
+          id?: string
+          key: string
+          label: string
+          options?: string[]
+          position?: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          field_type?: string
+          id?: string
+          key?: string
+          label?: string
+          options?: string[]
+          position?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "custom_field_definitions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_merges: {
+        Row: {
+          created_at: string
+          id: string
+          merged_by: string | null
+          merged_customer_id: string
+          merged_data: Json
+          merged_workflow: Json | null
+          primary_customer_id: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          merged_by?: string | null
+          merged_customer_id: string
+          merged_data: Json
+          merged_workflow?: Json | null
+          primary_customer_id: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          merged_by?: string | null
+          merged_customer_id?: string
+          merged_data?: Json
+          merged_workflow?: Json | null
+          primary_customer_id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_merges_primary_customer_id_fkey"
+            columns: ["primary_customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_merges_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_ownership_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          customer_id: string
+          from_rep_name: string | null
+          from_sales_rep_id: string | null
+          from_user_id: string | null
+          id: string
+          tenant_id: string | null
+          to_rep_name: string | null
+          to_sales_rep_id: string | null
+          to_user_id: string
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          customer_id: string
+          from_rep_name?: string | null
+          from_sales_rep_id?: string | null
+          from_user_id?: string | null
+          id?: string
+          tenant_id?: string | null
+          to_rep_name?: string | null
+          to_sales_rep_id?: string | null
+          to_user_id: string
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          customer_id?: string
+          from_rep_name?: string | null
+          from_sales_rep_id?: string | null
+          from_user_id?: string | null
+          id?: string
+          tenant_id?: string | null
+          to_rep_name?: string | null
+          to_sales_rep_id?: string | null
+          to_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_ownership_history_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_ownership_history_from_sales_rep_id_fkey"
+            columns: ["from_sales_rep_id"]
+            isOneToOne: false
+            referencedRelation: "sales_reps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_ownership_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_ownership_history_to_sales_rep_id_fkey"
+            columns: ["to_sales_rep_id"]
+            isOneToOne: false
+            referencedRelation: "sales_reps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          customer_id: string
+          from_status: string | null
+          id: string
+          tenant_id: string | null
+          to_status: string | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          customer_id: string
+          from_status?: string | null
+          id?: string
+          tenant_id?: string | null
+          to_status?: string | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          customer_id?: string
+          from_status?: string | null
+          id?: string
+          tenant_id?: string | null
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_status_history_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_status_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
+          account_id: string | null
           client_id: string | null
           created_at: string
+          custom_fields: Json
+          deal_amount: number | null
+          deal_currency: string
+          deal_probability: number | null
           email: string
+          expected_close_date: string | null
           first_name: string
           id: string
+          import_job_id: string | null
           last_name: string
           notes: string | null
           phone_no: string
+          routing_reason: string | null
+          routing_rule_id: string | null
           sales_rep_id: string | null
           sales_rep_user_id: string
+          search_vector: unknown
           source: string
           status: string | null
+          status_changed_at: string
           updated_at: string
+          workflow_status: string | null
         }
         Insert: {
+          account_id?: string | null
           client_id?: string | null
           created_at?: string
+          custom_fields?: Json
+          deal_amount?: number | null
+          deal_currency?: string
+          deal_probability?: number | null
           email: string
+          expected_close_date?: string | null
           first_name: string
           id?: string
+          import_job_id?: string | null
           last_name: string
           notes?: string | null
           phone_no: string
+          routing_reason?: string | null
+          routing_rule_id?: string | null
           sales_rep_id?: string | null
           sales_rep_user_id: string
+          search_vector?: never
           source: string
           status?: string | null
+          status_changed_at?: string
           updated_at?: string
+          workflow_status?: string | null
         }
         Update: {
+          account_id?: string | null
           client_id?: string | null
           created_at?: string
+          custom_fields?: Json
+          deal_amount?: number | null
+          deal_currency?: string
+          deal_probability?: number | null
           email?: string
+          expected_close_date?: string | null
           first_name?: string
           id?: string
+          import_job_id?: string | null
           last_name?: string
           notes?: string | null
           phone_no?: string
+          routing_reason?: string | null
+          routing_rule_id?: string | null
           sales_rep_id?: string | null
           sales_rep_user_id?: string
+          search_vector?: never
           source?: string
           status?: string | null
+          status_changed_at?: string
           updated_at?: string
+          workflow_status?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "customers_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_import_job_id_fkey"
+            columns: ["import_job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customers_routing_rule_id_fkey"
+            columns: ["routing_rule_id"]
+            isOneToOne: false
+            referencedRelation: "lead_routing_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_column_mappings: {
+        Row: {
+          created_at: string
+          id: string
+          mapping: Json
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          tenant_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          mapping?: Json
+          tenant_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_column_mappings_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: true
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_job_changes: {
+        Row: {
+          change_type: string
+          created_at: string
+          customer_id: string
+          id: string
+          job_id: string
+          previous_data: Json | null
+        }
+        Insert: {
+          change_type: string
+          created_at?: string
+          customer_id: string
+          id?: string
+          job_id: string
+          previous_data?: Json | null
+        }
+        Update: {
+          change_type?: string
+          created_at?: string
+          customer_id?: string
+          id?: string
+          job_id?: string
+          previous_data?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_changes_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          chunk_size: number
+          completed_at: string | null
+          created_at: string
+          errors: Json
+          failed_count: number
+          file_name: string
+          file_path: string
+          id: string
+          inserted_count: number
+          last_error: string | null
+          mapping: Json
+          next_chunk: number
+          processed_rows: number
+          reverted_at: string | null
+          rows_path: string | null
+          skipped_count: number
+          staged_rows: number
+          status: string
+          tenant_id: string
+          total_rows: number
+          updated_at: string
+          updated_count: number
+          user_id: string
+        }
+        Insert: {
+          chunk_size?: number
+          completed_at?: string | null
+          created_at?: string
+          errors?: Json
+          failed_count?: number
+          file_name: string
+          file_path: string
+          id?: string
+          inserted_count?: number
+          last_error?: string | null
+          mapping?: Json
+          next_chunk?: number
+          processed_rows?: number
+          reverted_at?: string | null
+          rows_path?: string | null
+          skipped_count?: number
+          staged_rows?: number
+          status?: string
+          tenant_id: string
+          total_rows?: number
+          updated_at?: string
+          updated_count?: number
+          user_id: string
+        }
+        Update: {
+          chunk_size?: number
+          completed_at?: string | null
+          created_at?: string
+          errors?: Json
+          failed_count?: number
+          file_name?: string
+          file_path?: string
+          id?: string
+          inserted_count?: number
+          last_error?: string | null
+          mapping?: Json
+          next_chunk?: number
+          processed_rows?: number
+          reverted_at?: string | null
+          rows_path?: string | null
+          skipped_count?: number
+          staged_rows?: number
+          status?: string
+          tenant_id?: string
+          total_rows?: number
+          updated_at?: string
+          updated_count?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_jobs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_routing_rules: {
+        Row: {
+          created_at: string
+          id: string
+          is_active: boolean
+          last_assigned_sales_rep_id: string | null
+          match_phone_prefix: string | null
+          match_source: string | null
+          name: string
+          position: number
+          sales_rep_ids: string[]
+          strategy: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_sales_rep_id?: string | null
+          match_phone_prefix?: string | null
+          match_source?: string | null
+          name: string
+          position?: number
+          sales_rep_ids?: string[]
+          strategy?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_assigned_sales_rep_id?: string | null
+          match_phone_prefix?: string | null
+          match_source?: string | null
+          name?: string
+          position?: number
+          sales_rep_ids?: string[]
+          strategy?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_routing_rules_last_assigned_sales_rep_id_fkey"
+            columns: ["last_assigned_sales_rep_id"]
+            isOneToOne: false
+            referencedRelation: "sales_reps"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_routing_rules_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          tenant_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          tenant_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          tenant_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pipeline_stages: {
+        Row: {
+          color: string
+          created_at: string
+          id: string
+          is_lost: boolean
+          is_won: boolean
+          key: string
+          name: string
+          position: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_lost?: boolean
+          is_won?: boolean
+          key: string
+          name: string
+          position?: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          id?: string
+          is_lost?: boolean
+          is_won?: boolean
+          key?: string
+          name?: string
+          position?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stages_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -237,6 +927,50 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_views: {
+        Row: {
+          created_at: string
+          id: string
+          is_shared: boolean
+          name: string
+          state: Json
+          table_key: string
+          tenant_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name: string
+          state?: Json
+          table_key: string
+          tenant_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_shared?: boolean
+          name?: string
+          state?: Json
+          table_key?: string
+          tenant_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_views_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_client_mapping: {
         Row: {
           client_id: string | null
@@ -373,10 +1107,51 @@ export type Database = {
         Args: { company_name?: string; user_email: string }
         Returns: string
       }
+      delete_custom_field: {
+        Args: { _field_id: string }
+        Returns: number
+      }
+      distribute_customers: {
+        Args: { _customer_ids: string[]; _sales_rep_ids: string[] }
+        Returns: {
+          reassigned: number
+          skipped_emails: string[]
+        }[]
+      }
       ensure_user_client: {
         Args: { p_client_name?: string; p_google_sheet_id?: string }
         Returns: string
       }
+      get_account_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          account_id: string
+          customer_count: number
+          status: string
+          workflow_status: string
+        }[]
+      }
+      get_assignable_sales_reps: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          first_name: string
+          id: string
+          last_name: string
+          user_id: string
+        }[]
+      }
+      get_customer_stage_summary: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          customer_count: number
+          deal_count: number
+          deal_currency: string
+          deal_total: number
+          sales_rep_user_id: string
+          status: string
+          weighted_total: number
+        }[]
+      }
       get_user_client_id: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -396,6 +1171,33 @@ export type Database = {
         }
         Returns: boolean
       }
+      merge_customers: {
+        Args: { _duplicate_ids: string[]; _fields?: Json; _primary_id: string }
+        Returns: string
+      }
+      reassign_customers: {
+        Args: { _customer_ids: string[]; _sales_rep_id: string }
+        Returns: {
+          reassigned: number
+          skipped_emails: string[]
+        }[]
+      }
+      route_lead: {
+        Args: { _phone: string; _source: string; _tenant_id: string }
+        Returns: {
+          reason: string
+          rule_id: string
+          sales_rep_id: string
+          user_id: string
+        }[]
+      }
+      undo_import_job: {
+        Args: { _job_id: string }
+        Returns: {
+          reverted: number
+          skipped: number
+        }[]
+      }
     }
     Enums: {
       app_role: "client_admin" | "sales_rep"
@@ -0,0 +1,38 @@
+import { AccountSize, AccountSummaryRow } from '@/types/account';
+
+export const ACCOUNT_SIZES: AccountSize[] = ['1-10', '11-50', '51-200', '201-1000', '1000+'];
+
+// Key for contacts whose workflow has not started
+export const NOT_STARTED = 'not started';
+
+export interface AccountTotals {
+  contacts: number;
+  byStatus: Record<string, number>; // by pipeline stage key
+  byWorkflow: Record<string, number>; // by workflow status, NOT_STARTED included
+}
+
+// Reduces "https://www.Acme.com/about" or "jane@acme.com" to "acme.com"
+export const toAccountDomain = (input: string): string =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/^.*@/, '')
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/[/?#:].*$/, '');
+
+export const emptyAccountTotals = (): AccountTotals => ({ contacts: 0, byStatus: {}, byWorkflow: {} });
+
+export const getAccountTotals = (rows: AccountSummaryRow[]): Map<string, AccountTotals> => {
+  const totals = new Map<string, AccountTotals>();
+  rows.forEach(row => {
+    const account = totals.get(row.account_id) ?? emptyAccountTotals();
+    const status = row.status || '';
+    const workflow = row.workflow_status || NOT_STARTED;
+    account.contacts += row.customer_count;
+    account.byStatus[status] = (account.byStatus[status] || 0) + row.customer_count;
+    account.byWorkflow[workflow] = (account.byWorkflow[workflow] || 0) + row.customer_count;
+    totals.set(row.account_id, account);
+  });
+  return totals;
+};
@@ -0,0 +1,98 @@
+import { format, isValid, parse, parseISO } from 'date-fns';
+import { CustomField, CustomFieldType, CustomFieldValue, CustomFieldValues } from '@/types/customField';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Select',
+  boolean: 'Yes / No',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Date formats accepted from imports and webhooks besides ISO
+const DATE_FORMATS = ['dd/MM/yyyy', 'MM/dd/yyyy', 'd MMM yyyy', 'MMM d, yyyy'];
+
+// Derives a key such as "product_interest" from a label; keys start with a letter
+export const toCustomFieldKey = (label: string): string => {
+  const key = label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(key) ? `field_${key}` : key;
+};
+
+const parseDate = (value: string): Date | null => {
+  const iso = parseISO(value);
+  if (isValid(iso)) return iso;
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(value, pattern, new Date());
+    if (isValid(date)) return date;
+  }
+  return null;
+};
+
+// Turns text typed in a cell or read from an import into the stored value.
+// Empty text clears the field (value undefined).
+export const parseCustomFieldValue = (
+  field: CustomField,
+  raw: string
+): { value?: CustomFieldValue; error?: string } => {
+  const text = raw.trim();
+  if (!text) return {};
+
+  switch (field.field_type) {
+    case 'number': {
+      const number = Number(text.replace(/[\s,]/g, ''));
+      return Number.isFinite(number) ? { value: number } : { error: `${field.label} must be a number` };
+    }
+    case 'date': {
+      const date = parseDate(text);
+      return date ? { value: format(date, 'yyyy-MM-dd') } : { error: `${field.label} must be a date` };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { error: `${field.label} must be yes or no` };
+    }
+    case 'select': {
+      const option = field.options.find(choice => choice.toLowerCase() === text.toLowerCase());
+      return option
+        ? { value: option }
+        : { error: `${field.label} must be one of: ${field.options.join(', ')}` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+export const formatCustomFieldValue = (field: CustomField, value: CustomFieldValue | undefined): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (field.field_type === 'boolean') return value ? 'Yes' : 'No';
+  if (field.field_type === 'date' && typeof value === 'string') {
+    const date = parseISO(value);
+    return isValid(date) ? format(date, 'MMM d, yyyy') : value;
+  }
+  return String(value);
+};
+
+// Text for editing a value; the inverse of parseCustomFieldValue
+export const toCustomFieldInput = (field: CustomField, value: CustomFieldValue | undefined): string => {
+  if (value === undefined || value === null) return '';
+  if (field.field_type === 'boolean') return value ? 'true' : 'false';
+  return String(value);
+};
+
+// Sets one value, dropping the key when the value is cleared
+export const withCustomFieldValue = (
+  values: CustomFieldValues | undefined,
+  key: string,
+  value: CustomFieldValue | undefined
+): CustomFieldValues => {
+  const { [key]: _previous, ...rest } = values ?? {};
+  return value === undefined ? rest : { ...rest, [key]: value };
+};
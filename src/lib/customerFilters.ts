@@ -0,0 +1,234 @@
+import { addDays, format, isValid, parseISO, startOfDay } from 'date-fns';
+import { FilterCondition, FilterGroup, FilterOperator } from '@/types/filter';
+import { CustomField } from '@/types/customField';
+
+export type FilterFieldType = 'text' | 'choice' | 'number' | 'date';
+
+export interface FilterField {
+  key: string; // customers column, or custom_fields.<key> for a custom field
+  label: string;
+  type: FilterFieldType;
+  column?: string; // PostgREST column expression when it differs from the key
+  nullable?: boolean;
+  hasTime?: boolean; // timestamp column; dates are read as whole days in the user's time zone
+  choices?: { value: string; label: string }[]; // fixed choices of a choice field
+}
+
+// Choice value that matches customers with no value in the column, e.g. no workflow yet
+export const NO_VALUE = '__none__';
+
+export const CUSTOMER_FILTER_FIELDS: FilterField[] = [
+  { key: 'first_name', label: 'First name', type: 'text' },
+  { key: 'last_name', label: 'Last name', type: 'text' },
+  { key: 'email', label: 'Email', type: 'text' },
+  { key: 'phone_no', label: 'Phone', type: 'text' },
+  { key: 'source', label: 'Source', type: 'text' },
+  { key: 'notes', label: 'Notes', type: 'text', nullable: true },
+  { key: 'status', label: 'Stage', type: 'choice', nullable: true },
+  { key: 'workflow_status', label: 'Workflow status', type: 'choice', nullable: true },
+  { key: 'sales_rep_user_id', label: 'Assigned rep', type: 'choice' },
+  { key: 'account_id', label: 'Account', type: 'choice', nullable: true },
+  { key: 'deal_amount', label: 'Deal amount', type: 'number', nullable: true },
+  { key: 'deal_probability', label: 'Deal probability (%)', type: 'number', nullable: true },
+  { key: 'expected_close_date', label: 'Expected close date', type: 'date', nullable: true },
+  { key: 'created_at', label: 'Created', type: 'date', hasTime: true },
+];
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  contains: 'contains',
+  equals: 'is',
+  not_equals: 'is not',
+  in: 'is any of',
+  not_in: 'is none of',
+  before: 'is before',
+  after: 'is after',
+  between: 'is between',
+  greater_than: 'is more than',
+  less_than: 'is less than',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+const OPERATORS_BY_TYPE: Record<FilterFieldType, FilterOperator[]> = {
+  text: ['contains', 'equals', 'not_equals', 'is_empty', 'is_not_empty'],
+  choice: ['in', 'not_in'],
+  number: ['equals', 'greater_than', 'less_than', 'between', 'is_empty', 'is_not_empty'],
+  date: ['between', 'before', 'after', 'is_empty', 'is_not_empty'],
+};
+
+// Custom field values are JSON: ->> compares them as text, -> keeps numbers numeric
+const toCustomFilterField = (field: CustomField): FilterField => {
+  const base = { key: `custom_fields.${field.key}`, label: field.label, nullable: true };
+  const path = `custom_fields->>${field.key}`;
+
+  switch (field.field_type) {
+    case 'number':
+      return { ...base, type: 'number', column: `custom_fields->${field.key}` };
+    case 'date':
+      return { ...base, type: 'date', column: path };
+    case 'select':
+      return {
+        ...base,
+        type: 'choice',
+        column: path,
+        choices: [...field.options.map(option => ({ value: option, label: option })), { value: NO_VALUE, label: 'Not set' }],
+      };
+    case 'boolean':
+      return {
+        ...base,
+        type: 'choice',
+        column: path,
+        choices: [
+          { value: 'true', label: 'Yes' },
+          { value: 'false', label: 'No' },
+          { value: NO_VALUE, label: 'Not set' },
+        ],
+      };
+    default:
+      return { ...base, type: 'text', column: path };
+  }
+};
+
+export const getCustomerFilterFields = (customFields: CustomField[] = []): FilterField[] => [
+  ...CUSTOMER_FILTER_FIELDS,
+  ...customFields.map(toCustomFilterField),
+];
+
+export const getFilterField = (key: string, fields = CUSTOMER_FILTER_FIELDS): FilterField | undefined =>
+  fields.find(field => field.key === key);
+
+// Text can always be blank; other columns can only be empty when they allow NULL
+export const getFilterOperators = (field: FilterField): FilterOperator[] =>
+  OPERATORS_BY_TYPE[field.type].filter(
+    operator => field.type === 'text' || field.nullable || (operator !== 'is_empty' && operator !== 'is_not_empty')
+  );
+
+export const isFilterGroup = (item: FilterCondition | FilterGroup): item is FilterGroup => 'conditions' in item;
+
+export const createFilterCondition = (
+  fieldKey = CUSTOMER_FILTER_FIELDS[0].key,
+  fields = CUSTOMER_FILTER_FIELDS
+): FilterCondition => {
+  const field = getFilterField(fieldKey, fields) ?? fields[0];
+  return { id: crypto.randomUUID(), field: field.key, operator: getFilterOperators(field)[0] };
+};
+
+export const createFilterGroup = (withCondition = false): FilterGroup => ({
+  id: crypto.randomUUID(),
+  combinator: 'and',
+  conditions: withCondition ? [createFilterCondition()] : [],
+});
+
+export const isFilterConditionComplete = (condition: FilterCondition): boolean => {
+  switch (condition.operator) {
+    case 'is_empty':
+    case 'is_not_empty':
+      return true;
+    case 'in':
+    case 'not_in':
+      return !!condition.values?.length;
+    case 'between':
+      return !!condition.value?.trim() && !!condition.valueTo?.trim();
+    default:
+      return !!condition.value?.trim();
+  }
+};
+
+// Complete conditions in the group and its subgroups; unfinished ones are ignored
+export const countFilterConditions = (group: FilterGroup | undefined): number =>
+  (group?.conditions ?? []).reduce(
+    (count, item) =>
+      count + (isFilterGroup(item) ? countFilterConditions(item) : isFilterConditionComplete(item) ? 1 : 0),
+    0
+  );
+
+// PostgREST logic trees separate conditions with commas and nest with
+// parentheses, so every value is double-quoted
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// ilike treats % and _ as wildcards; PostgREST turns * into %
+const toLikePattern = (value: string, partial: boolean) => {
+  const escaped = value.trim().replace(/[\\%_]/g, '\\$&');
+  return quote(partial ? `*${escaped}*` : escaped);
+};
+
+const dayStart = (field: FilterField, day: string) =>
+  field.hasTime ? startOfDay(parseISO(day)).toISOString() : day;
+
+const nextDayStart = (field: FilterField, day: string) => {
+  const next = addDays(startOfDay(parseISO(day)), 1);
+  return field.hasTime ? next.toISOString() : format(next, 'yyyy-MM-dd');
+};
+
+const toChoiceExpression = (column: string, values: string[], negate: boolean, nullable: boolean) => {
+  const listed = values.filter(value => value !== NO_VALUE);
+  const includesNone = values.includes(NO_VALUE);
+  const list = listed.length ? `(${listed.map(quote).join(',')})` : null;
+
+  if (!negate) {
+    const parts = [list && `${column}.in.${list}`, includesNone && `${column}.is.null`].filter(Boolean);
+    return parts.length > 1 ? `or(${parts.join(',')})` : parts[0];
+  }
+  // NOT IN never matches NULL, so customers without a value are added back unless excluded
+  const parts = [list && `${column}.not.in.${list}`, includesNone && `${column}.not.is.null`].filter(Boolean);
+  if (nullable && !includesNone) return `or(${column}.is.null,${parts[0]})`;
+  return parts.length > 1 ? `and(${parts.join(',')})` : parts[0];
+};
+
+const toConditionExpression = (condition: FilterCondition, fields: FilterField[]): string | null => {
+  const field = getFilterField(condition.field, fields);
+  if (!field || !getFilterOperators(field).includes(condition.operator) || !isFilterConditionComplete(condition)) {
+    return null;
+  }
+
+  const column = field.column ?? field.key;
+  const value = condition.value?.trim() ?? '';
+  const valueTo = condition.valueTo?.trim() ?? '';
+  // Hand-edited links can carry values the column would reject
+  const bounds = [value, valueTo].filter(Boolean);
+  if (field.type === 'date' && bounds.some(day => !isValid(parseISO(day)))) return null;
+  if (field.type === 'number' && bounds.some(number => Number.isNaN(Number(number)))) return null;
+
+  switch (condition.operator) {
+    case 'contains':
+      return `${column}.ilike.${toLikePattern(value, true)}`;
+    case 'equals':
+      return field.type === 'text' ? `${column}.ilike.${toLikePattern(value, false)}` : `${column}.eq.${quote(value)}`;
+    case 'not_equals':
+      return field.nullable
+        ? `or(${column}.is.null,${column}.not.ilike.${toLikePattern(value, false)})`
+        : `${column}.not.ilike.${toLikePattern(value, false)}`;
+    case 'in':
+    case 'not_in':
+      return toChoiceExpression(column, condition.values ?? [], condition.operator === 'not_in', !!field.nullable);
+    case 'before':
+      return `${column}.lt.${quote(dayStart(field, value))}`;
+    case 'after':
+      return `${column}.gte.${quote(nextDayStart(field, value))}`;
+    case 'between':
+      return field.type === 'date'
+        ? `and(${column}.gte.${quote(dayStart(field, value))},${column}.lt.${quote(nextDayStart(field, valueTo))})`
+        : `and(${column}.gte.${quote(value)},${column}.lte.${quote(valueTo)})`;
+    case 'greater_than':
+      return `${column}.gt.${quote(value)}`;
+    case 'less_than':
+      return `${column}.lt.${quote(value)}`;
+    case 'is_empty':
+      return field.type === 'text' ? `or(${column}.is.null,${column}.eq."")` : `${column}.is.null`;
+    case 'is_not_empty':
+      return field.type === 'text' ? `and(${column}.not.is.null,${column}.neq."")` : `${column}.not.is.null`;
+    default:
+      return null;
+  }
+};
+
+// Compiles a filter into a PostgREST logic tree such as
+// and(source.ilike."web",or(status.in.("won"),created_at.lt."...")), or null
+// when it has no complete conditions. Conditions on fields missing from
+// fields, e.g. a deleted custom field, are left out.
+export const toFilterExpression = (group: FilterGroup, fields = CUSTOMER_FILTER_FIELDS): string | null => {
+  const parts = group.conditions
+    .map(item => (isFilterGroup(item) ? toFilterExpression(item, fields) : toConditionExpression(item, fields)))
+    .filter(Boolean);
+  return parts.length ? `${group.combinator}(${parts.join(',')})` : null;
+};
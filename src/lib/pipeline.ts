@@ -0,0 +1,29 @@
+import { PipelineStageConfig } from '@/types/pipeline';
+
+// Stages seeded for every tenant; also used until a tenant's stages have loaded
+export const DEFAULT_PIPELINE_STAGES: PipelineStageConfig[] = [
+  { key: 'pending', name: 'Pending', position: 0, is_won: false, is_lost: false, color: '#64748b' },
+  { key: 'active', name: 'Active', position: 1, is_won: false, is_lost: false, color: '#16a34a' },
+  { key: 'won', name: 'Won', position: 2, is_won: true, is_lost: false, color: '#2563eb' },
+  { key: 'lost', name: 'Lost', position: 3, is_won: false, is_lost: true, color: '#dc2626' },
+];
+
+export const isOpenStage = (stage: PipelineStageConfig): boolean => !stage.is_won && !stage.is_lost;
+
+// Where new customers land when no status is given
+export const getInitialStage = <T extends PipelineStageConfig>(stages: T[]): T | undefined =>
+  stages.find(isOpenStage) || stages[0];
+
+export const findStage = <T extends PipelineStageConfig>(stages: T[], status: string | null | undefined): T | undefined => {
+  const value = (status || '').trim().toLowerCase();
+  if (!value) return undefined;
+  return stages.find(stage => stage.key === value) || stages.find(stage => stage.name.toLowerCase() === value);
+};
+
+// Derives a stage key such as "proposal_sent" from a display name
+export const toStageKey = (name: string): string =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
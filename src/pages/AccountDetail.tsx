@@ -0,0 +1,380 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Loader2, Trash2 } from 'lucide-react';
+import { useRole } from '@/contexts/RoleContext';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { Account, AccountConfig, AccountSize } from '@/types/account';
+import { Customer } from '@/types/customer';
+import { ACCOUNT_SIZES, NOT_STARTED, emptyAccountTotals, getAccountTotals } from '@/lib/accounts';
+import { deleteAccount, getAccountById, getAccountContacts, updateAccount } from '@/services/accountService';
+import { formatMoney } from '@/services/forecastService';
+import { accountKeys, useAccountSummary } from '@/hooks/use-accounts';
+import { customerKeys } from '@/hooks/use-customers';
+import { AccountStageBadges } from '@/components/AccountsManager';
+
+const workflowColors: Record<string, string> = {
+  pending: 'bg-orange-500',
+  active: 'bg-cyan-500',
+  completed: 'bg-emerald-500',
+  failed: 'bg-rose-500',
+};
+
+const NO_SIZE = '__none__';
+
+const toDraft = (account: Account): AccountConfig => ({
+  name: account.name,
+  domain: account.domain || '',
+  industry: account.industry || '',
+  size: account.size,
+});
+
+const AccountDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { isClientAdmin } = useRole();
+  const { getStage } = usePipeline();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: summary = [] } = useAccountSummary();
+  const [account, setAccount] = useState<Account | null>(null);
+  const [contacts, setContacts] = useState<Customer[]>([]);
+  const [draft, setDraft] = useState<AccountConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const totals = useMemo(() => (id && getAccountTotals(summary).get(id)) || emptyAccountTotals(), [summary, id]);
+
+  const loadContacts = useCallback(async () => {
+    if (!id) return;
+    setContacts(await getAccountContacts(id));
+  }, [id]);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!id) return;
+      setLoading(true);
+      const [accountData] = await Promise.all([getAccountById(id), loadContacts()]);
+      setAccount(accountData);
+      setDraft(accountData ? toDraft(accountData) : null);
+      setLoading(false);
+    };
+
+    load();
+  }, [id, loadContacts]);
+
+  const handleSave = async () => {
+    if (!account || !draft) return;
+
+    setSaving(true);
+    const result = await updateAccount(account.id, draft);
+    setSaving(false);
+
+    if (result.success && result.account) {
+      setAccount(result.account);
+      setDraft(toDraft(result.account));
+      toast({ title: 'Success', description: 'Account saved' });
+      // A new domain links the customers that match it
+      if (result.account.domain !== account.domain) {
+        await loadContacts();
+        queryClient.invalidateQueries({ queryKey: customerKeys.all });
+      }
+      queryClient.invalidateQueries({ queryKey: accountKeys.all });
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to save account',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!account) return;
+
+    setSaving(true);
+    const result = await deleteAccount(account.id);
+    setSaving(false);
+    setConfirmDelete(false);
+
+    if (result.success) {
+      queryClient.invalidateQueries({ queryKey: accountKeys.all });
+      queryClient.invalidateQueries({ queryKey: customerKeys.all });
+      navigate('/');
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to delete account',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-dashboard-bg flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!account || !draft) {
+    return (
+      <div className="min-h-screen bg-dashboard-bg flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-primary mb-2">Account Not Found</h1>
+          <p className="text-muted-foreground mb-4">It may have been deleted or you do not have access to it.</p>
+          <Button asChild variant="outline">
+            <Link to="/">Back to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(toDraft(account));
+  const workflowEntries = Object.entries(totals.byWorkflow).sort(([a], [b]) => a.localeCompare(b));
+
+  return (
+    <div className="min-h-screen bg-dashboard-bg p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <Button asChild variant="ghost" size="sm" className="mb-2 -ml-3">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to dashboard
+              </Link>
+            </Button>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-primary">{account.name}</h1>
+              {account.industry && <Badge variant="secondary">{account.industry}</Badge>}
+            </div>
+            <p className="text-muted-foreground">{account.domain || 'No domain'}</p>
+          </div>
+          {isClientAdmin && (
+            <Button variant="outline" onClick={() => setConfirmDelete(true)} disabled={saving}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Account
+            </Button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1">
+                  <Label htmlFor="account-name">Name</Label>
+                  <Input
+                    id="account-name"
+                    value={draft.name}
+                    onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="account-domain">Domain</Label>
+                  <Input
+                    id="account-domain"
+                    placeholder="acme.com"
+                    value={draft.domain || ''}
+                    onChange={e => setDraft({ ...draft, domain: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="account-industry">Industry</Label>
+                  <Input
+                    id="account-industry"
+                    value={draft.industry || ''}
+                    onChange={e => setDraft({ ...draft, industry: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="account-size">Size</Label>
+                  <Select
+                    value={draft.size || NO_SIZE}
+                    onValueChange={value => setDraft({ ...draft, size: value === NO_SIZE ? null : (value as AccountSize) })}
+                  >
+                    <SelectTrigger id="account-size">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SIZE}>Unknown</SelectItem>
+                      {ACCOUNT_SIZES.map(size => (
+                        <SelectItem key={size} value={size}>{size} employees</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={handleSave} disabled={saving || !dirty || !draft.name.trim()}>
+                  {saving ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    'Save Account'
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Summary</CardTitle>
+                <CardDescription>{totals.contacts} contact(s)</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">Stages</p>
+                  <AccountStageBadges totals={totals} />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">Workflows</p>
+                  {workflowEntries.length === 0 ? (
+                    <span className="text-sm text-muted-foreground">-</span>
+                  ) : (
+                    <div className="flex flex-wrap gap-1">
+                      {workflowEntries.map(([status, count]) => (
+                        <Badge
+                          key={status}
+                          variant={status === NOT_STARTED ? 'outline' : 'default'}
+                          className={status === NOT_STARTED ? undefined : workflowColors[status] || 'bg-gray-500'}
+                        >
+                          {status} {count}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Contacts</CardTitle>
+                <CardDescription>Customers linked to this account, newest first</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/50">
+                        <th className="h-10 px-3 text-left font-medium text-muted-foreground">Name</th>
+                        <th className="h-10 px-3 text-left font-medium text-muted-foreground">Email</th>
+                        <th className="h-10 px-3 text-left font-medium text-muted-foreground">Phone</th>
+                        <th className="h-10 px-3 text-left font-medium text-muted-foreground">Stage</th>
+                        <th className="h-10 px-3 text-left font-medium text-muted-foreground">Workflow</th>
+                        <th className="h-10 px-3 text-left font-medium text-muted-foreground">Deal</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {contacts.length === 0 && (
+                        <tr>
+                          <td colSpan={6} className="h-16 text-center text-muted-foreground">
+                            No contacts yet{account.domain ? ` at ${account.domain}` : ''}
+                          </td>
+                        </tr>
+                      )}
+                      {contacts.map(contact => {
+                        const stage = getStage(contact.status);
+                        return (
+                          <tr key={contact.id} className="border-b last:border-0">
+                            <td className="p-3">
+                              <Link to={`/customers/${contact.id}`} className="font-medium hover:underline">
+                                {contact.first_name} {contact.last_name}
+                              </Link>
+                            </td>
+                            <td className="p-3">{contact.email}</td>
+                            <td className="p-3">{contact.phone_no || '-'}</td>
+                            <td className="p-3">
+                              {stage ? (
+                                <Badge style={{ backgroundColor: stage.color }} className="text-white">{stage.name}</Badge>
+                              ) : (
+                                <Badge variant="secondary">{contact.status || '-'}</Badge>
+                              )}
+                            </td>
+                            <td className="p-3">
+                              {contact.workflow_status ? (
+                                <Badge className={workflowColors[contact.workflow_status] || 'bg-gray-500'}>
+                                  {contact.workflow_status}
+                                </Badge>
+                              ) : (
+                                <span className="text-muted-foreground">{NOT_STARTED}</span>
+                              )}
+                            </td>
+                            <td className="p-3">
+                              {contact.deal_amount !== null && contact.deal_amount !== undefined
+                                ? formatMoney(contact.deal_amount, contact.deal_currency || 'USD')
+                                : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <AlertDialog open={confirmDelete} onOpenChange={open => !open && !saving && setConfirmDelete(false)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{account.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its contacts are kept but no longer linked to an account. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={e => {
+                e.preventDefault();
+                handleDelete();
+              }}
+              disabled={saving}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {saving ? 'Deleting...' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AccountDetail;
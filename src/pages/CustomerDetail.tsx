@@ -0,0 +1,362 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePipeline } from '@/contexts/PipelineContext';
+import { Customer } from '@/types/customer';
+import {
+  CustomerOwnershipChange,
+  CustomerStatusChange,
+  getCustomerById,
+  getCustomerOwnershipHistory,
+  getCustomerStatusHistory,
+  updateCustomer,
+  updateCustomerNotes,
+} from '@/services/customerService';
+import { getWorkflowByCustomer, Workflow } from '@/services/workflowService';
+import { getResourceAuditLogs, AuditLog } from '@/services/auditService';
+import { Activity, getCustomerActivities } from '@/services/activityService';
+import { formatMoney } from '@/services/forecastService';
+import { CustomerTimeline } from '@/components/CustomerTimeline';
+import { LogActivityForm } from '@/components/LogActivityForm';
+import { useAccounts } from '@/hooks/use-accounts';
+
+const NO_ACCOUNT = '__none__';
+
+const workflowColors: Record<string, string> = {
+  pending: 'bg-orange-500',
+  active: 'bg-cyan-500',
+  completed: 'bg-emerald-500',
+  failed: 'bg-rose-500',
+};
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div>
+    <dt className="text-xs text-muted-foreground">{label}</dt>
+    <dd className="text-sm">{children || '-'}</dd>
+  </div>
+);
+
+const CustomerDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const { getStage } = usePipeline();
+  const { toast } = useToast();
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  const [statusHistory, setStatusHistory] = useState<CustomerStatusChange[]>([]);
+  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [ownershipHistory, setOwnershipHistory] = useState<CustomerOwnershipChange[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [notes, setNotes] = useState('');
+  const [savingNotes, setSavingNotes] = useState(false);
+  const [savingAccount, setSavingAccount] = useState(false);
+  const { data: accounts = [] } = useAccounts();
+  const [loading, setLoading] = useState(true);
+
+  const loadTimeline = useCallback(async () => {
+    if (!id) return;
+    const [historyData, auditData, activityData, ownershipData] = await Promise.all([
+      getCustomerStatusHistory(id),
+      getResourceAuditLogs('customer', id),
+      getCustomerActivities(id),
+      getCustomerOwnershipHistory(id),
+    ]);
+    setStatusHistory(historyData);
+    setAuditLogs(auditData);
+    setActivities(activityData);
+    setOwnershipHistory(ownershipData);
+  }, [id]);
+
+  useEffect(() => {
+    const load = async () => {
+      if (!id) return;
+      setLoading(true);
+      const [customerData, workflowData] = await Promise.all([
+        getCustomerById(id),
+        getWorkflowByCustomer(id),
+        loadTimeline(),
+      ]);
+      setCustomer(customerData);
+      setNotes(customerData?.notes || '');
+      setWorkflow(workflowData);
+      setLoading(false);
+    };
+
+    load();
+  }, [id, loadTimeline]);
+
+  const handleSaveNotes = async () => {
+    if (!customer) return;
+
+    setSavingNotes(true);
+    const result = await updateCustomerNotes(customer, notes);
+    setSavingNotes(false);
+
+    if (result.success && result.customer) {
+      setCustomer(result.customer);
+      toast({ title: 'Success', description: 'Notes saved' });
+      loadTimeline();
+    } else {
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to save notes',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleAccountChange = async (value: string) => {
+    if (!customer) return;
+
+    setSavingAccount(true);
+    const result = await updateCustomer(customer, { account_id: value === NO_ACCOUNT ? null : value });
+    setSavingAccount(false);
+
+    if (result.success && result.customer) {
+      setCustomer(result.customer);
+      loadTimeline();
+    } else {
+      if (result.customer) setCustomer(result.customer);
+      toast({
+        title: 'Error',
+        description: result.message || 'Failed to change account',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-dashboard-bg flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="min-h-screen bg-dashboard-bg flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-primary mb-2">Customer Not Found</h1>
+          <p className="text-muted-foreground mb-4">It may have been deleted or you do not have access to it.</p>
+          <Button asChild variant="outline">
+            <Link to="/">Back to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const stage = getStage(customer.status);
+  const account = accounts.find(a => a.id === customer.account_id);
+  const canEdit = customer.sales_rep_user_id === user?.id;
+  const stepData = workflow?.step_data && typeof workflow.step_data === 'object'
+    ? Object.entries(workflow.step_data as Record<string, unknown>)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-dashboard-bg p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <Button asChild variant="ghost" size="sm" className="mb-2 -ml-3">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to dashboard
+              </Link>
+            </Button>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold text-primary">{customer.first_name} {customer.last_name}</h1>
+              {stage ? (
+                <Badge style={{ backgroundColor: stage.color }} className="text-white">{stage.name}</Badge>
+              ) : (
+                <Badge variant="secondary">{customer.status || '-'}</Badge>
+              )}
+            </div>
+            <p className="text-muted-foreground">{customer.email}</p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Profile</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <dl className="grid grid-cols-2 gap-4">
+                  <Field label="First Name">{customer.first_name}</Field>
+                  <Field label="Last Name">{customer.last_name}</Field>
+                  <Field label="Email">{customer.email}</Field>
+                  <Field label="Phone">{customer.phone_no}</Field>
+                  <Field label="Source">{customer.source}</Field>
+                  <Field label="Account">
+                    {canEdit ? (
+                      <div className="space-y-1">
+                        <Select
+                          value={customer.account_id || NO_ACCOUNT}
+                          onValueChange={handleAccountChange}
+                          disabled={savingAccount}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                            {accounts.map(option => (
+                              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {account && (
+                          <Link to={`/accounts/${account.id}`} className="text-xs text-muted-foreground hover:underline">
+                            View account
+                          </Link>
+                        )}
+                      </div>
+                    ) : account ? (
+                      <Link to={`/accounts/${account.id}`} className="hover:underline">{account.name}</Link>
+                    ) : null}
+                  </Field>
+                  <Field label="Stage">{stage?.name || customer.status}</Field>
+                  <Field label="Deal">
+                    {customer.deal_amount !== null && customer.deal_amount !== undefined
+                      ? formatMoney(customer.deal_amount, customer.deal_currency || 'USD')
+                      : null}
+                  </Field>
+                  <Field label="Probability">
+                    {customer.deal_probability !== null && customer.deal_probability !== undefined
+                      ? `${customer.deal_probability}%`
+                      : null}
+                  </Field>
+                  <Field label="Expected Close">
+                    {customer.expected_close_date ? format(parseISO(customer.expected_close_date), 'PP') : null}
+                  </Field>
+                  <Field label="Created">
+                    {customer.created_at ? format(new Date(customer.created_at), 'PP') : null}
+                  </Field>
+                  {customer.routing_reason && (
+                    <div className="col-span-2">
+                      <Field label="Routing">{customer.routing_reason}</Field>
+                    </div>
+                  )}
+                </dl>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Notes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <Textarea
+                  rows={6}
+                  value={notes}
+                  onChange={e => setNotes(e.target.value)}
+                  disabled={!canEdit || savingNotes}
+                />
+                {canEdit && (
+                  <Button onClick={handleSaveNotes} disabled={savingNotes || notes === (customer.notes || '')}>
+                    {savingNotes ? (
+                      <>
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Notes'
+                    )}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Workflow</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {workflow ? (
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-2">
+                      <Badge className={workflowColors[workflow.status] || 'bg-gray-500'}>{workflow.status}</Badge>
+                      {workflow.current_step && (
+                        <span className="text-sm text-muted-foreground">{workflow.current_step}</span>
+                      )}
+                    </div>
+                    {workflow.error_message && (
+                      <p className="text-sm text-destructive">{workflow.error_message}</p>
+                    )}
+                    <dl className="grid grid-cols-2 gap-4">
+                      <Field label="Started">
+                        {workflow.started_at ? format(new Date(workflow.started_at), 'PPp') : null}
+                      </Field>
+                      <Field label="Completed">
+                        {workflow.completed_at ? format(new Date(workflow.completed_at), 'PPp') : null}
+                      </Field>
+                    </dl>
+                    {stepData.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-muted-foreground">Step data</p>
+                        <pre className="max-h-64 overflow-auto rounded-md bg-muted p-3 text-xs">
+                          {JSON.stringify(workflow.step_data, null, 2)}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Not started</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {canEdit && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Log Activity</CardTitle>
+                  <CardDescription>Record a call, email, meeting or note, or add a follow-up task</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <LogActivityForm customerId={customer.id} onLogged={loadTimeline} />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Timeline</CardTitle>
+                <CardDescription>Activities, stage and owner changes and every recorded change to this customer</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CustomerTimeline
+                  activities={activities}
+                  statusHistory={statusHistory}
+                  auditLogs={auditLogs}
+                  ownershipHistory={ownershipHistory}
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerDetail;
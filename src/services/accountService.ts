@@ -0,0 +1,176 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getTenantId } from '@/services/roleService';
+import { mapFromDb } from '@/services/customerService';
+import { toAccountDomain } from '@/lib/accounts';
+import { Account, AccountConfig, AccountSummaryRow } from '@/types/account';
+import { Customer } from '@/types/customer';
+
+const cleanConfig = (config: Partial<AccountConfig>) => ({
+  ...(config.name !== undefined ? { name: config.name.trim() } : {}),
+  ...(config.domain !== undefined ? { domain: toAccountDomain(config.domain || '') || null } : {}),
+  ...(config.industry !== undefined ? { industry: config.industry?.trim() || null } : {}),
+  ...(config.size !== undefined ? { size: config.size || null } : {}),
+});
+
+const toErrorMessage = (error: { code?: string }, fallback: string) =>
+  error.code === '23505' ? 'Another account already uses this domain' : fallback;
+
+export const getAccounts = async (): Promise<Account[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching accounts:', error);
+      return [];
+    }
+
+    return (data || []) as Account[];
+  } catch (error) {
+    console.error('Error in getAccounts:', error);
+    return [];
+  }
+};
+
+export const getAccountById = async (id: string): Promise<Account | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching account:', error);
+      return null;
+    }
+
+    return data as Account | null;
+  } catch (error) {
+    console.error('Error in getAccountById:', error);
+    return null;
+  }
+};
+
+// Contact counts per account, stage and workflow status; see get_account_summary
+export const getAccountSummary = async (): Promise<AccountSummaryRow[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_account_summary');
+
+    if (error) {
+      console.error('Error fetching account summary:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({ ...row, customer_count: Number(row.customer_count) }));
+  } catch (error) {
+    console.error('Error in getAccountSummary:', error);
+    return [];
+  }
+};
+
+// The account's customers the user can see, newest first
+export const getAccountContacts = async (accountId: string): Promise<Customer[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('account_id', accountId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching account contacts:', error);
+      return [];
+    }
+
+    return (data || []).map(mapFromDb);
+  } catch (error) {
+    console.error('Error in getAccountContacts:', error);
+    return [];
+  }
+};
+
+// Customers without an account whose email domain matches are linked by the database
+export const createAccount = async (
+  config: AccountConfig
+): Promise<{ success: boolean; message?: string; account?: Account }> => {
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) {
+      return { success: false, message: 'Tenant not found' };
+    }
+
+    const cleaned = cleanConfig(config);
+    if (!cleaned.name) {
+      return { success: false, message: 'Account name is required' };
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .insert({ ...cleaned, name: cleaned.name, tenant_id: tenantId })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating account:', error);
+      return { success: false, message: toErrorMessage(error, 'Failed to create account') };
+    }
+
+    return { success: true, account: data as Account };
+  } catch (error) {
+    console.error('Error in createAccount:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Changing the domain links matching unlinked customers; ones already linked stay
+export const updateAccount = async (
+  id: string,
+  updates: Partial<AccountConfig>
+): Promise<{ success: boolean; message?: string; account?: Account }> => {
+  try {
+    const cleaned = cleanConfig(updates);
+    if (cleaned.name === '') {
+      return { success: false, message: 'Account name is required' };
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .update(cleaned)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating account:', error);
+      return { success: false, message: toErrorMessage(error, 'Failed to update account') };
+    }
+
+    return { success: true, account: data as Account };
+  } catch (error) {
+    console.error('Error in updateAccount:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Its customers are kept and lose the link
+export const deleteAccount = async (id: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('accounts')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting account:', error);
+      return { success: false, message: 'Failed to delete account' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteAccount:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
@@ -0,0 +1,263 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getTenantId } from '@/services/roleService';
+
+export type ActivityType = 'call' | 'email' | 'meeting' | 'note' | 'task';
+
+export interface Activity {
+  id: string;
+  tenant_id: string | null;
+  customer_id: string;
+  user_id: string;
+  sales_rep_id: string | null; // set from user_id when the activity is logged
+  type: ActivityType;
+  subject: string;
+  body: string | null;
+  outcome: string | null;
+  occurred_at: string;
+  due_at: string | null; // tasks only
+  completed_at: string | null; // tasks only
+  overdue_at: string | null; // set by the follow-up-reminders function
+  created_at: string;
+  updated_at: string;
+}
+
+export const ACTIVITY_TYPE_LABELS: Record<ActivityType, string> = {
+  call: 'Call',
+  email: 'Email',
+  meeting: 'Meeting',
+  note: 'Note',
+  task: 'Task',
+};
+
+// Suggested outcomes; any free text is accepted
+export const ACTIVITY_OUTCOMES: Partial<Record<ActivityType, string[]>> = {
+  call: ['Connected', 'No answer', 'Left voicemail', 'Wrong number', 'Call back later'],
+  email: ['Sent', 'Replied', 'Bounced'],
+  meeting: ['Held', 'No show', 'Rescheduled'],
+  task: ['Done', 'Cancelled'],
+};
+
+export interface RepActivityCounts {
+  userId: string;
+  counts: Record<ActivityType, number>;
+  completedTasks: number;
+  openTasks: number;
+  overdueTasks: number;
+  lastActivityAt: string | null;
+}
+
+export interface FollowUpTask extends Activity {
+  customer_name: string;
+}
+
+export interface NewActivity {
+  customerId: string;
+  type: ActivityType;
+  subject: string;
+  body?: string;
+  outcome?: string;
+  occurredAt?: string;
+  dueAt?: string | null;
+}
+
+export const getCustomerActivities = async (customerId: string): Promise<Activity[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('activities')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('occurred_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching activities:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({ ...row, type: row.type as ActivityType }));
+  } catch (error) {
+    console.error('Error in getCustomerActivities:', error);
+    return [];
+  }
+};
+
+export const createActivity = async (activity: NewActivity): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, message: 'User not authenticated' };
+    }
+
+    const tenantId = await getTenantId();
+
+    const { error } = await supabase
+      .from('activities')
+      .insert({
+        tenant_id: tenantId,
+        customer_id: activity.customerId,
+        user_id: user.id,
+        type: activity.type,
+        subject: activity.subject.trim(),
+        body: activity.body?.trim() || null,
+        outcome: activity.outcome?.trim() || null,
+        occurred_at: activity.occurredAt || new Date().toISOString(),
+        due_at: activity.type === 'task' ? activity.dueAt || null : null,
+      });
+
+    if (error) {
+      console.error('Error creating activity:', error);
+      return { success: false, message: 'Failed to log activity' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in createActivity:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const completeTask = async (
+  id: string,
+  outcome?: string
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('activities')
+      .update({ completed_at: new Date().toISOString(), outcome: outcome?.trim() || 'Done' })
+      .eq('id', id)
+      .eq('type', 'task');
+
+    if (error) {
+      console.error('Error completing task:', error);
+      return { success: false, message: 'Failed to complete task' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in completeTask:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Open tasks of the current user, soonest due first
+export const getFollowUpTasks = async (): Promise<FollowUpTask[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('activities')
+      .select('*, customers(first_name, last_name)')
+      .eq('user_id', user.id)
+      .eq('type', 'task')
+      .is('completed_at', null)
+      .order('due_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching follow-up tasks:', error);
+      return [];
+    }
+
+    return (data || []).map(({ customers, ...row }) => ({
+      ...row,
+      type: row.type as ActivityType,
+      customer_name: customers ? `${customers.first_name} ${customers.last_name}` : 'Unknown customer',
+    }));
+  } catch (error) {
+    console.error('Error in getFollowUpTasks:', error);
+    return [];
+  }
+};
+
+export const rescheduleTask = async (id: string, dueAt: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('activities')
+      .update({ due_at: dueAt })
+      .eq('id', id)
+      .eq('type', 'task');
+
+    if (error) {
+      console.error('Error rescheduling task:', error);
+      return { success: false, message: 'Failed to reschedule task' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in rescheduleTask:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const deleteActivity = async (id: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('activities')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting activity:', error);
+      return { success: false, message: 'Failed to delete activity' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteActivity:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+const emptyCounts = (): Record<ActivityType, number> => ({ call: 0, email: 0, meeting: 0, note: 0, task: 0 });
+
+// Activities per author since the given date, plus every task still open. Client
+// admins see their whole tenant; sales reps only their own customers.
+export const getActivityCountsByRep = async (since: Date): Promise<RepActivityCounts[]> => {
+  try {
+    const sinceIso = since.toISOString();
+    const { data, error } = await supabase
+      .from('activities')
+      .select('user_id, type, occurred_at, due_at, completed_at')
+      .or(`occurred_at.gte.${sinceIso},and(type.eq.task,completed_at.is.null)`);
+
+    if (error) {
+      console.error('Error fetching activity counts:', error);
+      return [];
+    }
+
+    const now = Date.now();
+    const byUser = new Map<string, RepActivityCounts>();
+
+    (data || []).forEach(row => {
+      if (!byUser.has(row.user_id)) {
+        byUser.set(row.user_id, {
+          userId: row.user_id,
+          counts: emptyCounts(),
+          completedTasks: 0,
+          openTasks: 0,
+          overdueTasks: 0,
+          lastActivityAt: null,
+        });
+      }
+      const entry = byUser.get(row.user_id)!;
+      const type = row.type as ActivityType;
+
+      if (type === 'task' && !row.completed_at) {
+        entry.openTasks++;
+        if (row.due_at && new Date(row.due_at).getTime() < now) entry.overdueTasks++;
+      }
+
+      if (new Date(row.occurred_at) >= since) {
+        entry.counts[type]++;
+        if (type === 'task' && row.completed_at) entry.completedTasks++;
+        if (!entry.lastActivityAt || new Date(row.occurred_at) > new Date(entry.lastActivityAt)) {
+          entry.lastActivityAt = row.occurred_at;
+        }
+      }
+    });
+
+    return Array.from(byUser.values());
+  } catch (error) {
+    console.error('Error in getActivityCountsByRep:', error);
+    return [];
+  }
+};
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 
 export interface AuditLog {
   id: string;
@@ -50,6 +51,48 @@ export const logAudit = async (
   }
 };
 
+export interface AuditEntry {
+  action: string;
+  resourceType: string;
+  resourceId?: string;
+  oldData?: Json;
+  newData?: Json;
+}
+
+// Records the entries of a bulk action in a single insert
+export const logAuditEntries = async (entries: AuditEntry[]): Promise<void> => {
+  try {
+    if (entries.length === 0) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { data: userRole } = await supabase
+      .from('user_roles')
+      .select('tenant_id')
+      .eq('user_id', user.id)
+      .single();
+
+    if (!userRole?.tenant_id) return;
+
+    await supabase.from('audit_logs').insert(
+      entries.map(entry => ({
+        tenant_id: userRole.tenant_id,
+        user_id: user.id,
+        action: entry.action,
+        resource_type: entry.resourceType,
+        resource_id: entry.resourceId || null,
+        old_data: entry.oldData || null,
+        new_data: entry.newData || null,
+        ip_address: null,
+        user_agent: navigator.userAgent,
+      }))
+    );
+  } catch (error) {
+    console.error('Failed to log audit entries:', error);
+  }
+};
+
 export const getAuditLogs = async (limit = 100): Promise<AuditLog[]> => {
   try {
     const { data, error } = await supabase
@@ -69,3 +112,24 @@ export const getAuditLogs = async (limit = 100): Promise<AuditLog[]> => {
     return [];
   }
 };
+
+export const getResourceAuditLogs = async (resourceType: string, resourceId: string): Promise<AuditLog[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select('*')
+      .eq('resource_type', resourceType)
+      .eq('resource_id', resourceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching resource audit logs:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getResourceAuditLogs:', error);
+    return [];
+  }
+};
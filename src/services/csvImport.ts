@@ -0,0 +1,476 @@
+// Shared CSV import engine used by every customer import entry point
+// (CSVUpload, ImportCsv and the Google Sheets fetchers), so a file parses
+// and maps the same way regardless of which screen it is uploaded from.
+import { PipelineStageConfig } from '@/types/pipeline';
+import { CustomField, CustomFieldValues } from '@/types/customField';
+import { DEFAULT_PIPELINE_STAGES, findStage, getInitialStage, isOpenStage } from '@/lib/pipeline';
+import { parseCustomFieldValue } from '@/lib/customFields';
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+}
+
+export interface ParseCsvOptions {
+  delimiter?: string;
+}
+
+export type CustomerImportField =
+  | 'fullName'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'phone'
+  | 'source'
+  | 'notes'
+  | 'status';
+
+// Column index per field, -1 when unmapped; customFields is keyed by custom field key
+export type CustomerColumnMap = Record<CustomerImportField, number> & { customFields?: Record<string, number> };
+
+export interface ImportedCustomerRow {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  source: string;
+  notes: string;
+  status: string;
+  customFields: CustomFieldValues; // only values that parsed for their field type
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Picks the delimiter that occurs most often (outside quotes) in the header line
+export const detectDelimiter = (text: string): string => {
+  const counts = new Map<string, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(char)) {
+      counts.set(char, counts.get(char)! + 1);
+    }
+  }
+
+  let best = ',';
+  let bestCount = 0;
+  counts.forEach((count, delimiter) => {
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+export interface CsvStreamParser {
+  push: (text: string) => string[][];
+  flush: () => string[][];
+}
+
+// Incremental RFC 4180 tokenizer: quoted fields may contain delimiters, escaped
+// quotes ("") and line breaks; records may be terminated by LF, CRLF or a bare CR.
+// Text can be pushed in arbitrary pieces (e.g. straight from a file stream) and
+// every record completed by a piece is returned from that push.
+export const createCsvStreamParser = (delimiter = ','): CsvStreamParser => {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let pendingQuote = false; // quote inside a quoted field: closes it unless another quote follows
+  let pendingCr = false; // bare CR ended a record: swallow the LF of a CRLF pair
+  let rows: string[][] = [];
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  const takeRows = () => {
+    const completed = rows;
+    rows = [];
+    return completed;
+  };
+
+  const push = (text: string): string[][] => {
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (pendingCr) {
+        pendingCr = false;
+        if (char === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (!pendingQuote) {
+          if (char === '"') {
+            pendingQuote = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\r') {
+        endRow();
+        pendingCr = true;
+      } else if (char === '\n') {
+        endRow();
+      } else {
+        field += char;
+      }
+    }
+
+    return takeRows();
+  };
+
+  const flush = (): string[][] => {
+    // Flush the last record unless the input ended with a line break
+    if (field.length > 0 || row.length > 0) {
+      endRow();
+    }
+    inQuotes = false;
+    pendingQuote = false;
+    pendingCr = false;
+    return takeRows();
+  };
+
+  return { push, flush };
+};
+
+export const parseCsvRows = (text: string, delimiter = ','): string[][] => {
+  const parser = createCsvStreamParser(delimiter);
+  return [...parser.push(text), ...parser.flush()];
+};
+
+const cleanRecords = (records: string[][]): string[][] =>
+  records
+    .map(record => record.map(value => value.trim()))
+    .filter(record => record.some(value => value.length > 0));
+
+const toParsedCsv = (records: string[][], delimiter: string): ParsedCsv =>
+  records.length === 0
+    ? { headers: [], rows: [], delimiter }
+    : { headers: records[0], rows: records.slice(1), delimiter };
+
+export const parseCsv = (content: string, options: ParseCsvOptions = {}): ParsedCsv => {
+  const text = content.replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter || detectDelimiter(text);
+  return toParsedCsv(cleanRecords(parseCsvRows(text, delimiter)), delimiter);
+};
+
+export interface ParseCsvFileOptions extends ParseCsvOptions {
+  onProgress?: (bytesRead: number, totalBytes: number) => void;
+}
+
+// Streams a file through the tokenizer instead of loading it with file.text(),
+// so large exports never exist as one giant string in memory
+export const parseCsvFile = async (file: File, options: ParseCsvFileOptions = {}): Promise<ParsedCsv> => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  const records: string[][] = [];
+  let parser: CsvStreamParser | null = null;
+  let delimiter = options.delimiter || ',';
+  let bytesRead = 0;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    let text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    if (!parser) {
+      // The first piece holds the header line, which is all delimiter detection needs
+      text = text.replace(/^\uFEFF/, '');
+      delimiter = options.delimiter || detectDelimiter(text);
+      parser = createCsvStreamParser(delimiter);
+    }
+
+    records.push(...cleanRecords(parser.push(text)));
+
+    if (done) break;
+    bytesRead += value.byteLength;
+    options.onProgress?.(bytesRead, file.size);
+  }
+
+  records.push(...cleanRecords(parser.flush()));
+
+  return toParsedCsv(records, delimiter);
+};
+
+const escapeCsvValue = (value: string, delimiter: string): string => {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+};
+
+// Serializes records back to RFC 4180 CSV (CRLF line endings)
+export const toCsv = (records: (string | number | null | undefined)[][], delimiter = ','): string =>
+  records
+    .map(record => record.map(value => escapeCsvValue(value == null ? '' : String(value), delimiter)).join(delimiter))
+    .join('\r\n');
+
+// Header variations accepted for each customer field, compared after
+// lowercasing and stripping spaces, underscores and punctuation
+const FIELD_ALIASES: Record<CustomerImportField, string[]> = {
+  fullName: ['fullname', 'name', 'customername', 'contactname'],
+  firstName: ['firstname', 'fname', 'givenname'],
+  lastName: ['lastname', 'lname', 'surname', 'familyname'],
+  email: ['email', 'emailaddress', 'mail'],
+  phone: ['phoneno', 'phone', 'phonenumber', 'mobile', 'mobileno', 'mobilenumber', 'cell', 'telephone'],
+  source: ['source', 'leadsource', 'origin'],
+  notes: ['notes', 'note', 'remarks', 'comments', 'description'],
+  status: ['status', 'leadstatus', 'customerstatus'],
+};
+
+export const CUSTOMER_IMPORT_FIELDS: { field: CustomerImportField; label: string }[] = [
+  { field: 'fullName', label: 'Full Name' },
+  { field: 'firstName', label: 'First Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'email', label: 'Email' },
+  { field: 'phone', label: 'Phone' },
+  { field: 'source', label: 'Source' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'status', label: 'Status' },
+];
+
+// A column mapping keyed by header text rather than position, so it can be
+// saved and re-applied to later files whose columns are in a different order
+export type CustomerHeaderMapping = Partial<Record<CustomerImportField, string | null>> & {
+  customFields?: Record<string, string | null>;
+};
+
+export const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Custom fields match a header equal to their label or key
+export const resolveColumns = (headers: string[], customFields: CustomField[] = []): CustomerColumnMap => {
+  const normalized = headers.map(normalizeHeader);
+  const columns = { customFields: {} } as CustomerColumnMap;
+
+  (Object.keys(FIELD_ALIASES) as CustomerImportField[]).forEach(field => {
+    columns[field] = -1;
+    for (const alias of FIELD_ALIASES[field]) {
+      const index = normalized.indexOf(alias);
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+  });
+
+  customFields.forEach(field => {
+    const index = normalized.findIndex(
+      header => header === normalizeHeader(field.label) || header === normalizeHeader(field.key)
+    );
+    columns.customFields[field.key] = index;
+  });
+
+  return columns;
+};
+
+export const toHeaderMapping = (headers: string[], columns: CustomerColumnMap): CustomerHeaderMapping => {
+  const mapping: CustomerHeaderMapping = {};
+  CUSTOMER_IMPORT_FIELDS.forEach(({ field }) => {
+    mapping[field] = columns[field] !== -1 ? headers[columns[field]] : null;
+  });
+  mapping.customFields = {};
+  Object.entries(columns.customFields ?? {}).forEach(([key, index]) => {
+    mapping.customFields[key] = index !== -1 ? headers[index] : null;
+  });
+  return mapping;
+};
+
+// Applies a saved header mapping to a new file. Fields whose saved header is
+// missing from the file fall back to the automatic alias match.
+export const applyHeaderMapping = (
+  headers: string[],
+  mapping: CustomerHeaderMapping,
+  customFields: CustomField[] = []
+): CustomerColumnMap => {
+  const columns = resolveColumns(headers, customFields);
+  const normalized = headers.map(normalizeHeader);
+
+  // Returns the column for a saved header, or undefined to keep the automatic match
+  const savedColumn = (header: string | null): number | undefined => {
+    if (header === null) return -1;
+    const index = normalized.indexOf(normalizeHeader(header));
+    return index !== -1 ? index : undefined;
+  };
+
+  CUSTOMER_IMPORT_FIELDS.forEach(({ field }) => {
+    if (!(field in mapping)) return;
+    columns[field] = savedColumn(mapping[field]) ?? columns[field];
+  });
+
+  customFields.forEach(field => {
+    if (!mapping.customFields || !(field.key in mapping.customFields)) return;
+    columns.customFields[field.key] = savedColumn(mapping.customFields[field.key]) ?? columns.customFields[field.key];
+  });
+
+  return columns;
+};
+
+// Helper to normalize phone numbers (handle scientific notation from Excel)
+export const normalizePhone = (phone: string): string => {
+  if (!phone) return '';
+  const num = parseFloat(phone);
+  if (!isNaN(num) && /e/i.test(phone)) {
+    return Math.round(num).toString();
+  }
+  return phone.replace(/[^\d+]/g, '').substring(0, 20);
+};
+
+// Map common variations onto the default stages; custom stages are matched by key or name first
+const STATUS_MAP: Record<string, string> = {
+  'pending': 'pending',
+  'new': 'pending',
+  'new lead': 'pending',
+  'lead': 'pending',
+  'prospect': 'pending',
+  'open': 'pending',
+  'active': 'active',
+  'contacted': 'active',
+  'contact': 'active',
+  'in progress': 'active',
+  'working': 'active',
+  'engaged': 'active',
+  'qualified': 'active',
+  'negotiation': 'active',
+  'coder': 'active',
+  'won': 'won',
+  'closed won': 'won',
+  'success': 'won',
+  'complete': 'won',
+  'completed': 'won',
+  'closed': 'won',
+  'lost': 'lost',
+  'closed lost': 'lost',
+  'rejected': 'lost',
+  'failed': 'lost',
+  'declined': 'lost',
+  'cancelled': 'lost',
+};
+
+// Resolves a status cell to a stage key of the tenant's pipeline. Synonyms
+// such as "closed won" land in the matching won/lost/open stage.
+export const normalizeStatus = (
+  status: string,
+  stages: PipelineStageConfig[] = DEFAULT_PIPELINE_STAGES
+): string => {
+  const initial = getInitialStage(stages)?.key || 'pending';
+  if (!status) return initial;
+
+  const exact = findStage(stages, status);
+  if (exact) return exact.key;
+
+  switch (STATUS_MAP[status.toLowerCase().trim()]) {
+    case 'won':
+      return stages.find(stage => stage.is_won)?.key || initial;
+    case 'lost':
+      return stages.find(stage => stage.is_lost)?.key || initial;
+    case 'active':
+      return findStage(stages, 'active')?.key || stages.filter(isOpenStage)[1]?.key || initial;
+    default:
+      return initial;
+  }
+};
+
+export const isKnownStatus = (
+  status: string,
+  stages: PipelineStageConfig[] = DEFAULT_PIPELINE_STAGES
+): boolean => !status || !!findStage(stages, status) || status.toLowerCase().trim() in STATUS_MAP;
+
+export const isValidEmail = (email: string): boolean =>
+  /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+// Helper to split full name into first and last name
+export const splitFullName = (fullName: string): { firstName: string; lastName: string } => {
+  const trimmed = fullName.trim();
+  if (!trimmed) return { firstName: '', lastName: '' };
+
+  const parts = trimmed.split(/\s+/);
+  if (parts.length === 1) {
+    return { firstName: parts[0], lastName: '' };
+  }
+  return { firstName: parts[0], lastName: parts.slice(1).join(' ') };
+};
+
+export const customFieldRawValue = (row: string[], columns: CustomerColumnMap, field: CustomField): string => {
+  const index = columns.customFields?.[field.key] ?? -1;
+  return index !== -1 ? (row[index] || '').trim() : '';
+};
+
+export const extractCustomerRow = (
+  row: string[],
+  columns: CustomerColumnMap,
+  defaultSource = 'CSV Import',
+  stages: PipelineStageConfig[] = DEFAULT_PIPELINE_STAGES,
+  customFields: CustomField[] = []
+): ImportedCustomerRow => {
+  const value = (field: CustomerImportField) =>
+    columns[field] !== -1 ? (row[columns[field]] || '').trim() : '';
+
+  const customFieldValues: CustomFieldValues = {};
+  customFields.forEach(field => {
+    const parsed = parseCustomFieldValue(field, customFieldRawValue(row, columns, field));
+    if (parsed.value !== undefined) customFieldValues[field.key] = parsed.value;
+  });
+
+  let firstName = '';
+  let lastName = '';
+
+  const fullName = value('fullName');
+  if (fullName) {
+    ({ firstName, lastName } = splitFullName(fullName));
+  }
+
+  // Explicit first/last name columns take precedence over a full name column
+  firstName = value('firstName') || firstName;
+  lastName = value('lastName') || lastName;
+
+  return {
+    firstName,
+    lastName,
+    email: value('email'),
+    phone: normalizePhone(value('phone')),
+    source: value('source') || defaultSource,
+    notes: value('notes'),
+    status: normalizeStatus(value('status'), stages),
+    customFields: customFieldValues,
+  };
+};
+
+// Returns a human-readable error for rows that cannot be imported, or null.
+// rowNumber is the 1-based position in the file including the header row.
+export const validateCustomerRow = (row: ImportedCustomerRow, rowNumber: number): string | null => {
+  if (!row.email || !isValidEmail(row.email)) {
+    return `Row ${rowNumber}: Invalid or missing email`;
+  }
+  if (!row.firstName && !row.lastName) {
+    return `Row ${rowNumber}: Missing name (provide Full Name or First/Last Name)`;
+  }
+  return null;
+};
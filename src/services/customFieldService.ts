@@ -0,0 +1,145 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getTenantId } from '@/services/roleService';
+import { toCustomFieldKey } from '@/lib/customFields';
+import { CustomField, CustomFieldConfig } from '@/types/customField';
+
+const cleanOptions = (options: string[]) =>
+  Array.from(new Set(options.map(option => option.trim()).filter(Boolean)));
+
+export const getCustomFields = async (): Promise<CustomField[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('custom_field_definitions')
+      .select('*')
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching custom fields:', error);
+      return [];
+    }
+
+    return (data || []) as CustomField[];
+  } catch (error) {
+    console.error('Error in getCustomFields:', error);
+    return [];
+  }
+};
+
+export const createCustomField = async (
+  config: CustomFieldConfig
+): Promise<{ success: boolean; message?: string; field?: CustomField }> => {
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) {
+      return { success: false, message: 'Tenant not found' };
+    }
+
+    const key = toCustomFieldKey(config.label);
+    if (!key) {
+      return { success: false, message: 'Field name must contain letters or digits' };
+    }
+
+    const options = cleanOptions(config.options);
+    if (config.field_type === 'select' && options.length === 0) {
+      return { success: false, message: 'A select field needs at least one option' };
+    }
+
+    const { data: last } = await supabase
+      .from('custom_field_definitions')
+      .select('position')
+      .eq('tenant_id', tenantId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('custom_field_definitions')
+      .insert({
+        tenant_id: tenantId,
+        key,
+        label: config.label.trim(),
+        field_type: config.field_type,
+        options: config.field_type === 'select' ? options : [],
+        position: last ? last.position + 1 : 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating custom field:', error);
+      return {
+        success: false,
+        message: error.code === '23505' ? 'A field with this name already exists' : 'Failed to create field',
+      };
+    }
+
+    return { success: true, field: data as CustomField };
+  } catch (error) {
+    console.error('Error in createCustomField:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Key and type are fixed once created because stored values depend on them.
+// Removing a select option keeps the values customers already have.
+export const updateCustomField = async (
+  id: string,
+  updates: Partial<Pick<CustomField, 'label' | 'options'>>
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('custom_field_definitions')
+      .update({
+        ...(updates.label !== undefined ? { label: updates.label.trim() } : {}),
+        ...(updates.options !== undefined ? { options: cleanOptions(updates.options) } : {}),
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating custom field:', error);
+      return { success: false, message: 'Failed to update field' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateCustomField:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Writes position = index for the given order of field ids
+export const reorderCustomFields = async (orderedIds: string[]): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const results = await Promise.all(
+      orderedIds.map((id, position) => supabase.from('custom_field_definitions').update({ position }).eq('id', id))
+    );
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      console.error('Error reordering custom fields:', failed.error);
+      return { success: false, message: 'Failed to reorder fields' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in reorderCustomFields:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Also clears the field's values from every customer; see delete_custom_field
+export const deleteCustomField = async (field: CustomField): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase.rpc('delete_custom_field', { _field_id: field.id });
+
+    if (error) {
+      console.error('Error deleting custom field:', error);
+      return { success: false, message: error.message || 'Failed to delete field' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteCustomField:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
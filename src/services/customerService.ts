@@ -1,5 +1,10 @@
 import { supabase } from '@/integrations/supabase/client';
-import { Customer } from '@/types/customer';
+import { Tables } from '@/integrations/supabase/types';
+import { Customer, CustomerPage, CustomerPageQuery, CustomerQuery, CustomerStageSummary } from '@/types/customer';
+import { logAudit, logAuditEntries } from '@/services/auditService';
+import { normalizePhone } from '@/services/csvImport';
+import { getCustomerFilterFields, toFilterExpression } from '@/lib/customerFilters';
+import { CustomField, CustomFieldValues } from '@/types/customField';
 
 export const mapFromDb = (row: any): Customer => ({
   id: row.id,
@@ -13,6 +18,17 @@ export const mapFromDb = (row: any): Customer => ({
   source: row.source,
   notes: row.notes,
   status: row.status,
+  status_changed_at: row.status_changed_at,
+  deal_amount: row.deal_amount,
+  deal_currency: row.deal_currency,
+  deal_probability: row.deal_probability,
+  expected_close_date: row.expected_close_date,
+  import_job_id: row.import_job_id,
+  routing_rule_id: row.routing_rule_id,
+  routing_reason: row.routing_reason,
+  workflow_status: row.workflow_status,
+  custom_fields: (row.custom_fields ?? {}) as CustomFieldValues,
+  account_id: row.account_id,
   created_at: row.created_at,
   updated_at: row.updated_at,
 });
@@ -29,27 +45,141 @@ const mapToDb = (customer: Customer) => ({
   source: customer.source,
   notes: customer.notes,
   status: customer.status,
+  custom_fields: customer.custom_fields,
+  account_id: customer.account_id,
 });
 
-export const getCustomers = async (): Promise<Customer[]> => {
+// PostgREST caps a single response at 1000 rows, so full lists are read in batches
+const CUSTOMER_BATCH_SIZE = 1000;
+
+// Ids go into the request URL, so bulk changes to every customer matching a
+// filter are sent in batches
+const ID_BATCH_SIZE = 200;
+
+const toIdBatches = (customers: Customer[]): string[][] => {
+  const batches: string[][] = [];
+  for (let i = 0; i < customers.length; i += ID_BATCH_SIZE) {
+    batches.push(customers.slice(i, i + ID_BATCH_SIZE).map(c => c.id));
+  }
+  return batches;
+};
+
+// Each word is matched as a prefix, e.g. "jo acme" finds john@acme.com
+export const toSearchQuery = (search: string | undefined): string =>
+  (search || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(term => `${term}:*`)
+    .join(' & ');
+
+// Custom fields are needed to resolve filter conditions on them
+const buildCustomerQuery = (query: CustomerQuery, customFields: CustomField[], count?: 'exact') => {
+  let request = supabase.from('customers').select('*', count ? { count } : undefined);
+
+  if (query.status) request = request.eq('status', query.status);
+  if (query.salesRepUserId) request = request.eq('sales_rep_user_id', query.salesRepUserId);
+
+  // or() with a single and(...)/or(...) tree applies the builder's conditions as is
+  const filter = query.filter && toFilterExpression(query.filter, getCustomerFilterFields(customFields));
+  if (filter) request = request.or(filter);
+
+  const tsQuery = toSearchQuery(query.search);
+  if (tsQuery) request = request.textSearch('search_vector', tsQuery, { config: 'simple' });
+
+  const sortBy = query.sortBy ?? 'created_at';
+  const descending = query.sortBy ? !!query.sortDesc : true;
+  // id breaks ties so rows do not move between pages
+  return request.order(sortBy, { ascending: !descending, nullsFirst: false }).order('id');
+};
+
+// One page of customers matching the query, with the total number of matches
+export const getCustomersPage = async (
+  query: CustomerPageQuery,
+  customFields: CustomField[] = []
+): Promise<CustomerPage> => {
   try {
-    const { data, error } = await supabase
-      .from('customers')
-      .select('*')
-      .order('created_at', { ascending: false });
+    const from = query.page * query.pageSize;
+    const { data, error, count } = await buildCustomerQuery(query, customFields, 'exact')
+      .range(from, from + query.pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching customers page:', error);
+      return { customers: [], total: 0 };
+    }
+
+    return { customers: (data || []).map(mapFromDb), total: count ?? 0 };
+  } catch (error) {
+    console.error('Error in getCustomersPage:', error);
+    return { customers: [], total: 0 };
+  }
+};
+
+// Every customer matching the query, for exports and views that need the full list.
+// Throws when a page fails to load rather than returning part of the list.
+export const getCustomersMatching = async (
+  query: CustomerQuery = {},
+  customFields: CustomField[] = []
+): Promise<Customer[]> => {
+  const customers: Customer[] = [];
+
+  for (let from = 0; ; from += CUSTOMER_BATCH_SIZE) {
+    const { data, error } = await buildCustomerQuery(query, customFields).range(from, from + CUSTOMER_BATCH_SIZE - 1);
 
     if (error) {
       console.error('Error fetching customers:', error);
+      throw new Error('Failed to load customers');
+    }
+
+    customers.push(...(data || []).map(mapFromDb));
+    if (!data || data.length < CUSTOMER_BATCH_SIZE) return customers;
+  }
+};
+
+export const getCustomers = (): Promise<Customer[]> => getCustomersMatching();
+
+export const getCustomerStageSummary = async (): Promise<CustomerStageSummary[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_customer_stage_summary');
+
+    if (error) {
+      console.error('Error fetching customer stage summary:', error);
       return [];
     }
 
-    return (data || []).map(mapFromDb);
+    return (data || []).map(row => ({
+      ...row,
+      customer_count: Number(row.customer_count),
+      deal_count: Number(row.deal_count),
+      deal_total: Number(row.deal_total),
+      weighted_total: Number(row.weighted_total),
+    }));
   } catch (error) {
-    console.error('Error in getCustomers:', error);
+    console.error('Error in getCustomerStageSummary:', error);
     return [];
   }
 };
 
+export const getCustomerById = async (id: string): Promise<Customer | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching customer:', error);
+      return null;
+    }
+
+    return data ? mapFromDb(data) : null;
+  } catch (error) {
+    console.error('Error in getCustomerById:', error);
+    return null;
+  }
+};
+
 export const insertCustomers = async (customers: Customer[]): Promise<void> => {
   try {
     const { data: userData } = await supabase.auth.getUser();
@@ -100,4 +230,430 @@ export const upsertCustomers = async (customers: Customer[]): Promise<void> => {
     console.error('Error upserting customers:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
+
+// Moves a customer to another pipeline stage and records the change in the audit log
+export const updateCustomerStatus = async (
+  customer: Customer,
+  status: string
+): Promise<{ success: boolean; message?: string; customer?: Customer }> => {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .update({ status })
+      .eq('id', customer.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating customer status:', error);
+      return { success: false, message: error.message || 'Failed to update customer status' };
+    }
+
+    await logAudit(
+      'update_customer_status',
+      'customer',
+      customer.id,
+      { status: customer.status },
+      { status }
+    );
+
+    return { success: true, customer: mapFromDb(data) };
+  } catch (error) {
+    console.error('Error in updateCustomerStatus:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export type CustomerDeal = Pick<Customer, 'deal_amount' | 'deal_currency' | 'deal_probability' | 'expected_close_date'>;
+
+export const updateCustomerDeal = async (
+  customer: Customer,
+  deal: CustomerDeal
+): Promise<{ success: boolean; message?: string; customer?: Customer }> => {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .update(deal)
+      .eq('id', customer.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating customer deal:', error);
+      return { success: false, message: error.message || 'Failed to update deal' };
+    }
+
+    await logAudit(
+      'update_customer_deal',
+      'customer',
+      customer.id,
+      {
+        deal_amount: customer.deal_amount,
+        deal_currency: customer.deal_currency,
+        deal_probability: customer.deal_probability,
+        expected_close_date: customer.expected_close_date,
+      },
+      deal
+    );
+
+    return { success: true, customer: mapFromDb(data) };
+  } catch (error) {
+    console.error('Error in updateCustomerDeal:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const updateCustomerNotes = async (
+  customer: Customer,
+  notes: string
+): Promise<{ success: boolean; message?: string; customer?: Customer }> => {
+  try {
+    const { data, error } = await supabase
+      .from('customers')
+      .update({ notes: notes.trim() || null })
+      .eq('id', customer.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating customer notes:', error);
+      return { success: false, message: error.message || 'Failed to update notes' };
+    }
+
+    await logAudit('update_customer', 'customer', customer.id, { notes: customer.notes }, { notes: data.notes });
+
+    return { success: true, customer: mapFromDb(data) };
+  } catch (error) {
+    console.error('Error in updateCustomerNotes:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Fields a sales rep can edit inline from the customer table
+export type CustomerChanges = Partial<
+  Pick<
+    Customer,
+    'first_name' | 'last_name' | 'phone_no' | 'source' | 'notes' | 'status' | 'custom_fields' | 'account_id'
+  >
+>;
+
+// Trims and validates inline edits; returns the cleaned changes or the first error
+export const validateCustomerChanges = (
+  changes: CustomerChanges
+): { changes?: CustomerChanges; error?: string } => {
+  const cleaned: CustomerChanges = {};
+
+  if (changes.first_name !== undefined) {
+    cleaned.first_name = changes.first_name.trim();
+    if (!cleaned.first_name) return { error: 'First name is required' };
+    if (cleaned.first_name.length > 100) return { error: 'First name is too long' };
+  }
+  if (changes.last_name !== undefined) {
+    cleaned.last_name = changes.last_name.trim();
+    if (!cleaned.last_name) return { error: 'Last name is required' };
+    if (cleaned.last_name.length > 100) return { error: 'Last name is too long' };
+  }
+  if (changes.phone_no !== undefined) {
+    cleaned.phone_no = normalizePhone(changes.phone_no.trim());
+    if (cleaned.phone_no.replace(/\D/g, '').length < 7) return { error: 'Phone number looks too short' };
+  }
+  if (changes.source !== undefined) {
+    cleaned.source = changes.source.trim();
+    if (!cleaned.source) return { error: 'Source is required' };
+  }
+  if (changes.notes !== undefined) {
+    cleaned.notes = changes.notes?.trim() || null;
+  }
+  if (changes.status !== undefined) {
+    if (!changes.status) return { error: 'Stage is required' };
+    cleaned.status = changes.status;
+  }
+  // Values are parsed against their field definition before they get here
+  if (changes.custom_fields !== undefined) {
+    cleaned.custom_fields = changes.custom_fields;
+  }
+  if (changes.account_id !== undefined) {
+    cleaned.account_id = changes.account_id || null;
+  }
+
+  return { changes: cleaned };
+};
+
+// Saves inline edits only if nobody changed the customer since it was loaded.
+// On a conflict nothing is written and the latest version is returned instead.
+export const updateCustomer = async (
+  customer: Customer,
+  changes: CustomerChanges
+): Promise<{ success: boolean; message?: string; customer?: Customer; conflict?: boolean }> => {
+  try {
+    const { changes: cleaned, error: validationError } = validateCustomerChanges(changes);
+    if (validationError || !cleaned) {
+      return { success: false, message: validationError };
+    }
+
+    const fields = Object.keys(cleaned) as (keyof CustomerChanges)[];
+    if (fields.length === 0) {
+      return { success: true, customer };
+    }
+
+    let query = supabase
+      .from('customers')
+      .update(cleaned)
+      .eq('id', customer.id);
+    if (customer.updated_at) {
+      query = query.eq('updated_at', customer.updated_at);
+    }
+
+    const { data, error } = await query.select().maybeSingle();
+
+    if (error) {
+      console.error('Error updating customer:', error);
+      return { success: false, message: error.message || 'Failed to update customer' };
+    }
+
+    if (!data) {
+      const latest = await getCustomerById(customer.id);
+      return {
+        success: false,
+        conflict: true,
+        customer: latest || undefined,
+        message: latest
+          ? 'This customer was changed by someone else. The latest version is now shown; please redo your edit.'
+          : 'This customer no longer exists or you can no longer edit it.',
+      };
+    }
+
+    const oldData = Object.fromEntries(fields.map(field => [field, customer[field] ?? null]));
+    const newData = Object.fromEntries(fields.map(field => [field, data[field] ?? null]));
+
+    // Stage moves keep their own action so the timeline shows them once, from the status history
+    await logAudit(
+      fields.length === 1 && fields[0] === 'status' ? 'update_customer_status' : 'update_customer',
+      'customer',
+      customer.id,
+      oldData,
+      newData
+    );
+
+    return { success: true, customer: mapFromDb(data) };
+  } catch (error) {
+    console.error('Error in updateCustomer:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const deleteCustomer = async (customer: Customer): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('customers')
+      .delete()
+      .eq('id', customer.id);
+
+    if (error) {
+      console.error('Error deleting customer:', error);
+      return { success: false, message: error.message || 'Failed to delete customer' };
+    }
+
+    await logAudit('delete_customer', 'customer', customer.id, mapToDb(customer));
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteCustomer:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const bulkUpdateCustomerStatus = async (
+  customers: Customer[],
+  status: string
+): Promise<{ success: boolean; message?: string; customers?: Customer[] }> => {
+  try {
+    const data: Tables<'customers'>[] = [];
+    let failure: string | undefined;
+
+    for (const ids of toIdBatches(customers)) {
+      const { data: batch, error } = await supabase
+        .from('customers')
+        .update({ status })
+        .in('id', ids)
+        .select();
+
+      if (error) {
+        console.error('Error updating customer statuses:', error);
+        failure = error.message || 'Failed to update customer statuses';
+        break;
+      }
+
+      data.push(...(batch || []));
+    }
+
+    const updatedIds = new Set(data.map(row => row.id));
+    await logAuditEntries(
+      customers
+        .filter(c => updatedIds.has(c.id))
+        .map(c => ({
+          action: 'update_customer_status',
+          resourceType: 'customer',
+          resourceId: c.id,
+          oldData: { status: c.status },
+          newData: { status },
+        }))
+    );
+
+    // Earlier batches stay applied and audited when a later one fails
+    if (failure) return { success: false, message: failure, customers: data.map(mapFromDb) };
+    return { success: true, customers: data.map(mapFromDb) };
+  } catch (error) {
+    console.error('Error in bulkUpdateCustomerStatus:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const bulkDeleteCustomers = async (
+  customers: Customer[]
+): Promise<{ success: boolean; message?: string; deleted?: number }> => {
+  try {
+    const deletedIds = new Set<string>();
+    let failure: string | undefined;
+
+    for (const ids of toIdBatches(customers)) {
+      const { data, error } = await supabase
+        .from('customers')
+        .delete()
+        .in('id', ids)
+        .select('id');
+
+      if (error) {
+        console.error('Error deleting customers:', error);
+        failure = error.message || 'Failed to delete customers';
+        break;
+      }
+
+      (data || []).forEach(row => deletedIds.add(row.id));
+    }
+
+    await logAuditEntries(
+      customers
+        .filter(c => deletedIds.has(c.id))
+        .map(c => ({
+          action: 'delete_customer',
+          resourceType: 'customer',
+          resourceId: c.id,
+          oldData: mapToDb(c),
+        }))
+    );
+
+    if (failure) return { success: false, message: failure, deleted: deletedIds.size };
+    return { success: true, deleted: deletedIds.size };
+  } catch (error) {
+    console.error('Error in bulkDeleteCustomers:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Hands customers over to another active rep of the tenant; see reassign_customers.
+// Customers whose email the rep already has are skipped and listed in skippedEmails.
+export const reassignCustomers = async (
+  customerIds: string[],
+  salesRepId: string
+): Promise<{ success: boolean; message?: string; reassigned?: number; skippedEmails?: string[] }> => {
+  try {
+    const { data, error } = await supabase.rpc('reassign_customers', {
+      _customer_ids: customerIds,
+      _sales_rep_id: salesRepId,
+    });
+
+    if (error) {
+      console.error('Error reassigning customers:', error);
+      return { success: false, message: error.message || 'Failed to reassign customers' };
+    }
+
+    return { success: true, reassigned: data?.[0]?.reassigned ?? 0, skippedEmails: data?.[0]?.skipped_emails ?? [] };
+  } catch (error) {
+    console.error('Error in reassignCustomers:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Spreads customers over the given reps in order: one rep reassigns, several round-robin.
+// Customers whose email their new rep already has are skipped, as in reassignCustomers.
+export const distributeCustomers = async (
+  customerIds: string[],
+  salesRepIds: string[]
+): Promise<{ success: boolean; message?: string; reassigned?: number; skippedEmails?: string[] }> => {
+  try {
+    const { data, error } = await supabase.rpc('distribute_customers', {
+      _customer_ids: customerIds,
+      _sales_rep_ids: salesRepIds,
+    });
+
+    if (error) {
+      console.error('Error distributing customers:', error);
+      return { success: false, message: error.message || 'Failed to reassign customers' };
+    }
+
+    return { success: true, reassigned: data?.[0]?.reassigned ?? 0, skippedEmails: data?.[0]?.skipped_emails ?? [] };
+  } catch (error) {
+    console.error('Error in distributeCustomers:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export interface CustomerStatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export const getCustomerStatusHistory = async (customerId: string): Promise<CustomerStatusChange[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('customer_status_history')
+      .select('id, from_status, to_status, changed_by, changed_at')
+      .eq('customer_id', customerId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching customer status history:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getCustomerStatusHistory:', error);
+    return [];
+  }
+};
+
+export interface CustomerOwnershipChange {
+  id: string;
+  from_user_id: string | null;
+  from_rep_name: string | null;
+  to_user_id: string;
+  to_rep_name: string | null;
+  changed_by: string | null;
+  changed_at: string;
+}
+
+export const getCustomerOwnershipHistory = async (customerId: string): Promise<CustomerOwnershipChange[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('customer_ownership_history')
+      .select('id, from_user_id, from_rep_name, to_user_id, to_rep_name, changed_by, changed_at')
+      .eq('customer_id', customerId)
+      .order('changed_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching customer ownership history:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getCustomerOwnershipHistory:', error);
+    return [];
+  }
+};
@@ -0,0 +1,207 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Customer } from '@/types/customer';
+
+export type DuplicateReason = 'email' | 'phone' | 'name';
+
+export interface DuplicateGroup {
+  id: string; // id of the oldest customer in the group
+  customers: Customer[];
+  reasons: DuplicateReason[];
+  confidence: 'high' | 'possible'; // high when matched on email or phone, possible for name-only matches
+}
+
+// Field values chosen in the merge UI, applied to the customer that is kept
+export type MergeFields = Partial<
+  Pick<Customer, 'first_name' | 'last_name' | 'email' | 'phone_no' | 'source' | 'status' | 'notes'>
+>;
+
+const NAME_SIMILARITY_THRESHOLD = 0.92;
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+// Lowercases, drops "+tag" suffixes and, for Gmail, the dots Gmail ignores
+export const normalizeEmailForMatch = (email: string): string => {
+  const [local = '', domain = ''] = email.trim().toLowerCase().split('@');
+  let normalizedLocal = local.split('+')[0];
+  let normalizedDomain = domain;
+  if (GMAIL_DOMAINS.includes(domain)) {
+    normalizedLocal = normalizedLocal.replace(/\./g, '');
+    normalizedDomain = 'gmail.com';
+  }
+  return normalizedDomain ? `${normalizedLocal}@${normalizedDomain}` : normalizedLocal;
+};
+
+// Compares the last 10 digits so "+1 (555) 010-2030" and "5550102030" match
+export const normalizePhoneForMatch = (phone: string | null | undefined): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+export const normalizeNameForMatch = (firstName: string, lastName: string): string =>
+  `${firstName} ${lastName}`
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z ]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Jaro-Winkler similarity between 0 (different) and 1 (identical)
+export const nameSimilarity = (a: string, b: string): number => {
+  if (a === b) return a ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (!bMatches[j] && a[i] === b[j]) {
+        aMatches[i] = bMatches[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+// Groups customers that share a normalized email or phone, or whose names are
+// near-identical. Names are only compared within blocks sharing the first two
+// letters, which keeps large tenants from turning into an all-pairs comparison.
+export const findDuplicateGroups = (customers: Customer[]): DuplicateGroup[] => {
+  const parent = customers.map((_, index) => index);
+  const reasons = new Map<number, Set<DuplicateReason>>();
+
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const link = (a: number, b: number, reason: DuplicateReason) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    const root = Math.min(rootA, rootB);
+    const merged = new Set([...(reasons.get(rootA) || []), ...(reasons.get(rootB) || []), reason]);
+    parent[rootA] = root;
+    parent[rootB] = root;
+    reasons.set(root, merged);
+  };
+
+  const linkByKey = (keyOf: (customer: Customer) => string, reason: DuplicateReason) => {
+    const firstByKey = new Map<string, number>();
+    customers.forEach((customer, index) => {
+      const key = keyOf(customer);
+      if (!key) return;
+      const first = firstByKey.get(key);
+      if (first === undefined) {
+        firstByKey.set(key, index);
+      } else {
+        link(first, index, reason);
+      }
+    });
+  };
+
+  linkByKey(c => normalizeEmailForMatch(c.email), 'email');
+  linkByKey(c => normalizePhoneForMatch(c.phone_no), 'phone');
+
+  const names = customers.map(c => normalizeNameForMatch(c.first_name, c.last_name));
+  const blocks = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    if (name.length < 3) return;
+    const block = name.slice(0, 2);
+    if (!blocks.has(block)) blocks.set(block, []);
+    blocks.get(block)!.push(index);
+  });
+
+  blocks.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        if (nameSimilarity(names[indexes[i]], names[indexes[j]]) >= NAME_SIMILARITY_THRESHOLD) {
+          link(indexes[i], indexes[j], 'name');
+        }
+      }
+    }
+  });
+
+  const groups = new Map<number, Customer[]>();
+  customers.forEach((customer, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(customer);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, members]) => members.length > 1)
+    .map(([root, members]) => {
+      const groupReasons = Array.from(reasons.get(root) || []);
+      const sorted = [...members].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      return {
+        id: sorted[0].id,
+        customers: sorted,
+        reasons: groupReasons,
+        confidence: groupReasons.some(reason => reason !== 'name') ? 'high' as const : 'possible' as const,
+      };
+    })
+    .sort((a, b) => (a.confidence === b.confidence ? b.customers.length - a.customers.length : a.confidence === 'high' ? -1 : 1));
+};
+
+// Keeps every distinct note, oldest customer first
+export const combineNotes = (customers: Customer[]): string => {
+  const seen = new Set<string>();
+  return customers
+    .map(customer => (customer.notes || '').trim())
+    .filter(note => {
+      if (!note || seen.has(note)) return false;
+      seen.add(note);
+      return true;
+    })
+    .join('\n\n');
+};
+
+export const mergeCustomers = async (
+  primaryId: string,
+  duplicateIds: string[],
+  fields: MergeFields
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase.rpc('merge_customers', {
+      _primary_id: primaryId,
+      _duplicate_ids: duplicateIds,
+      _fields: fields,
+    });
+
+    if (error) {
+      console.error('Error merging customers:', error);
+      return { success: false, message: error.message || 'Failed to merge customers' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in mergeCustomers:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
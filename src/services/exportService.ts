@@ -0,0 +1,207 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import { toCsv } from '@/services/csvImport';
+import { getCustomers } from '@/services/customerService';
+import { getSalesReps } from '@/services/salesRepService';
+import { getAllWorkflows, Workflow } from '@/services/workflowService';
+import { getCustomFields } from '@/services/customFieldService';
+import { hasRole } from '@/services/roleService';
+import { logAudit } from '@/services/auditService';
+import { downloadFile } from '@/lib/download';
+import { formatCustomFieldValue, toCustomFieldInput } from '@/lib/customFields';
+import { Customer } from '@/types/customer';
+import { CustomField } from '@/types/customField';
+import { SalesRep } from '@/types/salesRep';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'vcard';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (.xlsx)',
+  vcard: 'vCard (.vcf)',
+};
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | null | undefined;
+}
+
+// Fields written to a phone contact card
+export interface ExportContact {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string | null;
+  note?: string | null;
+}
+
+const CUSTOMER_COLUMNS: ExportColumn<Customer>[] = [
+  { header: 'First Name', value: c => c.first_name },
+  { header: 'Last Name', value: c => c.last_name },
+  { header: 'Email', value: c => c.email },
+  { header: 'Phone', value: c => c.phone_no },
+  { header: 'Source', value: c => c.source },
+  { header: 'Status', value: c => c.status },
+  { header: 'Notes', value: c => c.notes },
+  { header: 'Deal Amount', value: c => c.deal_amount?.toString() },
+  { header: 'Deal Currency', value: c => (c.deal_amount === null || c.deal_amount === undefined ? '' : c.deal_currency) },
+  { header: 'Deal Probability', value: c => c.deal_probability?.toString() },
+  { header: 'Expected Close', value: c => c.expected_close_date },
+  { header: 'Created', value: c => c.created_at },
+];
+
+const SALES_REP_COLUMNS: ExportColumn<SalesRep>[] = [
+  { header: 'First Name', value: r => r.first_name },
+  { header: 'Last Name', value: r => r.last_name },
+  { header: 'Email', value: r => r.email },
+  { header: 'Phone', value: r => r.phone_no },
+  { header: 'Status', value: r => r.status },
+  { header: 'Created', value: r => r.created_at },
+];
+
+const workflowColumns = (workflows: Workflow[]): ExportColumn<Customer>[] => {
+  const byCustomer = new Map(workflows.map(w => [w.customer_id, w]));
+  return [
+    { header: 'Workflow Status', value: c => byCustomer.get(c.id)?.status || 'not started' },
+    { header: 'Workflow Step', value: c => byCustomer.get(c.id)?.current_step },
+  ];
+};
+
+// Dates stay ISO like the other date columns; yes/no fields read as Yes / No
+const customFieldColumns = (customFields: CustomField[]): ExportColumn<Customer>[] =>
+  customFields.map(field => ({
+    header: field.label,
+    value: c =>
+      field.field_type === 'date'
+        ? toCustomFieldInput(field, c.custom_fields?.[field.key])
+        : formatCustomFieldValue(field, c.custom_fields?.[field.key]),
+  }));
+
+const customerContact = (customer: Customer): ExportContact => ({
+  firstName: customer.first_name,
+  lastName: customer.last_name,
+  email: customer.email,
+  phone: customer.phone_no,
+  note: customer.notes,
+});
+
+const salesRepContact = (rep: SalesRep): ExportContact => ({
+  firstName: rep.first_name,
+  lastName: rep.last_name,
+  email: rep.email,
+  phone: rep.phone_no,
+});
+
+const toRecords = <T>(columns: ExportColumn<T>[], rows: T[]): string[][] => [
+  columns.map(column => column.header),
+  ...rows.map(row => columns.map(column => column.value(row) ?? '')),
+];
+
+// Escapes text values per RFC 6350 section 3.4
+const escapeVCardValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Lines longer than 75 characters are folded onto continuation lines starting with a space
+const foldVCardLine = (line: string): string =>
+  line.length <= 75 ? line : (line.match(/.{1,74}/g) || []).join('\r\n ');
+
+export const toVCard = (contacts: ExportContact[]): string =>
+  contacts
+    .map(contact => {
+      const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        `N:${escapeVCardValue(contact.lastName)};${escapeVCardValue(contact.firstName)};;;`,
+        `FN:${escapeVCardValue(`${contact.firstName} ${contact.lastName}`.trim())}`,
+      ];
+      if (contact.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeVCardValue(contact.email)}`);
+      if (contact.phone) lines.push(`TEL;TYPE=CELL:${escapeVCardValue(contact.phone)}`);
+      if (contact.note) lines.push(`NOTE:${escapeVCardValue(contact.note)}`);
+      lines.push('END:VCARD');
+      return lines.map(foldVCardLine).join('\r\n');
+    })
+    .join('\r\n');
+
+const exportRecords = async <T>(
+  rows: T[],
+  columns: ExportColumn<T>[],
+  toContact: (row: T) => ExportContact,
+  format: ExportFormat,
+  baseName: string
+): Promise<void> => {
+  const fileName = `${baseName}-${new Date().toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'csv':
+      // The BOM makes Excel open the file as UTF-8
+      downloadFile(`\uFEFF${toCsv(toRecords(columns, rows))}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+      break;
+    case 'xlsx': {
+      // Every cell is written as text so phone numbers keep their leading zeros and digits
+      const blob = await writeXlsxFile(toRecords(columns, rows), { sheet: baseName }).toBlob();
+      downloadFile(blob, `${fileName}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      break;
+    }
+    case 'vcard':
+      downloadFile(toVCard(rows.map(toContact)), `${fileName}.vcf`, 'text/vcard;charset=utf-8');
+      break;
+  }
+};
+
+export const exportCustomers = (
+  customers: Customer[],
+  format: ExportFormat,
+  workflows: Workflow[] = [],
+  customFields: CustomField[] = []
+): Promise<void> =>
+  exportRecords(
+    customers,
+    [...CUSTOMER_COLUMNS, ...customFieldColumns(customFields), ...workflowColumns(workflows)],
+    customerContact,
+    format,
+    'customers'
+  );
+
+export const exportSalesReps = (reps: SalesRep[], format: ExportFormat): Promise<void> =>
+  exportRecords(reps, SALES_REP_COLUMNS, salesRepContact, format, 'sales-reps');
+
+// Every customer in the tenant with its owning rep and workflow state; client admins only
+export const exportTenantCustomers = async (
+  format: ExportFormat
+): Promise<{ success: boolean; message?: string; count?: number }> => {
+  try {
+    if (!(await hasRole('client_admin'))) {
+      return { success: false, message: 'Only client admins can export all customers' };
+    }
+
+    const [customers, workflows, reps, customFields] = await Promise.all([
+      getCustomers(),
+      getAllWorkflows(),
+      getSalesReps(),
+      getCustomFields(),
+    ]);
+    const repsByUser = new Map(reps.map(rep => [rep.user_id, rep]));
+
+    const columns: ExportColumn<Customer>[] = [
+      ...CUSTOMER_COLUMNS,
+      ...customFieldColumns(customFields),
+      ...workflowColumns(workflows),
+      {
+        header: 'Sales Rep',
+        value: c => {
+          const rep = repsByUser.get(c.sales_rep_user_id);
+          return rep ? `${rep.first_name} ${rep.last_name}` : '';
+        },
+      },
+      { header: 'Sales Rep Email', value: c => repsByUser.get(c.sales_rep_user_id)?.email },
+      { header: 'Updated', value: c => c.updated_at },
+    ];
+
+    await exportRecords(customers, columns, customerContact, format, 'tenant-customers');
+    await logAudit('export_customers', 'customer', undefined, undefined, { format, count: customers.length });
+
+    return { success: true, count: customers.length };
+  } catch (error) {
+    console.error('Error in exportTenantCustomers:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
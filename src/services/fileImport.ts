@@ -0,0 +1,127 @@
+// Turns every supported customer import file (CSV/TSV, Excel workbooks and
+// JSON arrays) into the same headers + rows shape, so they all share the
+// column mapping and validation pipeline in csvImport and importValidation.
+import readXlsxFile from 'read-excel-file/browser';
+import { parseCsvFile } from '@/services/csvImport';
+
+export type ImportFileKind = 'csv' | 'xlsx' | 'json';
+
+export interface ParsedImportFile {
+  kind: ImportFileKind;
+  headers: string[];
+  rows: string[][];
+  sheets: string[]; // worksheet names, empty for non-workbook files
+  sheet: string | null;
+}
+
+export interface ParseImportFileOptions {
+  sheet?: string | null;
+}
+
+export const IMPORT_FILE_ACCEPT = '.csv,.tsv,.xlsx,.json';
+
+export const getImportFileKind = (file: File): ImportFileKind | null => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.xlsx') || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet') {
+    return 'xlsx';
+  }
+  if (name.endsWith('.json') || file.type === 'application/json') {
+    return 'json';
+  }
+  if (/\.(csv|tsv)$/.test(name) || file.type.includes('csv') || file.type.includes('tab-separated')) {
+    return 'csv';
+  }
+  return null;
+};
+
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+};
+
+const toParsedRecords = (records: string[][]) => {
+  const cleaned = records.filter(record => record.some(value => value.length > 0));
+  return cleaned.length === 0
+    ? { headers: [], rows: [] }
+    : { headers: cleaned[0], rows: cleaned.slice(1) };
+};
+
+// Numbers are read as the literal text stored in the workbook rather than as
+// JS numbers, so long phone numbers never pass through scientific notation
+const parseWorkbook = async (file: File, sheet?: string | null): Promise<ParsedImportFile> => {
+  const sheets = await readXlsxFile<string>(file, { parseNumber: value => value, trim: true });
+
+  if (sheets.length === 0) {
+    throw new Error('The workbook contains no sheets');
+  }
+
+  const selected = sheets.find(s => s.sheet === sheet) || sheets[0];
+  const records = selected.data.map(row => row.map(cellToString));
+
+  return {
+    kind: 'xlsx',
+    ...toParsedRecords(records),
+    sheets: sheets.map(s => s.sheet),
+    sheet: selected.sheet,
+  };
+};
+
+// Accepts an array of objects (keys become headers, in order of first
+// appearance) or an array of arrays whose first entry is the header row
+const parseJson = async (file: File): Promise<ParsedImportFile> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new Error('JSON imports must contain an array of customers');
+  }
+
+  if (data.every(Array.isArray)) {
+    return { kind: 'json', ...toParsedRecords(data.map(row => row.map(cellToString))), sheets: [], sheet: null };
+  }
+
+  const objects = data.filter(
+    (item): item is Record<string, unknown> => item !== null && typeof item === 'object' && !Array.isArray(item)
+  );
+  if (objects.length !== data.length) {
+    throw new Error('Every entry in the JSON array must be an object');
+  }
+
+  const headers: string[] = [];
+  objects.forEach(item => {
+    Object.keys(item).forEach(key => {
+      if (!headers.includes(key)) headers.push(key);
+    });
+  });
+
+  const rows = objects
+    .map(item => headers.map(header => cellToString(item[header])))
+    .filter(row => row.some(value => value.length > 0));
+
+  return { kind: 'json', headers, rows, sheets: [], sheet: null };
+};
+
+export const parseImportFile = async (
+  file: File,
+  options: ParseImportFileOptions = {}
+): Promise<ParsedImportFile> => {
+  switch (getImportFileKind(file)) {
+    case 'xlsx':
+      return parseWorkbook(file, options.sheet);
+    case 'json':
+      return parseJson(file);
+    case 'csv': {
+      const { headers, rows } = await parseCsvFile(file);
+      return { kind: 'csv', headers, rows, sheets: [], sheet: null };
+    }
+    default:
+      throw new Error('Unsupported file type. Upload a CSV, Excel (.xlsx) or JSON file.');
+  }
+};
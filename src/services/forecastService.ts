@@ -0,0 +1,170 @@
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import { Customer, CustomerStageSummary } from '@/types/customer';
+import { PipelineStageConfig } from '@/types/pipeline';
+
+export interface ForecastBucket {
+  key: string;
+  label: string;
+  dealCount: number;
+  pipeline: number; // full amount of open deals
+  weighted: number; // open deals weighted by their probability
+  won: number; // amount of deals already in a won stage
+}
+
+export interface ForecastTotals {
+  pipeline: number;
+  weighted: number;
+  won: number;
+  dealCount: number;
+}
+
+type StageLookup = (status: string | null | undefined) => PipelineStageConfig | undefined;
+
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${currency} ${Math.round(amount).toLocaleString()}`;
+  }
+};
+
+// Won stages count fully and lost stages not at all; open deals use their own
+// probability, and deals without one are left out of the weighted figure
+export const getDealProbability = (customer: Customer, stage: PipelineStageConfig | undefined): number => {
+  if (stage?.is_won) return 100;
+  if (stage?.is_lost) return 0;
+  return customer.deal_probability ?? 0;
+};
+
+const hasDeal = (customer: Customer, currency: string) =>
+  customer.deal_amount !== null && customer.deal_amount !== undefined && (customer.deal_currency || 'USD') === currency;
+
+// Currencies used by deals, most common first
+export const getDealCurrencies = (customers: Customer[]): string[] => {
+  const counts = new Map<string, number>();
+  customers.forEach(c => {
+    if (c.deal_amount === null || c.deal_amount === undefined) return;
+    const currency = c.deal_currency || 'USD';
+    counts.set(currency, (counts.get(currency) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([currency]) => currency);
+};
+
+const emptyBucket = (key: string, label: string): ForecastBucket => ({
+  key,
+  label,
+  dealCount: 0,
+  pipeline: 0,
+  weighted: 0,
+  won: 0,
+});
+
+const addToBucket = (bucket: ForecastBucket, customer: Customer, stage: PipelineStageConfig | undefined) => {
+  const amount = customer.deal_amount || 0;
+  if (stage?.is_lost) return;
+
+  bucket.dealCount++;
+  if (stage?.is_won) {
+    bucket.won += amount;
+  } else {
+    bucket.pipeline += amount;
+    bucket.weighted += (amount * getDealProbability(customer, stage)) / 100;
+  }
+};
+
+export const getForecastTotals = (customers: Customer[], getStage: StageLookup, currency: string): ForecastTotals => {
+  const bucket = emptyBucket('total', 'Total');
+  customers.filter(c => hasDeal(c, currency)).forEach(c => addToBucket(bucket, c, getStage(c.status)));
+  return { pipeline: bucket.pipeline, weighted: bucket.weighted, won: bucket.won, dealCount: bucket.dealCount };
+};
+
+// Same as getDealCurrencies and getForecastTotals, from the per-stage summary
+// the dashboards load instead of every customer
+export const getSummaryCurrencies = (summary: CustomerStageSummary[]): string[] => {
+  const counts = new Map<string, number>();
+  summary.forEach(row => {
+    if (row.deal_count > 0) counts.set(row.deal_currency, (counts.get(row.deal_currency) || 0) + row.deal_count);
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([currency]) => currency);
+};
+
+export const getSummaryTotals = (
+  summary: CustomerStageSummary[],
+  getStage: StageLookup,
+  currency: string
+): ForecastTotals => {
+  const totals: ForecastTotals = { pipeline: 0, weighted: 0, won: 0, dealCount: 0 };
+  summary
+    .filter(row => row.deal_count > 0 && row.deal_currency === currency)
+    .forEach(row => {
+      const stage = getStage(row.status);
+      if (stage?.is_lost) return;
+
+      totals.dealCount += row.deal_count;
+      if (stage?.is_won) {
+        totals.won += row.deal_total;
+      } else {
+        totals.pipeline += row.deal_total;
+        totals.weighted += row.weighted_total;
+      }
+    });
+  return totals;
+};
+
+// Buckets deals by expected close month, starting with the current month.
+// Open deals whose close date has passed are grouped as overdue.
+export const buildForecastByMonth = (
+  customers: Customer[],
+  getStage: StageLookup,
+  currency: string,
+  months = 6,
+  today = new Date()
+): ForecastBucket[] => {
+  const firstMonth = startOfMonth(today);
+  const monthBuckets = Array.from({ length: months }, (_, i) => {
+    const month = addMonths(firstMonth, i);
+    return emptyBucket(format(month, 'yyyy-MM'), format(month, 'MMM yyyy'));
+  });
+  const overdue = emptyBucket('overdue', 'Overdue');
+  const later = emptyBucket('later', 'Later');
+  const unscheduled = emptyBucket('unscheduled', 'No close date');
+  const byKey = new Map(monthBuckets.map(bucket => [bucket.key, bucket]));
+  const firstKey = monthBuckets[0]?.key;
+
+  customers.filter(c => hasDeal(c, currency)).forEach(customer => {
+    const stage = getStage(customer.status);
+    if (!customer.expected_close_date) {
+      addToBucket(unscheduled, customer, stage);
+      return;
+    }
+
+    const key = format(parseISO(customer.expected_close_date), 'yyyy-MM');
+    const bucket = byKey.get(key) || (firstKey && key < firstKey ? (stage?.is_won ? null : overdue) : later);
+    if (bucket) addToBucket(bucket, customer, stage);
+  });
+
+  return [overdue, ...monthBuckets, later, unscheduled].filter(
+    bucket => bucket.dealCount > 0 || byKey.has(bucket.key)
+  );
+};
+
+export const buildForecastByRep = (
+  customers: Customer[],
+  getStage: StageLookup,
+  currency: string,
+  repName: (userId: string) => string
+): ForecastBucket[] => {
+  const buckets = new Map<string, ForecastBucket>();
+
+  customers.filter(c => hasDeal(c, currency)).forEach(customer => {
+    const userId = customer.sales_rep_user_id;
+    if (!buckets.has(userId)) buckets.set(userId, emptyBucket(userId, repName(userId)));
+    addToBucket(buckets.get(userId)!, customer, getStage(customer.status));
+  });
+
+  return Array.from(buckets.values()).sort((a, b) => b.weighted - a.weighted);
+};
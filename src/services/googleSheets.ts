@@ -1,4 +1,5 @@
 import { SalesClient } from '@/types/sales';
+import { parseCsv, resolveColumns, extractCustomerRow } from '@/services/csvImport';
 
 export const fetchGoogleSheetsData = async (sheetId: string): Promise<SalesClient[]> => {
   try {
@@ -10,55 +11,30 @@ export const fetchGoogleSheetsData = async (sheetId: string): Promise<SalesClien
     }
     
     const csvText = await response.text();
-    const lines = csvText.trim().split('\n');
+    const { headers, rows } = parseCsv(csvText, { delimiter: ',' });
     
-    if (lines.length < 2) {
+    if (rows.length === 0) {
       throw new Error('CSV must have at least a header row and one data row');
     }
     
-    // Parse header row to get column indices
-    const headerLine = lines[0];
-    const headers = headerLine.split(',').map(col => col.replace(/"/g, '').trim());
-    
     console.log('CSV Headers found:', headers);
     
-    // Find column indices by header name (case-insensitive)
-    const getColumnIndex = (headerName: string): number => {
-      const index = headers.findIndex(h => h.toLowerCase() === headerName.toLowerCase());
-      if (index === -1) {
-        console.warn(`Header "${headerName}" not found in CSV. Available headers:`, headers);
-      }
-      return index;
-    };
-    
-    const firstNameIndex = getColumnIndex('firstName') !== -1 ? getColumnIndex('firstName') : getColumnIndex('first name');
-    const lastNameIndex = getColumnIndex('lastName') !== -1 ? getColumnIndex('lastName') : getColumnIndex('last name');
-    const emailIndex = getColumnIndex('email');
-    const phoneIndex = getColumnIndex('phoneNumber') !== -1 ? getColumnIndex('phoneNumber') : getColumnIndex('phone');
-    const sourceIndex = getColumnIndex('source');
-    
-    console.log('Column mapping:', {
-      firstNameIndex,
-      lastNameIndex,
-      emailIndex,
-      phoneIndex,
-      sourceIndex
-    });
+    const columns = resolveColumns(headers);
     
-    // Skip header row
-    const dataLines = lines.slice(1);
+    console.log('Column mapping:', columns);
     
-    return dataLines.map((line, index) => {
-      const columns = line.split(',').map(col => col.replace(/"/g, '').trim());
+    return rows.map((columnValues, index) => {
+      const row = extractCustomerRow(columnValues, columns, '');
       
       return {
         id: `row_${index}`,
         user_id: '', // Not used for Google Sheets data
-        firstName: firstNameIndex !== -1 ? (columns[firstNameIndex] || '') : '',
-        lastName: lastNameIndex !== -1 ? (columns[lastNameIndex] || '') : '',
-        email: emailIndex !== -1 ? (columns[emailIndex] || '') : '',
-        phoneNo: phoneIndex !== -1 ? (columns[phoneIndex] || '') : '',
-        source: sourceIndex !== -1 ? (columns[sourceIndex] || '') : '',
+        firstName: row.firstName,
+        lastName: row.lastName,
+        email: row.email,
+        phoneNo: row.phone,
+        source: row.source,
+        notes: row.notes || null,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       };
@@ -67,4 +43,4 @@ export const fetchGoogleSheetsData = async (sheetId: string): Promise<SalesClien
     console.error('Error fetching Google Sheets data:', error);
     throw error;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,305 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { CustomerHeaderMapping } from '@/services/csvImport';
+import { getTenantId } from '@/services/roleService';
+import { logAudit } from '@/services/auditService';
+import { Customer } from '@/types/customer';
+
+export const IMPORT_BUCKET = 'csv-imports';
+
+// Declared as a type alias (not an interface) so it stays assignable to the Json column type
+export type ImportJobError = {
+  row: number | null;
+  message: string;
+};
+
+export interface ImportJob {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  file_name: string;
+  file_path: string;
+  status: 'processing' | 'completed' | 'failed' | 'reverted';
+  total_rows: number;
+  inserted_count: number;
+  updated_count: number;
+  skipped_count: number;
+  failed_count: number;
+  mapping: CustomerHeaderMapping;
+  errors: ImportJobError[];
+  rows_path: string | null;
+  staged_rows: number;
+  processed_rows: number;
+  chunk_size: number;
+  next_chunk: number;
+  last_error: string | null;
+  completed_at: string | null;
+  reverted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A reviewed row as staged for the bulk-import-customers edge function
+export type StagedCustomerRow = Pick<
+  Customer,
+  'first_name' | 'last_name' | 'email' | 'phone_no' | 'source' | 'notes' | 'status' | 'custom_fields'
+>;
+
+export interface ImportJobProgress {
+  done: boolean;
+  processed_rows: number;
+  staged_rows: number;
+  inserted_count: number;
+  updated_count: number;
+}
+
+const CHUNK_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+const mapFromDb = (row: Tables<'import_jobs'>): ImportJob => ({
+  ...row,
+  status: row.status as ImportJob['status'],
+  mapping: (row.mapping || {}) as CustomerHeaderMapping,
+  errors: (row.errors || []) as ImportJobError[],
+});
+
+// Stores the original file under the user's folder, as required by the bucket policies
+export const uploadImportFile = async (userId: string, file: File): Promise<string> => {
+  const filePath = `${userId}/${Date.now()}-${file.name}`;
+  const { error } = await supabase.storage
+    .from(IMPORT_BUCKET)
+    .upload(filePath, file);
+
+  if (error) throw error;
+  return filePath;
+};
+
+export const downloadImportFile = async (job: Pick<ImportJob, 'file_path' | 'file_name'>): Promise<File> => {
+  const { data, error } = await supabase.storage
+    .from(IMPORT_BUCKET)
+    .download(job.file_path);
+
+  if (error) throw error;
+  return new File([data], job.file_name, { type: data.type });
+};
+
+// Writes the rows that passed review as NDJSON next to the original file; the
+// edge function reads it back chunk by chunk, so a reload does not lose them
+export const stageImportRows = async (userId: string, fileName: string, rows: StagedCustomerRow[]): Promise<string> => {
+  const rowsPath = `${userId}/${Date.now()}-${fileName.replace(/\.[^.]+$/, '')}.rows.ndjson`;
+  const body = rows.map(row => JSON.stringify(row)).join('\n');
+  const { error } = await supabase.storage
+    .from(IMPORT_BUCKET)
+    .upload(rowsPath, new Blob([body], { type: 'application/x-ndjson' }));
+
+  if (error) throw error;
+  return rowsPath;
+};
+
+export const createImportJob = async (job: {
+  fileName: string;
+  filePath: string;
+  rowsPath: string;
+  totalRows: number;
+  stagedRows: number;
+  skippedRows: number;
+  failedRows: number;
+  errors: ImportJobError[];
+  mapping: CustomerHeaderMapping;
+}): Promise<string | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const tenantId = await getTenantId();
+    if (!tenantId) return null;
+
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .insert({
+        tenant_id: tenantId,
+        user_id: user.id,
+        file_name: job.fileName,
+        file_path: job.filePath,
+        rows_path: job.rowsPath,
+        total_rows: job.totalRows,
+        staged_rows: job.stagedRows,
+        skipped_count: job.skippedRows,
+        failed_count: job.failedRows,
+        errors: job.errors,
+        mapping: job.mapping,
+        status: 'processing',
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      console.error('Error creating import job:', error);
+      return null;
+    }
+
+    return data.id;
+  } catch (error) {
+    console.error('Error in createImportJob:', error);
+    return null;
+  }
+};
+
+// failedCount is the staged rows that were never written; rowErrors keeps the
+// per-row errors the job was created with next to the failure message
+export const failImportJob = async (
+  jobId: string,
+  message: string,
+  failedCount: number,
+  rowErrors: ImportJobError[] = []
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('import_jobs')
+      .update({
+        status: 'failed',
+        failed_count: failedCount,
+        errors: [...rowErrors, { row: null, message }],
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      console.error('Error failing import job:', error);
+      return { success: false, message: 'Failed to update import job' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in failImportJob:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const getImportJobs = async (limit = 50): Promise<ImportJob[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching import jobs:', error);
+      return [];
+    }
+
+    return (data || []).map(mapFromDb);
+  } catch (error) {
+    console.error('Error in getImportJobs:', error);
+    return [];
+  }
+};
+
+// Imports that stopped part way (tab closed, network lost, chunk kept failing)
+export const getUnfinishedImportJobs = async (): Promise<ImportJob[]> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('status', 'processing')
+      .not('rows_path', 'is', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching unfinished import jobs:', error);
+      return [];
+    }
+
+    return (data || []).map(mapFromDb);
+  } catch (error) {
+    console.error('Error in getUnfinishedImportJobs:', error);
+    return [];
+  }
+};
+
+const processImportChunk = async (jobId: string): Promise<ImportJobProgress> => {
+  const { data, error } = await supabase.functions.invoke('bulk-import-customers', {
+    body: { job_id: jobId },
+  });
+
+  if (error || !data?.success) {
+    throw new Error(data?.message || error?.message || 'Failed to import chunk');
+  }
+
+  return data.progress as ImportJobProgress;
+};
+
+// Drives an import job to completion one chunk per edge function call. A failing
+// chunk is retried with backoff; if it keeps failing the job stays in processing
+// and can be resumed later, since the server tracks which chunk comes next.
+export const runImportJob = async (
+  jobId: string,
+  onProgress?: (progress: ImportJobProgress) => void
+): Promise<{ success: boolean; message?: string; progress?: ImportJobProgress }> => {
+  let progress: ImportJobProgress | undefined;
+
+  while (!progress?.done) {
+    let attempt = 0;
+
+    for (;;) {
+      try {
+        progress = await processImportChunk(jobId);
+        break;
+      } catch (error) {
+        attempt++;
+        console.error(`Error importing chunk (attempt ${attempt}):`, error);
+        if (attempt > CHUNK_RETRIES) {
+          return {
+            success: false,
+            message: error instanceof Error ? error.message : 'Failed to import chunk',
+            progress,
+          };
+        }
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+
+    onProgress?.(progress);
+  }
+
+  return { success: true, progress };
+};
+
+// Reverts an import in one transaction; see undo_import_job. Customers changed
+// by a later import are left alone and counted as skipped.
+export const undoImportJob = async (
+  job: ImportJob
+): Promise<{ success: boolean; message?: string; reverted?: number; skipped?: number }> => {
+  try {
+    const { data, error } = await supabase.rpc('undo_import_job', { _job_id: job.id });
+
+    if (error) {
+      console.error('Error undoing import job:', error);
+      return { success: false, message: error.message || 'Failed to undo import' };
+    }
+
+    const reverted = data?.[0]?.reverted ?? 0;
+    const skipped = data?.[0]?.skipped ?? 0;
+    await logAudit(
+      'undo_import',
+      'import_job',
+      job.id,
+      { file_name: job.file_name, inserted: job.inserted_count, updated: job.updated_count },
+      { reverted, skipped, reverted_at: new Date().toISOString() }
+    );
+
+    return { success: true, reverted, skipped };
+  } catch (error) {
+    console.error('Error in undoImportJob:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
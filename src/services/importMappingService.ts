@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import { CustomerHeaderMapping } from '@/services/csvImport';
+import { getTenantId } from '@/services/roleService';
+
+export const getSavedImportMapping = async (): Promise<CustomerHeaderMapping | null> => {
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) return null;
+
+    const { data, error } = await supabase
+      .from('import_column_mappings')
+      .select('mapping')
+      .eq('tenant_id', tenantId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching import mapping:', error);
+      return null;
+    }
+
+    return (data?.mapping as CustomerHeaderMapping) || null;
+  } catch (error) {
+    console.error('Error in getSavedImportMapping:', error);
+    return null;
+  }
+};
+
+export const saveImportMapping = async (mapping: CustomerHeaderMapping): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return { success: false, message: 'User not authenticated' };
+    }
+
+    const tenantId = await getTenantId();
+    if (!tenantId) {
+      return { success: false, message: 'Tenant not found' };
+    }
+
+    const { error } = await supabase
+      .from('import_column_mappings')
+      .upsert(
+        {
+          tenant_id: tenantId,
+          mapping,
+          updated_by: user.id,
+        },
+        { onConflict: 'tenant_id' }
+      );
+
+    if (error) {
+      console.error('Error saving import mapping:', error);
+      return { success: false, message: 'Failed to save import mapping' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in saveImportMapping:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
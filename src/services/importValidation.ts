@@ -0,0 +1,222 @@
+import { Customer } from '@/types/customer';
+import { PipelineStageConfig } from '@/types/pipeline';
+import { CustomField } from '@/types/customField';
+import { parseCustomFieldValue } from '@/lib/customFields';
+import {
+  CustomerColumnMap,
+  CustomerImportField,
+  ImportedCustomerRow,
+  customFieldRawValue,
+  extractCustomerRow,
+  isKnownStatus,
+  isValidEmail,
+  normalizePhone,
+  toCsv,
+} from '@/services/csvImport';
+
+export type ImportRowAction = 'import' | 'skip';
+
+export interface ImportIssue {
+  field: CustomerImportField | 'customFields';
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface ImportReportRow {
+  rowNumber: number; // 1-based position in the file, header included
+  raw: string[];
+  customer: ImportedCustomerRow;
+  issues: ImportIssue[];
+  existingCustomerId: string | null; // set when the email already belongs to a customer
+  duplicateOfRow: number | null; // set when an earlier row in the same file has this email
+  action: ImportRowAction;
+}
+
+export interface ImportReportSummary {
+  total: number;
+  toInsert: number;
+  toUpdate: number;
+  skipped: number;
+  invalid: number;
+}
+
+const rawValue = (raw: string[], columns: CustomerColumnMap, field: CustomerImportField) =>
+  columns[field] !== -1 ? (raw[columns[field]] || '').trim() : '';
+
+const validateRow = (
+  row: ImportReportRow,
+  columns: CustomerColumnMap,
+  stages?: PipelineStageConfig[],
+  customFields: CustomField[] = []
+): ImportIssue[] => {
+  const { customer, raw } = row;
+  const issues: ImportIssue[] = [];
+
+  if (!customer.email) {
+    issues.push({ field: 'email', message: 'Missing email', severity: 'error' });
+  } else if (!isValidEmail(customer.email)) {
+    issues.push({ field: 'email', message: `"${customer.email}" is not a valid email address`, severity: 'error' });
+  }
+
+  if (!customer.firstName && !customer.lastName) {
+    issues.push({ field: 'fullName', message: 'Missing name (provide Full Name or First/Last Name)', severity: 'error' });
+  }
+
+  const rawPhone = rawValue(raw, columns, 'phone');
+  if (customer.phone) {
+    if (/e/i.test(rawPhone) && normalizePhone(rawPhone) === customer.phone) {
+      issues.push({ field: 'phone', message: `Phone converted from scientific notation (${rawPhone})`, severity: 'warning' });
+    }
+    if (customer.phone.replace(/\D/g, '').length < 7) {
+      issues.push({ field: 'phone', message: 'Phone number looks too short', severity: 'warning' });
+    }
+  } else if (rawPhone) {
+    issues.push({ field: 'phone', message: `Phone "${rawPhone}" contains no digits`, severity: 'warning' });
+  }
+
+  const rawStatus = rawValue(raw, columns, 'status');
+  if (!isKnownStatus(rawStatus, stages)) {
+    issues.push({ field: 'status', message: `Unrecognized status "${rawStatus}", imported as ${customer.status}`, severity: 'warning' });
+  }
+
+  customFields.forEach(field => {
+    const { error } = parseCustomFieldValue(field, customFieldRawValue(raw, columns, field));
+    if (error) {
+      issues.push({ field: 'customFields', message: `${error}; the value is left empty`, severity: 'warning' });
+    }
+  });
+
+  return issues;
+};
+
+export const hasErrors = (row: ImportReportRow): boolean =>
+  row.issues.some(issue => issue.severity === 'error');
+
+// Recomputes issues and duplicate links for every row, e.g. after a row was fixed.
+// User-chosen actions are kept; rows seen for the first time default to import
+// unless they are invalid or match a customer that already exists.
+export const analyzeImportReport = (
+  rows: ImportReportRow[],
+  columns: CustomerColumnMap,
+  existingCustomers: Customer[],
+  resetActions = false,
+  stages?: PipelineStageConfig[],
+  customFields: CustomField[] = []
+): ImportReportRow[] => {
+  const existingByEmail = new Map(existingCustomers.map(c => [c.email.toLowerCase(), c.id]));
+  const seenInFile = new Map<string, number>();
+
+  return rows.map(row => {
+    const email = row.customer.email.toLowerCase();
+    const duplicateOfRow = email && seenInFile.has(email) ? seenInFile.get(email)! : null;
+    if (email && duplicateOfRow === null) {
+      seenInFile.set(email, row.rowNumber);
+    }
+
+    const next: ImportReportRow = {
+      ...row,
+      issues: validateRow(row, columns, stages, customFields),
+      existingCustomerId: existingByEmail.get(email) || null,
+      duplicateOfRow,
+    };
+
+    if (duplicateOfRow !== null) {
+      next.issues.push({ field: 'email', message: `Duplicate of row ${duplicateOfRow} in this file`, severity: 'error' });
+    }
+
+    if (next.existingCustomerId) {
+      next.issues.push({ field: 'email', message: 'Customer already exists; importing will update it', severity: 'warning' });
+    }
+
+    if (resetActions) {
+      next.action = hasErrors(next) || next.existingCustomerId ? 'skip' : 'import';
+    }
+
+    return next;
+  });
+};
+
+export const buildImportReport = (
+  rows: string[][],
+  columns: CustomerColumnMap,
+  existingCustomers: Customer[],
+  defaultSource = 'CSV Import',
+  stages?: PipelineStageConfig[],
+  customFields: CustomField[] = []
+): ImportReportRow[] => {
+  const initial: ImportReportRow[] = rows.map((raw, index) => ({
+    rowNumber: index + 2,
+    raw,
+    customer: extractCustomerRow(raw, columns, defaultSource, stages, customFields),
+    issues: [],
+    existingCustomerId: null,
+    duplicateOfRow: null,
+    action: 'import',
+  }));
+
+  return analyzeImportReport(initial, columns, existingCustomers, true, stages, customFields);
+};
+
+// Applies a manual fix to a row. The raw values are updated too so the
+// rejected-rows export and later re-validation reflect the corrected data.
+export const applyRowFix = (
+  row: ImportReportRow,
+  columns: CustomerColumnMap,
+  updates: Partial<ImportedCustomerRow>
+): ImportReportRow => {
+  const customer = { ...row.customer, ...updates };
+  if (updates.phone !== undefined) {
+    customer.phone = normalizePhone(updates.phone);
+  }
+
+  const raw = [...row.raw];
+  const writeRaw = (field: CustomerImportField, value: string) => {
+    if (columns[field] !== -1) raw[columns[field]] = value;
+  };
+
+  if (updates.firstName !== undefined || updates.lastName !== undefined) {
+    writeRaw('fullName', `${customer.firstName} ${customer.lastName}`.trim());
+    writeRaw('firstName', customer.firstName);
+    writeRaw('lastName', customer.lastName);
+  }
+  if (updates.email !== undefined) writeRaw('email', customer.email);
+  if (updates.phone !== undefined) writeRaw('phone', customer.phone);
+
+  return { ...row, raw, customer, action: 'import' };
+};
+
+export const isImportable = (row: ImportReportRow): boolean =>
+  row.action === 'import' && !hasErrors(row);
+
+export const summarizeImportReport = (rows: ImportReportRow[]): ImportReportSummary => {
+  const summary: ImportReportSummary = { total: rows.length, toInsert: 0, toUpdate: 0, skipped: 0, invalid: 0 };
+
+  rows.forEach(row => {
+    if (hasErrors(row)) {
+      summary.invalid++;
+    } else if (row.action === 'skip') {
+      summary.skipped++;
+    } else if (row.existingCustomerId) {
+      summary.toUpdate++;
+    } else {
+      summary.toInsert++;
+    }
+  });
+
+  return summary;
+};
+
+// CSV of every row that will not be imported, with the reasons appended
+export const buildRejectedRowsCsv = (headers: string[], rows: ImportReportRow[]): string => {
+  const rejected = rows.filter(row => !isImportable(row));
+  return toCsv([
+    [...headers, 'Row', 'Import Errors'],
+    ...rejected.map(row => [
+      ...headers.map((_, index) => row.raw[index] ?? ''),
+      row.rowNumber,
+      hasErrors(row)
+        ? row.issues.filter(issue => issue.severity === 'error').map(issue => issue.message).join('; ')
+        : 'Skipped by user',
+    ]),
+  ]);
+};
@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getTenantId } from '@/services/roleService';
+import { LeadRoutingRule, LeadRoutingRuleConfig, RoutingStrategy } from '@/types/leadRouting';
+
+export const ROUTING_STRATEGY_LABELS: Record<RoutingStrategy, string> = {
+  round_robin: 'Round-robin',
+  least_loaded: 'Least loaded',
+};
+
+const cleanRule = (rule: Partial<LeadRoutingRuleConfig>): Partial<LeadRoutingRuleConfig> => ({
+  ...rule,
+  ...(rule.name !== undefined && { name: rule.name.trim() }),
+  ...(rule.match_source !== undefined && { match_source: rule.match_source?.trim() || null }),
+  ...(rule.match_phone_prefix !== undefined && { match_phone_prefix: rule.match_phone_prefix?.trim() || null }),
+});
+
+export const getLeadRoutingRules = async (): Promise<LeadRoutingRule[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('lead_routing_rules')
+      .select('*')
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching lead routing rules:', error);
+      return [];
+    }
+
+    return (data || []).map(row => ({ ...row, strategy: row.strategy as RoutingStrategy }));
+  } catch (error) {
+    console.error('Error in getLeadRoutingRules:', error);
+    return [];
+  }
+};
+
+export const createLeadRoutingRule = async (
+  rule: LeadRoutingRuleConfig
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) {
+      return { success: false, message: 'Tenant not found' };
+    }
+
+    if (!rule.name.trim()) {
+      return { success: false, message: 'Rule name is required' };
+    }
+
+    const { data: last } = await supabase
+      .from('lead_routing_rules')
+      .select('position')
+      .eq('tenant_id', tenantId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { error } = await supabase
+      .from('lead_routing_rules')
+      .insert({
+        ...cleanRule(rule),
+        name: rule.name.trim(),
+        tenant_id: tenantId,
+        position: last ? last.position + 1 : 0,
+      });
+
+    if (error) {
+      console.error('Error creating lead routing rule:', error);
+      return { success: false, message: 'Failed to create rule' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in createLeadRoutingRule:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const updateLeadRoutingRule = async (
+  id: string,
+  updates: Partial<LeadRoutingRuleConfig>
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    if (updates.name !== undefined && !updates.name.trim()) {
+      return { success: false, message: 'Rule name is required' };
+    }
+
+    const { error } = await supabase
+      .from('lead_routing_rules')
+      .update(cleanRule(updates))
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating lead routing rule:', error);
+      return { success: false, message: 'Failed to update rule' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updateLeadRoutingRule:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Writes position = index for the given order of rule ids
+export const reorderLeadRoutingRules = async (orderedIds: string[]): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const results = await Promise.all(
+      orderedIds.map((id, position) => supabase.from('lead_routing_rules').update({ position }).eq('id', id))
+    );
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      console.error('Error reordering lead routing rules:', failed.error);
+      return { success: false, message: 'Failed to reorder rules' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in reorderLeadRoutingRules:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const deleteLeadRoutingRule = async (id: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('lead_routing_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting lead routing rule:', error);
+      return { success: false, message: 'Failed to delete rule' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteLeadRoutingRule:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface Notification {
+  id: string;
+  tenant_id: string | null;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+// Notifications are created server-side by the follow-up-reminders function
+export const getNotifications = async (limit = 30): Promise<Notification[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching notifications:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getNotifications:', error);
+    return [];
+  }
+};
+
+export const markNotificationsRead = async (ids: string[]): Promise<{ success: boolean; message?: string }> => {
+  try {
+    if (ids.length === 0) return { success: true };
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .in('id', ids)
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error marking notifications read:', error);
+      return { success: false, message: 'Failed to update notifications' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in markNotificationsRead:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
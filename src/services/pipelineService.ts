@@ -0,0 +1,151 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getTenantId } from '@/services/roleService';
+import { toStageKey } from '@/lib/pipeline';
+import { PipelineStage, PipelineStageConfig } from '@/types/pipeline';
+
+export const getPipelineStages = async (): Promise<PipelineStage[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('pipeline_stages')
+      .select('*')
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching pipeline stages:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getPipelineStages:', error);
+    return [];
+  }
+};
+
+export const createPipelineStage = async (
+  stage: Omit<PipelineStageConfig, 'key' | 'position'>
+): Promise<{ success: boolean; message?: string; stage?: PipelineStage }> => {
+  try {
+    const tenantId = await getTenantId();
+    if (!tenantId) {
+      return { success: false, message: 'Tenant not found' };
+    }
+
+    const key = toStageKey(stage.name);
+    if (!key) {
+      return { success: false, message: 'Stage name must contain letters or digits' };
+    }
+
+    const { data: last } = await supabase
+      .from('pipeline_stages')
+      .select('position')
+      .eq('tenant_id', tenantId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('pipeline_stages')
+      .insert({
+        tenant_id: tenantId,
+        key,
+        name: stage.name.trim(),
+        color: stage.color,
+        is_won: stage.is_won,
+        is_lost: stage.is_lost,
+        position: last ? last.position + 1 : 0,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating pipeline stage:', error);
+      return {
+        success: false,
+        message: error.code === '23505' ? 'A stage with this name already exists' : 'Failed to create stage',
+      };
+    }
+
+    return { success: true, stage: data };
+  } catch (error) {
+    console.error('Error in createPipelineStage:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// The key is fixed once created because customers reference it
+export const updatePipelineStage = async (
+  id: string,
+  updates: Partial<Pick<PipelineStage, 'name' | 'color' | 'is_won' | 'is_lost'>>
+): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating pipeline stage:', error);
+      return { success: false, message: 'Failed to update stage' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in updatePipelineStage:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Writes position = index for the given order of stage ids
+export const reorderPipelineStages = async (orderedIds: string[]): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const results = await Promise.all(
+      orderedIds.map((id, position) => supabase.from('pipeline_stages').update({ position }).eq('id', id))
+    );
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      console.error('Error reordering pipeline stages:', failed.error);
+      return { success: false, message: 'Failed to reorder stages' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in reorderPipelineStages:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+// Stages still used by customers cannot be removed; move those customers first
+export const deletePipelineStage = async (stage: PipelineStage): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { count, error: countError } = await supabase
+      .from('customers')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', stage.key);
+
+    if (countError) {
+      console.error('Error counting customers in stage:', countError);
+      return { success: false, message: 'Failed to delete stage' };
+    }
+
+    if (count) {
+      return { success: false, message: `${count} customer(s) are still in "${stage.name}"` };
+    }
+
+    const { error } = await supabase
+      .from('pipeline_stages')
+      .delete()
+      .eq('id', stage.id);
+
+    if (error) {
+      console.error('Error deleting pipeline stage:', error);
+      return { success: false, message: 'Failed to delete stage' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deletePipelineStage:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
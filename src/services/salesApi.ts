@@ -1,4 +1,5 @@
 import { ProcessClientRequest, ProcessClientResponse } from '@/types/sales';
+import { Customer } from '@/types/customer';
 
 const API_ENDPOINT = 'https://pristinepro.app.n8n.cloud/webhook/447595ea-ce51-4eb6-ae2b-c4993a381dc5';
 
@@ -28,4 +29,36 @@ export const processClient = async (payload: ProcessClientRequest): Promise<Proc
       message: error instanceof Error ? error.message : 'Unknown error occurred'
     };
   }
-};
\ No newline at end of file
+};
+
+export const toProcessClientRequest = (customer: Customer): ProcessClientRequest => ({
+  firstName: customer.first_name,
+  lastName: customer.last_name,
+  email: customer.email,
+  phoneNo: customer.phone_no,
+  notes: customer.notes || '',
+});
+
+// Sends customers to the processing webhook a few at a time, reporting each result
+// as it arrives. No new calls are started once shouldStop returns true.
+export const processCustomersInBatches = async (
+  customers: Customer[],
+  onResult: (customer: Customer, result: ProcessClientResponse) => void,
+  {
+    concurrency = 3,
+    shouldStop = () => false,
+    onStart,
+  }: { concurrency?: number; shouldStop?: () => boolean; onStart?: (customer: Customer) => void } = {}
+): Promise<void> => {
+  const queue = [...customers];
+
+  const worker = async () => {
+    while (queue.length > 0 && !shouldStop()) {
+      const customer = queue.shift()!;
+      onStart?.(customer);
+      onResult(customer, await processClient(toProcessClientRequest(customer)));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+};
@@ -1,5 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
-import { SalesRep, CreateSalesRepRequest } from '@/types/salesRep';
+import { SalesRep, CreateSalesRepRequest, AssignableSalesRep } from '@/types/salesRep';
 
 export const getSalesReps = async (): Promise<SalesRep[]> => {
   try {
@@ -20,6 +20,22 @@ export const getSalesReps = async (): Promise<SalesRep[]> => {
   }
 };
 
+export const getAssignableSalesReps = async (): Promise<AssignableSalesRep[]> => {
+  try {
+    const { data, error } = await supabase.rpc('get_assignable_sales_reps');
+
+    if (error) {
+      console.error('Error fetching assignable sales reps:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getAssignableSalesReps:', error);
+    return [];
+  }
+};
+
 export const inviteSalesRep = async (salesRepData: CreateSalesRepRequest): Promise<{ success: boolean; message?: string }> => {
   try {
     // Use Edge Function with service role to handle privileged invite flow
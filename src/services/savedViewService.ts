@@ -0,0 +1,134 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { getTenantId } from '@/services/roleService';
+import { SavedView, SavedViewConfig, SavedViewTable, TableViewState } from '@/types/savedView';
+
+const mapFromDb = (row: {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  table_key: string;
+  name: string;
+  state: Json;
+  is_shared: boolean;
+  created_at: string;
+  updated_at: string;
+}): SavedView => ({
+  ...row,
+  table_key: row.table_key as SavedViewTable,
+  state: (row.state && typeof row.state === 'object' && !Array.isArray(row.state) ? row.state : {}) as TableViewState,
+});
+
+// The user's own views and the ones shared with the tenant, by name
+export const getSavedViews = async (table: SavedViewTable): Promise<SavedView[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('table_key', table)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching saved views:', error);
+      return [];
+    }
+
+    return (data || []).map(mapFromDb);
+  } catch (error) {
+    console.error('Error in getSavedViews:', error);
+    return [];
+  }
+};
+
+export const createSavedView = async (
+  table: SavedViewTable,
+  view: SavedViewConfig
+): Promise<{ success: boolean; message?: string; view?: SavedView }> => {
+  try {
+    const [{ data: { user } }, tenantId] = await Promise.all([supabase.auth.getUser(), getTenantId()]);
+    if (!user || !tenantId) {
+      return { success: false, message: 'Tenant not found' };
+    }
+
+    if (!view.name.trim()) {
+      return { success: false, message: 'View name is required' };
+    }
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .insert({
+        tenant_id: tenantId,
+        user_id: user.id,
+        table_key: table,
+        name: view.name.trim(),
+        state: view.state as Json,
+        is_shared: view.is_shared,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating saved view:', error);
+      return {
+        success: false,
+        message: error.code === '23505' ? 'You already have a view with this name' : 'Failed to save view',
+      };
+    }
+
+    return { success: true, view: mapFromDb(data) };
+  } catch (error) {
+    console.error('Error in createSavedView:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const updateSavedView = async (
+  id: string,
+  updates: Partial<SavedViewConfig>
+): Promise<{ success: boolean; message?: string; view?: SavedView }> => {
+  try {
+    if (updates.name !== undefined && !updates.name.trim()) {
+      return { success: false, message: 'View name is required' };
+    }
+
+    const { data, error } = await supabase
+      .from('saved_views')
+      .update({
+        ...(updates.name !== undefined && { name: updates.name.trim() }),
+        ...(updates.state !== undefined && { state: updates.state as Json }),
+        ...(updates.is_shared !== undefined && { is_shared: updates.is_shared }),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating saved view:', error);
+      return { success: false, message: 'Failed to update view' };
+    }
+
+    return { success: true, view: mapFromDb(data) };
+  } catch (error) {
+    console.error('Error in updateSavedView:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
+
+export const deleteSavedView = async (id: string): Promise<{ success: boolean; message?: string }> => {
+  try {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting saved view:', error);
+      return { success: false, message: 'Failed to delete view' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error in deleteSavedView:', error);
+    return { success: false, message: 'An unexpected error occurred' };
+  }
+};
@@ -0,0 +1,22 @@
+export type AccountSize = '1-10' | '11-50' | '51-200' | '201-1000' | '1000+';
+
+export interface Account {
+  id: string;
+  tenant_id: string;
+  name: string;
+  domain: string | null; // customers with an email at this domain are linked automatically
+  industry: string | null;
+  size: AccountSize | null; // number of employees
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type AccountConfig = Pick<Account, 'name' | 'domain' | 'industry' | 'size'>;
+
+// Contacts of one account in one stage and workflow status, from get_account_summary
+export interface AccountSummaryRow {
+  account_id: string;
+  status: string | null;
+  workflow_status: string | null; // null until the contact's workflow starts
+  customer_count: number;
+}
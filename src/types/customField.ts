@@ -0,0 +1,20 @@
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'boolean';
+
+// Dates are stored as yyyy-MM-dd strings
+export type CustomFieldValue = string | number | boolean;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomField {
+  id: string;
+  tenant_id: string;
+  key: string; // property of customers.custom_fields; fixed once created
+  label: string;
+  field_type: CustomFieldType; // fixed once created so stored values keep their type
+  options: string[]; // choices of a select field
+  position: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type CustomFieldConfig = Pick<CustomField, 'label' | 'field_type' | 'options'>;
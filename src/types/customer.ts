@@ -1,3 +1,6 @@
+import { FilterGroup } from '@/types/filter';
+import { CustomFieldValues } from '@/types/customField';
+
 export interface Customer {
   id: string;
   sales_rep_user_id: string;
@@ -9,7 +12,49 @@ export interface Customer {
   phone_no: string;
   source: string;
   notes?: string | null;
-  status?: string; // optional workflow status: pending|active|won|lost
+  status?: string; // key of one of the tenant's pipeline_stages
+  status_changed_at?: string; // when the customer entered its current stage
+  deal_amount?: number | null;
+  deal_currency?: string; // ISO 4217 code
+  deal_probability?: number | null; // 0-100, chance the deal closes as won
+  expected_close_date?: string | null; // yyyy-MM-dd
+  import_job_id?: string | null; // import batch that last created or modified the row
+  routing_rule_id?: string | null; // lead routing rule that assigned the rep, for webhook leads
+  routing_reason?: string | null; // how the rep was chosen, e.g. 'Rule "UK leads" (round-robin)'
+  workflow_status?: string | null; // status of the onboarding workflow, null until one starts
+  custom_fields?: CustomFieldValues; // values of the tenant's custom fields, by key
+  account_id?: string | null; // company the customer works for; linked from the email domain when not set
   created_at?: string;
   updated_at?: string;
-}
\ No newline at end of file
+}
+export type CustomerSortField = 'first_name' | 'last_name' | 'email' | 'phone_no' | 'deal_amount' | 'created_at';
+
+export interface CustomerQuery {
+  search?: string; // words matched by prefix against name, email, phone and notes
+  status?: string; // pipeline stage key
+  salesRepUserId?: string;
+  filter?: FilterGroup; // conditions from the filter builder
+  sortBy?: CustomerSortField; // newest first when not set
+  sortDesc?: boolean;
+}
+
+export interface CustomerPageQuery extends CustomerQuery {
+  page: number; // zero-based
+  pageSize: number;
+}
+
+export interface CustomerPage {
+  customers: Customer[];
+  total: number;
+}
+
+// Customers of one owner in one stage and deal currency, from get_customer_stage_summary
+export interface CustomerStageSummary {
+  sales_rep_user_id: string;
+  status: string | null;
+  deal_currency: string;
+  customer_count: number;
+  deal_count: number;
+  deal_total: number;
+  weighted_total: number; // deal amounts weighted by their probability
+}
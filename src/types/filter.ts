@@ -0,0 +1,30 @@
+export type FilterOperator =
+  | 'contains'
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'before'
+  | 'after'
+  | 'between'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface FilterCondition {
+  id: string;
+  field: string; // key of one of the table's filter fields, e.g. 'source'
+  operator: FilterOperator;
+  value?: string; // the compared value, or the start of a 'between' range
+  valueTo?: string; // end of a 'between' range, inclusive
+  values?: string[]; // choices for 'in' and 'not_in'
+}
+
+// Conditions joined by AND or OR; groups nest, e.g. source is "web" AND
+// (stage is any of won, lost OR created before 2025-01-01)
+export interface FilterGroup {
+  id: string;
+  combinator: 'and' | 'or';
+  conditions: (FilterCondition | FilterGroup)[];
+}
@@ -0,0 +1,21 @@
+export type RoutingStrategy = 'round_robin' | 'least_loaded';
+
+export interface LeadRoutingRule {
+  id: string;
+  tenant_id: string;
+  name: string;
+  position: number; // rules are tried in ascending order
+  is_active: boolean;
+  strategy: RoutingStrategy;
+  match_source: string | null; // NULL matches any source
+  match_phone_prefix: string | null; // compared on digits only; NULL matches any phone
+  sales_rep_ids: string[]; // candidate reps; empty means every active rep
+  last_assigned_sales_rep_id: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type LeadRoutingRuleConfig = Pick<
+  LeadRoutingRule,
+  'name' | 'is_active' | 'strategy' | 'match_source' | 'match_phone_prefix' | 'sales_rep_ids'
+>;
@@ -0,0 +1,14 @@
+export interface PipelineStage {
+  id: string;
+  tenant_id: string;
+  key: string; // stored in customers.status
+  name: string;
+  position: number;
+  is_won: boolean;
+  is_lost: boolean;
+  color: string; // hex color used for badges and charts
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type PipelineStageConfig = Pick<PipelineStage, 'key' | 'name' | 'position' | 'is_won' | 'is_lost' | 'color'>;
@@ -11,6 +11,9 @@ export interface SalesRep {
   updated_at: string;
 }
 
+// Active rep of the tenant that customers can be reassigned to
+export type AssignableSalesRep = Pick<SalesRep, 'id' | 'user_id' | 'first_name' | 'last_name'>;
+
 export interface CreateSalesRepRequest {
   first_name: string;
   last_name: string;
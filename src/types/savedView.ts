@@ -0,0 +1,39 @@
+import { FilterGroup } from '@/types/filter';
+
+export type SavedViewTable = 'customers' | 'sales_reps';
+
+export interface TableFilter {
+  id: string; // column id, e.g. 'status'
+  value: string;
+}
+
+export interface TableSort {
+  id: string; // column id
+  desc: boolean;
+}
+
+// Filters, sort and layout of a table. Kept in the URL so it survives reloads
+// and can be shared as a link, and stored as is in saved views.
+export interface TableViewState {
+  search?: string;
+  filters?: TableFilter[];
+  advancedFilter?: FilterGroup; // conditions from the filter builder
+  sorting?: TableSort[];
+  columnVisibility?: Record<string, boolean>; // hidden columns are false
+  columnOrder?: string[];
+  pageSize?: number;
+}
+
+export interface SavedView {
+  id: string;
+  tenant_id: string;
+  user_id: string;
+  table_key: SavedViewTable;
+  name: string;
+  state: TableViewState;
+  is_shared: boolean; // visible to the whole tenant; only client admins can share
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type SavedViewConfig = Pick<SavedView, 'name' | 'state' | 'is_shared'>;
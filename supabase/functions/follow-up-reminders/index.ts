@@ -0,0 +1,187 @@
+// Supabase Edge Function: follow-up-reminders
+// Runs on a pg_cron schedule (see the follow_up_reminders migration). Marks open
+// tasks whose due date has passed as overdue and notifies the rep who owns the task
+// and the client admins of the rep's tenant. Each task is only flagged once; moving
+// its due date or completing it clears the flag.
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// Upper bound per run; the next run picks up the rest
+const BATCH_SIZE = 500;
+
+type OverdueTask = {
+  id: string;
+  tenant_id: string | null;
+  customer_id: string;
+  user_id: string;
+  subject: string;
+  due_at: string;
+  customers: { first_name: string; last_name: string } | null;
+};
+
+type NotificationRow = {
+  tenant_id: string | null;
+  user_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+};
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders },
+  });
+
+serve(async (req) => {
+  // Handle CORS
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL") || "https://zwhtgerardkbjvjmruvt.supabase.co";
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const cronSecret = Deno.env.get("CRON_SECRET");
+
+  if (!serviceKey || !cronSecret) {
+    console.error("Missing service role key or cron secret");
+    return jsonResponse({ success: false, message: "Server misconfiguration" }, 500);
+  }
+
+  // Only the scheduler knows the secret; the function is deployed without JWT verification
+  if (req.headers.get("Authorization") !== `Bearer ${cronSecret}`) {
+    return jsonResponse({ success: false, message: "Unauthorized" }, 401);
+  }
+
+  const supabaseAdmin = createClient(supabaseUrl, serviceKey);
+
+  try {
+    if (req.method !== "POST") {
+      return jsonResponse({ success: false, message: "Method not allowed" }, 405);
+    }
+
+    const now = new Date().toISOString();
+
+    const { data: tasks, error: tasksError } = await supabaseAdmin
+      .from("activities")
+      .select("id, tenant_id, customer_id, user_id, subject, due_at, customers(first_name, last_name)")
+      .eq("type", "task")
+      .is("completed_at", null)
+      .is("overdue_at", null)
+      .lt("due_at", now)
+      .order("due_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (tasksError) {
+      console.error("Error fetching overdue tasks:", tasksError);
+      return jsonResponse({ success: false, message: "Failed to fetch overdue tasks" }, 500);
+    }
+
+    const fetched = (tasks || []) as OverdueTask[];
+    if (fetched.length === 0) {
+      return jsonResponse({ success: true, marked: 0, notified: 0 });
+    }
+
+    // Flag first so a failure while notifying never notifies twice. Only the tasks
+    // this run flagged are notified; an overlapping run may have taken the others.
+    const { data: marked, error: markError } = await supabaseAdmin
+      .from("activities")
+      .update({ overdue_at: now })
+      .in("id", fetched.map((task) => task.id))
+      .is("overdue_at", null)
+      .select("id");
+
+    if (markError) {
+      console.error("Error marking tasks overdue:", markError);
+      return jsonResponse({ success: false, message: "Failed to mark tasks overdue" }, 500);
+    }
+
+    const markedIds = new Set((marked || []).map((row) => row.id));
+    const overdue = fetched.filter((task) => markedIds.has(task.id));
+    if (overdue.length === 0) {
+      return jsonResponse({ success: true, marked: 0, notified: 0 });
+    }
+
+    const notifications: NotificationRow[] = overdue.map((task) => {
+      const customerName = task.customers
+        ? `${task.customers.first_name} ${task.customers.last_name}`
+        : "a customer";
+      return {
+        tenant_id: task.tenant_id,
+        user_id: task.user_id,
+        type: "task_overdue",
+        title: `Overdue: ${task.subject}`,
+        body: `Follow-up with ${customerName} was due ${new Date(task.due_at).toUTCString()}`,
+        link: `/customers/${task.customer_id}`,
+      };
+    });
+
+    // Client admins get one summary per rep instead of one per task
+    const tenantIds = [...new Set(overdue.map((task) => task.tenant_id).filter(Boolean))] as string[];
+    const repUserIds = [...new Set(overdue.map((task) => task.user_id))];
+
+    const [{ data: admins, error: adminsError }, { data: reps, error: repsError }] = await Promise.all([
+      supabaseAdmin
+        .from("user_roles")
+        .select("user_id, tenant_id")
+        .eq("role", "client_admin")
+        .in("tenant_id", tenantIds),
+      supabaseAdmin
+        .from("sales_reps")
+        .select("user_id, first_name, last_name")
+        .in("user_id", repUserIds),
+    ]);
+
+    if (adminsError || repsError) {
+      console.error("Error fetching admins or reps:", adminsError || repsError);
+    }
+
+    const repNames = new Map(
+      (reps || []).map((rep) => [rep.user_id, `${rep.first_name} ${rep.last_name}`])
+    );
+    const perRep = new Map<string, { tenantId: string; count: number }>();
+    overdue.forEach((task) => {
+      if (!task.tenant_id) return;
+      const key = `${task.tenant_id}:${task.user_id}`;
+      const entry = perRep.get(key) || { tenantId: task.tenant_id, count: 0 };
+      entry.count++;
+      perRep.set(key, entry);
+    });
+
+    perRep.forEach(({ tenantId, count }, key) => {
+      const repUserId = key.slice(tenantId.length + 1);
+      const repName = repNames.get(repUserId) || "A sales rep";
+      (admins || [])
+        .filter((admin) => admin.tenant_id === tenantId && admin.user_id !== repUserId)
+        .forEach((admin) => {
+          notifications.push({
+            tenant_id: tenantId,
+            user_id: admin.user_id,
+            type: "rep_tasks_overdue",
+            title: `${repName} has ${count} overdue follow-up${count === 1 ? "" : "s"}`,
+            body: null,
+            link: null,
+          });
+        });
+    });
+
+    const { error: notifyError } = await supabaseAdmin.from("notifications").insert(notifications);
+    if (notifyError) {
+      console.error("Error creating notifications:", notifyError);
+      return jsonResponse({ success: false, message: "Failed to create notifications", marked: overdue.length }, 500);
+    }
+
+    return jsonResponse({ success: true, marked: overdue.length, notified: notifications.length });
+  } catch (error) {
+    console.error("Unexpected error in follow-up-reminders:", error);
+    return jsonResponse({ success: false, message: "An unexpected error occurred" }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 // Supabase Edge Function: webhook-customer-onboard
 // Receives customer data from n8n webhook and creates customer records
-// Associates customers with the specified sales rep
+// Associates customers with the specified sales rep, or routes them to one with the
+// tenant's lead routing rules when the caller only knows the tenant
 
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
@@ -16,12 +17,59 @@ interface CustomerPayload {
   last_name: string;
   email: string;
   phone_no: string;
-  sales_rep_email: string;
+  sales_rep_email?: string;
+  tenant_id?: string; // required when sales_rep_email is not given
   source: string;
   notes?: string;
-  status?: "pending" | "active" | "won" | "lost";
+  status?: string; // key or name of one of the tenant's pipeline stages
+  custom_fields?: Record<string, unknown>; // keyed by custom field key or label
 }
 
+type CustomFieldDefinition = {
+  key: string;
+  label: string;
+  field_type: "text" | "number" | "date" | "select" | "boolean";
+  options: string[];
+};
+
+type CustomFieldValue = string | number | boolean;
+
+// Converts one incoming value to what the customer table stores; mirrors
+// parseCustomFieldValue in src/lib/customFields.ts. Empty values are dropped.
+const toCustomFieldValue = (
+  field: CustomFieldDefinition,
+  raw: unknown
+): { value?: CustomFieldValue; error?: string } => {
+  if (raw === null || raw === undefined || (typeof raw === "string" && !raw.trim())) return {};
+  const text = String(raw).trim();
+
+  switch (field.field_type) {
+    case "number": {
+      const number = typeof raw === "number" ? raw : Number(text.replace(/[\s,]/g, ""));
+      return Number.isFinite(number) ? { value: number } : { error: `${field.key} must be a number` };
+    }
+    case "date": {
+      const date = new Date(text);
+      return /^\d{4}-\d{2}-\d{2}/.test(text) && !isNaN(date.getTime())
+        ? { value: text.slice(0, 10) }
+        : { error: `${field.key} must be a date (YYYY-MM-DD)` };
+    }
+    case "boolean": {
+      if (typeof raw === "boolean") return { value: raw };
+      const lower = text.toLowerCase();
+      if (["true", "yes", "y", "1"].includes(lower)) return { value: true };
+      if (["false", "no", "n", "0"].includes(lower)) return { value: false };
+      return { error: `${field.key} must be true or false` };
+    }
+    case "select": {
+      const option = field.options.find((choice) => choice.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { error: `${field.key} must be one of: ${field.options.join(", ")}` };
+    }
+    default:
+      return { value: text };
+  }
+};
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === "OPTIONS") {
@@ -37,9 +85,10 @@ serve(async (req) => {
     }
 
     const payload = (await req.json()) as CustomerPayload;
-    const { first_name, last_name, email, phone_no, sales_rep_email, source, notes, status } = payload || {};
+    const { first_name, last_name, email, phone_no, sales_rep_email, tenant_id, source, notes, status, custom_fields } =
+      payload || {};
 
-    if (!first_name || !last_name || !email || !phone_no || !sales_rep_email) {
+    if (!first_name || !last_name || !email || !phone_no || (!sales_rep_email && !tenant_id)) {
       return new Response(
         JSON.stringify({ success: false, message: "Missing required fields" }),
         { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
@@ -59,26 +108,141 @@ serve(async (req) => {
 
     const supabaseAdmin = createClient(supabaseUrl, serviceKey);
 
-    // Find the sales rep by email
-    const { data: salesRep, error: salesRepError } = await supabaseAdmin
-      .from("sales_reps")
-      .select("user_id, client_id")
-      .eq("email", sales_rep_email.toLowerCase())
-      .maybeSingle();
+    let salesRep: { id: string; user_id: string; client_id: string };
+    let routingRuleId: string | null = null;
+    let routingReason: string;
+
+    if (sales_rep_email) {
+      // Find the sales rep by email
+      const { data: namedRep, error: salesRepError } = await supabaseAdmin
+        .from("sales_reps")
+        .select("id, user_id, client_id")
+        .eq("email", sales_rep_email.toLowerCase())
+        .maybeSingle();
+
+      if (salesRepError || !namedRep) {
+        console.error("Sales rep not found:", sales_rep_email, salesRepError);
+        return new Response(
+          JSON.stringify({ success: false, message: "Sales representative not found" }),
+          { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+
+      salesRep = namedRep;
+      routingReason = "Sales rep named by the webhook";
+    } else {
+      // Let the tenant's routing rules pick the rep
+      const { data: routes, error: routeError } = await supabaseAdmin.rpc("route_lead", {
+        _tenant_id: tenant_id,
+        _source: source || null,
+        _phone: phone_no,
+      });
 
-    if (salesRepError || !salesRep) {
-      console.error("Sales rep not found:", sales_rep_email, salesRepError);
+      if (routeError) {
+        console.error("Lead routing error:", routeError);
+        return new Response(
+          JSON.stringify({ success: false, message: "Failed to route lead" }),
+          { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+
+      const route = (routes || [])[0];
+      if (!route) {
+        return new Response(
+          JSON.stringify({ success: false, message: "No active sales representative available for this tenant" }),
+          { status: 422, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+
+      salesRep = { id: route.sales_rep_id, user_id: route.user_id, client_id: tenant_id! };
+      routingRuleId = route.rule_id;
+      routingReason = route.reason;
+    }
+
+    // Resolve the status against the tenant's pipeline stages; without one the
+    // customer starts in the first open stage
+    const { data: stages, error: stagesError } = await supabaseAdmin
+      .from("pipeline_stages")
+      .select("key, name, is_won, is_lost")
+      .eq("tenant_id", salesRep.client_id)
+      .order("position", { ascending: true });
+
+    if (stagesError) {
+      console.error("Pipeline stages lookup error:", stagesError);
       return new Response(
-        JSON.stringify({ success: false, message: "Sales representative not found" }),
-        { status: 404, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        JSON.stringify({ success: false, message: "Failed to load pipeline stages" }),
+        { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
       );
     }
 
+    let stageKey: string | null = null;
+    if (status) {
+      const value = status.trim().toLowerCase();
+      const stage = (stages || []).find((s) => s.key === value || s.name.toLowerCase() === value);
+      if (!stage) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            message: `Unknown status "${status}". Valid stages: ${(stages || []).map((s) => s.key).join(", ")}`,
+          }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+      stageKey = stage.key;
+    } else {
+      const initial = (stages || []).find((s) => !s.is_won && !s.is_lost) || (stages || [])[0];
+      stageKey = initial?.key || "pending";
+    }
+
+    // Validate custom field values against the tenant's definitions
+    const customFieldValues: Record<string, CustomFieldValue> = {};
+    if (custom_fields && Object.keys(custom_fields).length > 0) {
+      const { data: definitions, error: definitionsError } = await supabaseAdmin
+        .from("custom_field_definitions")
+        .select("key, label, field_type, options")
+        .eq("tenant_id", salesRep.client_id)
+        .order("position", { ascending: true });
+
+      if (definitionsError) {
+        console.error("Custom field lookup error:", definitionsError);
+        return new Response(
+          JSON.stringify({ success: false, message: "Failed to load custom fields" }),
+          { status: 500, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+
+      const fields = (definitions || []) as CustomFieldDefinition[];
+      const errors: string[] = [];
+
+      Object.entries(custom_fields).forEach(([name, raw]) => {
+        const lower = name.trim().toLowerCase();
+        const field = fields.find((f) => f.key === lower || f.label.toLowerCase() === lower);
+        if (!field) {
+          errors.push(`Unknown custom field "${name}"`);
+          return;
+        }
+        const { value, error } = toCustomFieldValue(field, raw);
+        if (error) errors.push(error);
+        else if (value !== undefined) customFieldValues[field.key] = value;
+      });
+
+      if (errors.length > 0) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            message: `${errors.join("; ")}. Valid custom fields: ${fields.map((f) => f.key).join(", ") || "none"}`,
+          }),
+          { status: 400, headers: { "Content-Type": "application/json", ...corsHeaders } }
+        );
+      }
+    }
+
     // Create the customer record
     const { data: customer, error: customerError } = await supabaseAdmin
       .from("customers")
       .insert({
         sales_rep_user_id: salesRep.user_id,
+        sales_rep_id: salesRep.id,
         client_id: salesRep.client_id,
         first_name,
         last_name,
@@ -86,7 +250,10 @@ serve(async (req) => {
         phone_no,
         source,
         notes: notes || null,
-        status: status || "pending",
+        status: stageKey,
+        custom_fields: customFieldValues,
+        routing_rule_id: routingRuleId,
+        routing_reason: routingReason,
       })
       .select()
       .single();
@@ -105,6 +272,9 @@ serve(async (req) => {
       JSON.stringify({ 
         success: true, 
         customer_id: customer.id,
+        sales_rep_id: salesRep.id,
+        account_id: customer.account_id,
+        routing_reason: routingReason,
         message: "Customer onboarded successfully" 
       }),
       { status: 200, headers: { "Content-Type": "application/json", ...corsHeaders } }
@@ -0,0 +1,31 @@
+-- Remember the CSV column mapping each tenant last confirmed in the import wizard
+CREATE TABLE public.import_column_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL UNIQUE REFERENCES public.clients(id) ON DELETE CASCADE,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS on import_column_mappings
+ALTER TABLE public.import_column_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Any member of the tenant (admin or sales rep) can read and update the mapping
+CREATE POLICY "Tenant members can view their import mapping"
+ON public.import_column_mappings FOR SELECT
+USING (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Tenant members can create their import mapping"
+ON public.import_column_mappings FOR INSERT
+WITH CHECK (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Tenant members can update their import mapping"
+ON public.import_column_mappings FOR UPDATE
+USING (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+-- Trigger for import_column_mappings updates
+CREATE TRIGGER update_import_column_mappings_updated_at
+BEFORE UPDATE ON public.import_column_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,53 @@
+-- Track every customer import and the outcome of each file stored in csv-imports
+CREATE TABLE public.import_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed', 'failed')),
+  total_rows INTEGER NOT NULL DEFAULT 0,
+  inserted_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_import_jobs_user_created ON public.import_jobs (user_id, created_at DESC);
+
+-- Enable RLS on import_jobs
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for import_jobs
+CREATE POLICY "Users can view their own import jobs"
+ON public.import_jobs FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Client admins can view import jobs in their tenant"
+ON public.import_jobs FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Users can create their own import jobs"
+ON public.import_jobs FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Users can update their own import jobs"
+ON public.import_jobs FOR UPDATE
+USING (user_id = auth.uid());
+
+-- Trigger for import_jobs updates
+CREATE TRIGGER update_import_jobs_updated_at
+BEFORE UPDATE ON public.import_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
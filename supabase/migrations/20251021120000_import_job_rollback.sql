@@ -0,0 +1,110 @@
+-- Tag customers with the import job that last created or modified them
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS import_job_id UUID REFERENCES public.import_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_import_job_id ON public.customers (import_job_id);
+
+-- Allow import jobs to be marked as reverted
+ALTER TABLE public.import_jobs DROP CONSTRAINT IF EXISTS import_jobs_status_check;
+ALTER TABLE public.import_jobs
+ADD CONSTRAINT import_jobs_status_check CHECK (status IN ('processing', 'completed', 'failed', 'reverted'));
+
+ALTER TABLE public.import_jobs ADD COLUMN IF NOT EXISTS reverted_at TIMESTAMP WITH TIME ZONE;
+
+-- Per-row record of what an import did, used to undo it
+CREATE TABLE public.import_job_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.import_jobs(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL,
+  change_type TEXT NOT NULL CHECK (change_type IN ('inserted', 'updated')),
+  previous_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_import_job_changes_job_id ON public.import_job_changes (job_id);
+
+-- Enable RLS on import_job_changes
+ALTER TABLE public.import_job_changes ENABLE ROW LEVEL SECURITY;
+
+-- Changes are visible and writable through the job they belong to
+CREATE POLICY "Users can view changes of their import jobs"
+ON public.import_job_changes FOR SELECT
+USING (
+  job_id IN (
+    SELECT id FROM public.import_jobs
+    WHERE user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can record changes of their import jobs"
+ON public.import_job_changes FOR INSERT
+WITH CHECK (
+  job_id IN (
+    SELECT id FROM public.import_jobs
+    WHERE user_id = auth.uid()
+  )
+);
+
+-- Reverts an import in one transaction: deletes the customers it inserted and
+-- restores the prior values of the ones it updated. Customers a later import
+-- changed are no longer tagged with this job; they are left as is and counted as
+-- skipped. Runs as the caller, so it only reaches the owner's own customers.
+CREATE OR REPLACE FUNCTION public.undo_import_job(_job_id UUID)
+RETURNS TABLE (reverted INTEGER, skipped INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.import_jobs;
+  v_changes INTEGER;
+  v_deleted INTEGER;
+  v_restored INTEGER;
+BEGIN
+  SELECT * INTO v_job
+  FROM public.import_jobs
+  WHERE id = _job_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+
+  IF v_job.status = 'reverted' THEN
+    RAISE EXCEPTION 'This import has already been undone';
+  END IF;
+
+  SELECT count(*) INTO v_changes FROM public.import_job_changes WHERE job_id = _job_id;
+
+  IF v_changes = 0 THEN
+    RAISE EXCEPTION 'This import has no recorded changes to undo';
+  END IF;
+
+  DELETE FROM public.customers c
+  USING public.import_job_changes ch
+  WHERE ch.job_id = _job_id
+    AND ch.change_type = 'inserted'
+    AND c.id = ch.customer_id
+    AND c.import_job_id = _job_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Columns missing from previous_data keep their current value
+  UPDATE public.customers c
+  SET (first_name, last_name, email, phone_no, source, notes, status, import_job_id) = (
+    SELECT p.first_name, p.last_name, p.email, p.phone_no, p.source, p.notes, p.status, p.import_job_id
+    FROM jsonb_populate_record(c, ch.previous_data) AS p
+  )
+  FROM public.import_job_changes ch
+  WHERE ch.job_id = _job_id
+    AND ch.change_type = 'updated'
+    AND c.id = ch.customer_id
+    AND c.import_job_id = _job_id;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  UPDATE public.import_jobs
+  SET status = 'reverted', reverted_at = now()
+  WHERE id = _job_id;
+
+  RETURN QUERY SELECT v_deleted + v_restored, v_changes - v_deleted - v_restored;
+END;
+$$;
@@ -0,0 +1,21 @@
+-- Chunked imports: the reviewed rows are staged as NDJSON in csv-imports and
+-- written by the bulk-import-customers edge function one chunk at a time.
+-- Progress is kept on the job so an interrupted import can be resumed.
+ALTER TABLE public.import_jobs
+ADD COLUMN IF NOT EXISTS rows_path TEXT,
+ADD COLUMN IF NOT EXISTS staged_rows INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS processed_rows INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS chunk_size INTEGER NOT NULL DEFAULT 250 CHECK (chunk_size > 0),
+ADD COLUMN IF NOT EXISTS next_chunk INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_user_status ON public.import_jobs (user_id, status);
+
+-- A retried chunk must not record the same customer twice
+ALTER TABLE public.import_job_changes
+ADD CONSTRAINT import_job_changes_job_customer_key UNIQUE (job_id, customer_id);
+
+-- The staged rows and the progress are only written by the edge function (as the
+-- service role) once the job exists; the owner may still fail or revert the job
+REVOKE UPDATE ON public.import_jobs FROM anon, authenticated;
+GRANT UPDATE (status, failed_count, errors, completed_at, reverted_at) ON public.import_jobs TO authenticated;
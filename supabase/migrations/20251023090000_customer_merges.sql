@@ -0,0 +1,144 @@
+-- History of merged duplicate customers. The merged rows are deleted, so their
+-- data and workflow state are kept here and remain visible on the kept customer.
+CREATE TABLE public.customer_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  primary_customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  merged_customer_id UUID NOT NULL,
+  merged_data JSONB NOT NULL,
+  merged_workflow JSONB,
+  merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_customer_merges_primary ON public.customer_merges (primary_customer_id);
+
+-- Enable RLS on customer_merges
+ALTER TABLE public.customer_merges ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by merge_customers()
+CREATE POLICY "Client admins can view customer merges in their tenant"
+ON public.customer_merges FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Sales reps can view merges into their customers"
+ON public.customer_merges FOR SELECT
+USING (
+  primary_customer_id IN (
+    SELECT id FROM public.customers
+    WHERE sales_rep_user_id = auth.uid()
+  )
+);
+
+-- Merges duplicates into a primary customer in one transaction: the duplicates'
+-- rows and workflows are archived in customer_merges, a workflow is carried over
+-- when the primary has none, the duplicates are deleted, the chosen field values
+-- are applied to the primary and the merge is recorded in audit_logs.
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _primary_id UUID,
+  _duplicate_ids UUID[],
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_primary public.customers;
+  v_duplicate public.customers;
+  v_workflow public.workflows;
+  v_result public.customers;
+  v_merged JSONB := '[]'::jsonb;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Only client admins can merge customers';
+  END IF;
+
+  IF _primary_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.customers c
+  WHERE c.id = _primary_id
+    AND (
+      c.client_id = v_tenant_id
+      OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _primary_id;
+  END IF;
+
+  FOR v_duplicate IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_duplicate_ids)
+      AND (
+        c.client_id = v_tenant_id
+        OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+      )
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_workflow FROM public.workflows WHERE customer_id = v_duplicate.id;
+
+    INSERT INTO public.customer_merges (
+      tenant_id, primary_customer_id, merged_customer_id, merged_data, merged_workflow, merged_by
+    )
+    VALUES (
+      v_tenant_id,
+      _primary_id,
+      v_duplicate.id,
+      to_jsonb(v_duplicate),
+      CASE WHEN v_workflow.id IS NULL THEN NULL ELSE to_jsonb(v_workflow) END,
+      auth.uid()
+    );
+
+    -- Only one workflow per customer is allowed, so a duplicate's workflow moves
+    -- over only when the primary has none; otherwise it stays archived above
+    IF v_workflow.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.workflows WHERE customer_id = _primary_id) THEN
+      UPDATE public.workflows SET customer_id = _primary_id WHERE id = v_workflow.id;
+    END IF;
+
+    DELETE FROM public.customers WHERE id = v_duplicate.id;
+
+    v_merged := v_merged || jsonb_build_array(to_jsonb(v_duplicate));
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) AS d) THEN
+    RAISE EXCEPTION 'Some customers to merge were not found';
+  END IF;
+
+  UPDATE public.customers SET
+    first_name = COALESCE(_fields ->> 'first_name', first_name),
+    last_name = COALESCE(_fields ->> 'last_name', last_name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone_no = COALESCE(_fields ->> 'phone_no', phone_no),
+    source = COALESCE(_fields ->> 'source', source),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = CASE WHEN _fields ? 'notes' THEN _fields ->> 'notes' ELSE notes END
+  WHERE id = _primary_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+  VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'merge_customers',
+    'customer',
+    _primary_id,
+    jsonb_build_object('primary', to_jsonb(v_primary), 'merged', v_merged),
+    to_jsonb(v_result)
+  );
+
+  RETURN _primary_id;
+END;
+$$;
@@ -0,0 +1,130 @@
+-- Tenant-defined, ordered customer pipeline stages. customers.status holds the
+-- stage key; is_won / is_lost mark the stages that close a deal.
+CREATE TABLE public.pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z0-9_]+$'),
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_won BOOLEAN NOT NULL DEFAULT false,
+  is_lost BOOLEAN NOT NULL DEFAULT false,
+  color TEXT NOT NULL DEFAULT '#64748b',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, key),
+  CHECK (NOT (is_won AND is_lost))
+);
+
+CREATE INDEX idx_pipeline_stages_tenant_position ON public.pipeline_stages (tenant_id, position);
+
+-- Enable RLS on pipeline_stages
+ALTER TABLE public.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for pipeline_stages
+CREATE POLICY "Tenant members can view pipeline stages"
+ON public.pipeline_stages FOR SELECT
+USING (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Client admins can create pipeline stages"
+ON public.pipeline_stages FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Client admins can update pipeline stages"
+ON public.pipeline_stages FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Client admins can delete pipeline stages"
+ON public.pipeline_stages FOR DELETE
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+-- Trigger for pipeline_stages updates
+CREATE TRIGGER update_pipeline_stages_updated_at
+BEFORE UPDATE ON public.pipeline_stages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every tenant starts with the stages that used to be hardcoded
+CREATE OR REPLACE FUNCTION public.seed_pipeline_stages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.pipeline_stages (tenant_id, key, name, position, is_won, is_lost, color)
+  VALUES
+    (NEW.id, 'pending', 'Pending', 0, false, false, '#64748b'),
+    (NEW.id, 'active', 'Active', 1, false, false, '#16a34a'),
+    (NEW.id, 'won', 'Won', 2, true, false, '#2563eb'),
+    (NEW.id, 'lost', 'Lost', 3, false, true, '#dc2626')
+  ON CONFLICT (tenant_id, key) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER seed_client_pipeline_stages
+AFTER INSERT ON public.clients
+FOR EACH ROW
+EXECUTE FUNCTION public.seed_pipeline_stages();
+
+INSERT INTO public.pipeline_stages (tenant_id, key, name, position, is_won, is_lost, color)
+SELECT c.id, s.key, s.name, s.position, s.is_won, s.is_lost, s.color
+FROM public.clients c
+CROSS JOIN (
+  VALUES
+    ('pending', 'Pending', 0, false, false, '#64748b'),
+    ('active', 'Active', 1, false, false, '#16a34a'),
+    ('won', 'Won', 2, true, false, '#2563eb'),
+    ('lost', 'Lost', 3, false, true, '#dc2626')
+) AS s(key, name, position, is_won, is_lost, color)
+ON CONFLICT (tenant_id, key) DO NOTHING;
+
+-- customers.status is now validated against the tenant's stages instead of a fixed list
+ALTER TABLE public.customers DROP CONSTRAINT IF EXISTS customers_status_check;
+ALTER TABLE public.customers ALTER COLUMN status DROP DEFAULT;
+
+CREATE OR REPLACE FUNCTION public.validate_customer_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := COALESCE(NEW.client_id, public.get_user_tenant_id(NEW.sales_rep_user_id));
+BEGIN
+  IF v_tenant_id IS NULL
+    OR NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE tenant_id = v_tenant_id) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Customers without a status start in the tenant's first open stage
+  IF NEW.status IS NULL THEN
+    SELECT key INTO NEW.status
+    FROM public.pipeline_stages
+    WHERE tenant_id = v_tenant_id
+    ORDER BY (is_won OR is_lost), position
+    LIMIT 1;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE tenant_id = v_tenant_id AND key = NEW.status
+  ) THEN
+    RAISE EXCEPTION 'Unknown pipeline stage "%"', NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_customers_status
+BEFORE INSERT OR UPDATE OF status ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_customer_status();
@@ -0,0 +1,24 @@
+-- Tracks when a customer entered its current pipeline stage, so boards can
+-- show how long deals have been sitting in a column
+ALTER TABLE public.customers
+  ADD COLUMN status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.customers SET status_changed_at = updated_at;
+
+CREATE OR REPLACE FUNCTION public.touch_customer_status_changed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_customers_status_changed_at
+BEFORE UPDATE OF status ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_customer_status_changed_at();
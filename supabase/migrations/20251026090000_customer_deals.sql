@@ -0,0 +1,9 @@
+-- Deal value and timing on customers, used for the revenue forecast
+ALTER TABLE public.customers
+  ADD COLUMN deal_amount NUMERIC(14, 2) CHECK (deal_amount IS NULL OR deal_amount >= 0),
+  ADD COLUMN deal_currency TEXT NOT NULL DEFAULT 'USD' CHECK (deal_currency ~ '^[A-Z]{3}$'),
+  ADD COLUMN deal_probability SMALLINT CHECK (deal_probability IS NULL OR deal_probability BETWEEN 0 AND 100),
+  ADD COLUMN expected_close_date DATE;
+
+CREATE INDEX idx_customers_expected_close_date ON public.customers (expected_close_date)
+WHERE deal_amount IS NOT NULL;
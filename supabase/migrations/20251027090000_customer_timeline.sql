@@ -0,0 +1,264 @@
+-- Every pipeline stage a customer has been in, recorded for all writers
+-- (dashboard, imports, webhooks) by a trigger on customers.status
+CREATE TABLE public.customer_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_customer_status_history_customer ON public.customer_status_history (customer_id, changed_at DESC);
+
+ALTER TABLE public.customer_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sales reps can view status history of their customers"
+ON public.customer_status_history FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = customer_status_history.customer_id
+    AND c.sales_rep_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Client admins can view status history in their tenant"
+ON public.customer_status_history FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.record_customer_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.customer_status_history (customer_id, tenant_id, from_status, to_status, changed_by)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.client_id, public.get_user_tenant_id(NEW.sales_rep_user_id)),
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_customers_status_change
+AFTER INSERT OR UPDATE OF status ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_customer_status_change();
+
+-- Existing customers start their history in their current stage
+INSERT INTO public.customer_status_history (customer_id, tenant_id, from_status, to_status, changed_at)
+SELECT id, COALESCE(client_id, public.get_user_tenant_id(sales_rep_user_id)), NULL, status, status_changed_at
+FROM public.customers;
+
+-- Calls, emails and meetings logged against a customer
+CREATE TABLE public.activities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('call', 'email', 'meeting')),
+  subject TEXT NOT NULL,
+  body TEXT,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_activities_customer ON public.activities (customer_id, occurred_at DESC);
+
+ALTER TABLE public.activities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sales reps can view activities of their customers"
+ON public.activities FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = activities.customer_id
+    AND c.sales_rep_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Sales reps can log activities on their customers"
+ON public.activities FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = activities.customer_id
+    AND c.sales_rep_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own activities"
+ON public.activities FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own activities"
+ON public.activities FOR DELETE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Client admins can view activities in their tenant"
+ON public.activities FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE TRIGGER update_activities_updated_at
+BEFORE UPDATE ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sales reps see the audit trail of their own customers on the detail page
+CREATE POLICY "Sales reps can view audit logs of their customers"
+ON public.audit_logs FOR SELECT
+USING (
+  resource_type = 'customer'
+  AND EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = audit_logs.resource_id
+    AND c.sales_rep_user_id = auth.uid()
+  )
+);
+
+-- Merging removed the duplicates' activities and stage history with them; they now move
+-- to the kept customer, as does a duplicate's deal when the kept customer has none
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _primary_id UUID,
+  _duplicate_ids UUID[],
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_primary public.customers;
+  v_duplicate public.customers;
+  v_workflow public.workflows;
+  v_result public.customers;
+  v_merged JSONB := '[]'::jsonb;
+  v_count INTEGER := 0;
+  v_deal public.customers;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Only client admins can merge customers';
+  END IF;
+
+  IF _primary_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.customers c
+  WHERE c.id = _primary_id
+    AND (
+      c.client_id = v_tenant_id
+      OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _primary_id;
+  END IF;
+
+  FOR v_duplicate IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_duplicate_ids)
+      AND (
+        c.client_id = v_tenant_id
+        OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+      )
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_workflow FROM public.workflows WHERE customer_id = v_duplicate.id;
+
+    INSERT INTO public.customer_merges (
+      tenant_id, primary_customer_id, merged_customer_id, merged_data, merged_workflow, merged_by
+    )
+    VALUES (
+      v_tenant_id,
+      _primary_id,
+      v_duplicate.id,
+      to_jsonb(v_duplicate),
+      CASE WHEN v_workflow.id IS NULL THEN NULL ELSE to_jsonb(v_workflow) END,
+      auth.uid()
+    );
+
+    -- Only one workflow per customer is allowed, so a duplicate's workflow moves
+    -- over only when the primary has none; otherwise it stays archived above
+    IF v_workflow.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.workflows WHERE customer_id = _primary_id) THEN
+      UPDATE public.workflows SET customer_id = _primary_id WHERE id = v_workflow.id;
+    END IF;
+
+    -- The duplicate's timeline and earlier merges into it would otherwise be
+    -- deleted with it by ON DELETE CASCADE
+    UPDATE public.activities SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_status_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_merges SET primary_customer_id = _primary_id WHERE primary_customer_id = v_duplicate.id;
+
+    -- Carried over where the primary has no value of its own
+    IF v_deal.id IS NULL AND v_duplicate.deal_amount IS NOT NULL THEN
+      v_deal := v_duplicate;
+    END IF;
+
+    DELETE FROM public.customers WHERE id = v_duplicate.id;
+
+    v_merged := v_merged || jsonb_build_array(to_jsonb(v_duplicate));
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) AS d) THEN
+    RAISE EXCEPTION 'Some customers to merge were not found';
+  END IF;
+
+  IF v_deal.id IS NOT NULL THEN
+    UPDATE public.customers SET
+      deal_amount = v_deal.deal_amount,
+      deal_currency = v_deal.deal_currency,
+      deal_probability = v_deal.deal_probability,
+      expected_close_date = v_deal.expected_close_date
+    WHERE id = _primary_id
+      AND deal_amount IS NULL;
+  END IF;
+
+  UPDATE public.customers SET
+    first_name = COALESCE(_fields ->> 'first_name', first_name),
+    last_name = COALESCE(_fields ->> 'last_name', last_name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone_no = COALESCE(_fields ->> 'phone_no', phone_no),
+    source = COALESCE(_fields ->> 'source', source),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = CASE WHEN _fields ? 'notes' THEN _fields ->> 'notes' ELSE notes END
+  WHERE id = _primary_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+  VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'merge_customers',
+    'customer',
+    _primary_id,
+    jsonb_build_object('primary', to_jsonb(v_primary), 'merged', v_merged),
+    to_jsonb(v_result)
+  );
+
+  RETURN _primary_id;
+END;
+$$;
@@ -0,0 +1,200 @@
+-- Activities gain notes and tasks (with a due date), an outcome, and a link
+-- to the sales rep who logged them
+ALTER TABLE public.activities DROP CONSTRAINT IF EXISTS activities_type_check;
+ALTER TABLE public.activities
+  ADD CONSTRAINT activities_type_check CHECK (type IN ('call', 'email', 'meeting', 'note', 'task'));
+
+ALTER TABLE public.activities
+  ADD COLUMN sales_rep_id UUID REFERENCES public.sales_reps(id) ON DELETE SET NULL,
+  ADD COLUMN due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN outcome TEXT,
+  ADD CONSTRAINT activities_due_at_task_check CHECK (due_at IS NULL OR type = 'task');
+
+CREATE INDEX idx_activities_sales_rep ON public.activities (sales_rep_id, occurred_at DESC);
+CREATE INDEX idx_activities_open_tasks ON public.activities (user_id, due_at)
+WHERE type = 'task' AND completed_at IS NULL;
+
+-- Fill in the tenant and sales rep from the author so clients cannot mislabel them
+CREATE OR REPLACE FUNCTION public.set_activity_owner()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT id INTO NEW.sales_rep_id
+  FROM public.sales_reps
+  WHERE user_id = NEW.user_id
+  LIMIT 1;
+
+  NEW.tenant_id := COALESCE(public.get_user_tenant_id(NEW.user_id), NEW.tenant_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_activities_owner
+BEFORE INSERT ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.set_activity_owner();
+
+UPDATE public.activities a
+SET sales_rep_id = sr.id
+FROM public.sales_reps sr
+WHERE sr.user_id = a.user_id;
+
+-- Completing or editing a task must not move it to another tenant or to a
+-- customer the rep does not own
+DROP POLICY "Users can update their own activities" ON public.activities;
+
+CREATE POLICY "Users can update their own activities"
+ON public.activities FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = activities.customer_id
+    AND c.sales_rep_user_id = auth.uid()
+  )
+);
+
+-- Open tasks of merged duplicates follow the kept customer's rep
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _primary_id UUID,
+  _duplicate_ids UUID[],
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_primary public.customers;
+  v_duplicate public.customers;
+  v_workflow public.workflows;
+  v_result public.customers;
+  v_merged JSONB := '[]'::jsonb;
+  v_count INTEGER := 0;
+  v_deal public.customers;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Only client admins can merge customers';
+  END IF;
+
+  IF _primary_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.customers c
+  WHERE c.id = _primary_id
+    AND (
+      c.client_id = v_tenant_id
+      OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _primary_id;
+  END IF;
+
+  FOR v_duplicate IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_duplicate_ids)
+      AND (
+        c.client_id = v_tenant_id
+        OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+      )
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_workflow FROM public.workflows WHERE customer_id = v_duplicate.id;
+
+    INSERT INTO public.customer_merges (
+      tenant_id, primary_customer_id, merged_customer_id, merged_data, merged_workflow, merged_by
+    )
+    VALUES (
+      v_tenant_id,
+      _primary_id,
+      v_duplicate.id,
+      to_jsonb(v_duplicate),
+      CASE WHEN v_workflow.id IS NULL THEN NULL ELSE to_jsonb(v_workflow) END,
+      auth.uid()
+    );
+
+    -- Only one workflow per customer is allowed, so a duplicate's workflow moves
+    -- over only when the primary has none; otherwise it stays archived above
+    IF v_workflow.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.workflows WHERE customer_id = _primary_id) THEN
+      UPDATE public.workflows SET customer_id = _primary_id WHERE id = v_workflow.id;
+    END IF;
+
+    -- Open follow-up tasks go to the primary's rep, as when reassigning
+    IF v_duplicate.sales_rep_user_id IS DISTINCT FROM v_primary.sales_rep_user_id THEN
+      UPDATE public.activities
+      SET user_id = v_primary.sales_rep_user_id,
+          sales_rep_id = v_primary.sales_rep_id
+      WHERE customer_id = v_duplicate.id
+        AND type = 'task'
+        AND completed_at IS NULL;
+    END IF;
+
+    -- The duplicate's timeline and earlier merges into it would otherwise be
+    -- deleted with it by ON DELETE CASCADE
+    UPDATE public.activities SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_status_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_merges SET primary_customer_id = _primary_id WHERE primary_customer_id = v_duplicate.id;
+
+    -- Carried over where the primary has no value of its own
+    IF v_deal.id IS NULL AND v_duplicate.deal_amount IS NOT NULL THEN
+      v_deal := v_duplicate;
+    END IF;
+
+    DELETE FROM public.customers WHERE id = v_duplicate.id;
+
+    v_merged := v_merged || jsonb_build_array(to_jsonb(v_duplicate));
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) AS d) THEN
+    RAISE EXCEPTION 'Some customers to merge were not found';
+  END IF;
+
+  IF v_deal.id IS NOT NULL THEN
+    UPDATE public.customers SET
+      deal_amount = v_deal.deal_amount,
+      deal_currency = v_deal.deal_currency,
+      deal_probability = v_deal.deal_probability,
+      expected_close_date = v_deal.expected_close_date
+    WHERE id = _primary_id
+      AND deal_amount IS NULL;
+  END IF;
+
+  UPDATE public.customers SET
+    first_name = COALESCE(_fields ->> 'first_name', first_name),
+    last_name = COALESCE(_fields ->> 'last_name', last_name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone_no = COALESCE(_fields ->> 'phone_no', phone_no),
+    source = COALESCE(_fields ->> 'source', source),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = CASE WHEN _fields ? 'notes' THEN _fields ->> 'notes' ELSE notes END
+  WHERE id = _primary_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+  VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'merge_customers',
+    'customer',
+    _primary_id,
+    jsonb_build_object('primary', to_jsonb(v_primary), 'merged', v_merged),
+    to_jsonb(v_result)
+  );
+
+  RETURN _primary_id;
+END;
+$$;
@@ -0,0 +1,72 @@
+-- Overdue follow-up tasks and in-app notifications for reps and client admins
+ALTER TABLE public.activities
+  ADD COLUMN overdue_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_created ON public.notifications (user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications are written by the follow-up-reminders function with the service role
+CREATE POLICY "Users can view their notifications"
+ON public.notifications FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+ON public.notifications FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their notifications"
+ON public.notifications FOR DELETE
+USING (user_id = auth.uid());
+
+-- Moving a task's due date or completing it clears the overdue flag
+CREATE OR REPLACE FUNCTION public.reset_activity_overdue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.due_at IS DISTINCT FROM OLD.due_at OR NEW.completed_at IS NOT NULL THEN
+    NEW.overdue_at = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reset_activities_overdue
+BEFORE UPDATE OF due_at, completed_at ON public.activities
+FOR EACH ROW
+EXECUTE FUNCTION public.reset_activity_overdue();
+
+-- Run the follow-up-reminders edge function every 15 minutes. The project URL
+-- and the function's CRON_SECRET are read from Vault secrets named
+-- "project_url" and "follow_up_reminders_secret".
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'follow-up-reminders',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/follow-up-reminders',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'follow_up_reminders_secret')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,8 @@
+-- Keep customers.updated_at current on every write. Inline edits in the dashboard
+-- only apply when updated_at still matches the version the rep was looking at.
+DROP TRIGGER IF EXISTS update_customers_updated_at ON public.customers;
+
+CREATE TRIGGER update_customers_updated_at
+BEFORE UPDATE ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
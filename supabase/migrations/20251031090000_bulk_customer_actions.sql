@@ -0,0 +1,87 @@
+-- Bulk reassignment of customers to another sales rep. Reps can only see their own
+-- sales_reps row and the customers update policy keeps sales_rep_user_id fixed, so
+-- both the rep list and the reassignment go through SECURITY DEFINER functions.
+
+-- Active sales reps of the caller's tenant that customers can be handed to
+CREATE OR REPLACE FUNCTION public.get_assignable_sales_reps()
+RETURNS TABLE (id UUID, user_id UUID, first_name TEXT, last_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT sr.id, sr.user_id, sr.first_name, sr.last_name
+  FROM public.sales_reps sr
+  WHERE sr.client_id = public.get_user_tenant_id(auth.uid())
+    AND sr.status = 'active'
+  ORDER BY sr.first_name, sr.last_name;
+$$;
+
+-- Moves customers to another active rep of the same tenant. Sales reps can hand over
+-- their own customers; client admins any customer of their tenant. Every customer
+-- gets its own reassign_customer audit entry.
+CREATE OR REPLACE FUNCTION public.reassign_customers(
+  _customer_ids UUID[],
+  _sales_rep_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_is_admin BOOLEAN := public.has_role(auth.uid(), 'client_admin');
+  v_rep public.sales_reps;
+  v_customer public.customers;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT * INTO v_rep
+  FROM public.sales_reps sr
+  WHERE sr.id = _sales_rep_id
+    AND sr.client_id = v_tenant_id
+    AND sr.status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sales rep % is not an active rep of your organization', _sales_rep_id;
+  END IF;
+
+  FOR v_customer IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_customer_ids)
+      AND (
+        c.sales_rep_user_id = auth.uid()
+        OR (
+          v_is_admin
+          AND (
+            c.client_id = v_tenant_id
+            OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+          )
+        )
+      )
+    FOR UPDATE
+  LOOP
+    CONTINUE WHEN v_customer.sales_rep_user_id = v_rep.user_id;
+
+    UPDATE public.customers
+    SET sales_rep_user_id = v_rep.user_id,
+        sales_rep_id = v_rep.id
+    WHERE id = v_customer.id;
+
+    INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+    VALUES (
+      v_tenant_id,
+      auth.uid(),
+      'reassign_customer',
+      'customer',
+      v_customer.id,
+      jsonb_build_object('sales_rep_user_id', v_customer.sales_rep_user_id, 'sales_rep_id', v_customer.sales_rep_id),
+      jsonb_build_object('sales_rep_user_id', v_rep.user_id, 'sales_rep_id', v_rep.id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,337 @@
+-- Every sales rep a customer has belonged to, recorded for all writers by a
+-- trigger on customers.sales_rep_user_id. Rep names are copied so the history
+-- stays readable after a rep is removed and for reps who cannot see each other.
+CREATE TABLE public.customer_ownership_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  tenant_id UUID REFERENCES public.clients(id) ON DELETE CASCADE,
+  from_user_id UUID,
+  from_sales_rep_id UUID REFERENCES public.sales_reps(id) ON DELETE SET NULL,
+  from_rep_name TEXT,
+  to_user_id UUID NOT NULL,
+  to_sales_rep_id UUID REFERENCES public.sales_reps(id) ON DELETE SET NULL,
+  to_rep_name TEXT,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_customer_ownership_history_customer ON public.customer_ownership_history (customer_id, changed_at DESC);
+
+ALTER TABLE public.customer_ownership_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sales reps can view ownership history of their customers"
+ON public.customer_ownership_history FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = customer_ownership_history.customer_id
+    AND c.sales_rep_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Client admins can view ownership history in their tenant"
+ON public.customer_ownership_history FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.record_customer_ownership_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.sales_rep_user_id IS DISTINCT FROM OLD.sales_rep_user_id THEN
+    INSERT INTO public.customer_ownership_history (
+      customer_id, tenant_id,
+      from_user_id, from_sales_rep_id, from_rep_name,
+      to_user_id, to_sales_rep_id, to_rep_name,
+      changed_by
+    )
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.client_id, public.get_user_tenant_id(NEW.sales_rep_user_id)),
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.sales_rep_user_id END,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.sales_rep_id END,
+      CASE WHEN TG_OP = 'UPDATE' THEN (
+        SELECT sr.first_name || ' ' || sr.last_name FROM public.sales_reps sr WHERE sr.user_id = OLD.sales_rep_user_id LIMIT 1
+      ) END,
+      NEW.sales_rep_user_id,
+      NEW.sales_rep_id,
+      (SELECT sr.first_name || ' ' || sr.last_name FROM public.sales_reps sr WHERE sr.user_id = NEW.sales_rep_user_id LIMIT 1),
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_customers_ownership_change
+AFTER INSERT OR UPDATE OF sales_rep_user_id ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.record_customer_ownership_change();
+
+-- Existing customers start their history with their current rep
+INSERT INTO public.customer_ownership_history (customer_id, tenant_id, to_user_id, to_sales_rep_id, to_rep_name, changed_at)
+SELECT
+  c.id,
+  COALESCE(c.client_id, public.get_user_tenant_id(c.sales_rep_user_id)),
+  c.sales_rep_user_id,
+  c.sales_rep_id,
+  (SELECT sr.first_name || ' ' || sr.last_name FROM public.sales_reps sr WHERE sr.user_id = c.sales_rep_user_id LIMIT 1),
+  c.created_at
+FROM public.customers c;
+
+-- Spreads customers over one or more active reps of the caller's tenant, in the
+-- order given: one rep is a plain reassignment, several a round-robin. Sales reps
+-- can hand over their own customers; client admins any customer of their tenant.
+-- Open follow-up tasks move with the customer so nothing is left with the old rep.
+-- A customer whose email the rep already has is skipped and returned instead.
+CREATE OR REPLACE FUNCTION public.distribute_customers(
+  _customer_ids UUID[],
+  _sales_rep_ids UUID[]
+)
+RETURNS TABLE (reassigned INTEGER, skipped_emails TEXT[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_is_admin BOOLEAN := public.has_role(auth.uid(), 'client_admin');
+  v_reps public.sales_reps[];
+  v_rep public.sales_reps;
+  v_customer public.customers;
+  v_index INTEGER := 0;
+  v_count INTEGER := 0;
+  v_skipped TEXT[] := '{}';
+BEGIN
+  SELECT array_agg(sr ORDER BY array_position(_sales_rep_ids, sr.id)) INTO v_reps
+  FROM public.sales_reps sr
+  WHERE sr.id = ANY(_sales_rep_ids)
+    AND sr.client_id = v_tenant_id
+    AND sr.status = 'active';
+
+  IF v_reps IS NULL OR array_length(v_reps, 1) <> (SELECT count(DISTINCT r) FROM unnest(_sales_rep_ids) AS r) THEN
+    RAISE EXCEPTION 'Customers can only be assigned to active sales reps of your organization';
+  END IF;
+
+  FOR v_customer IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_customer_ids)
+      AND (
+        c.sales_rep_user_id = auth.uid()
+        OR (
+          v_is_admin
+          AND (
+            c.client_id = v_tenant_id
+            OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+          )
+        )
+      )
+    ORDER BY c.created_at
+    FOR UPDATE
+  LOOP
+    v_rep := v_reps[(v_index % array_length(v_reps, 1)) + 1];
+    v_index := v_index + 1;
+
+    CONTINUE WHEN v_customer.sales_rep_user_id = v_rep.user_id;
+
+    -- Customers are unique per rep and email; this also catches two selected
+    -- customers with the same email going to the same rep
+    IF EXISTS (
+      SELECT 1 FROM public.customers c
+      WHERE c.sales_rep_user_id = v_rep.user_id
+        AND c.email = v_customer.email
+    ) THEN
+      v_skipped := v_skipped || v_customer.email;
+      CONTINUE;
+    END IF;
+
+    UPDATE public.customers
+    SET sales_rep_user_id = v_rep.user_id,
+        sales_rep_id = v_rep.id
+    WHERE id = v_customer.id;
+
+    UPDATE public.activities
+    SET user_id = v_rep.user_id,
+        sales_rep_id = v_rep.id
+    WHERE customer_id = v_customer.id
+      AND type = 'task'
+      AND completed_at IS NULL;
+
+    INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+    VALUES (
+      v_tenant_id,
+      auth.uid(),
+      'reassign_customer',
+      'customer',
+      v_customer.id,
+      jsonb_build_object('sales_rep_user_id', v_customer.sales_rep_user_id, 'sales_rep_id', v_customer.sales_rep_id),
+      jsonb_build_object('sales_rep_user_id', v_rep.user_id, 'sales_rep_id', v_rep.id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN QUERY SELECT v_count, v_skipped;
+END;
+$$;
+
+-- Single-rep reassignment is a distribution over one rep. It returned a plain
+-- count before, so it is recreated with the new return type.
+DROP FUNCTION IF EXISTS public.reassign_customers(UUID[], UUID);
+
+CREATE FUNCTION public.reassign_customers(
+  _customer_ids UUID[],
+  _sales_rep_id UUID
+)
+RETURNS TABLE (reassigned INTEGER, skipped_emails TEXT[])
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.distribute_customers(_customer_ids, ARRAY[_sales_rep_id]);
+$$;
+
+-- The ownership history of merged duplicates moves to the kept customer too
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _primary_id UUID,
+  _duplicate_ids UUID[],
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_primary public.customers;
+  v_duplicate public.customers;
+  v_workflow public.workflows;
+  v_result public.customers;
+  v_merged JSONB := '[]'::jsonb;
+  v_count INTEGER := 0;
+  v_deal public.customers;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Only client admins can merge customers';
+  END IF;
+
+  IF _primary_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.customers c
+  WHERE c.id = _primary_id
+    AND (
+      c.client_id = v_tenant_id
+      OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _primary_id;
+  END IF;
+
+  FOR v_duplicate IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_duplicate_ids)
+      AND (
+        c.client_id = v_tenant_id
+        OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+      )
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_workflow FROM public.workflows WHERE customer_id = v_duplicate.id;
+
+    INSERT INTO public.customer_merges (
+      tenant_id, primary_customer_id, merged_customer_id, merged_data, merged_workflow, merged_by
+    )
+    VALUES (
+      v_tenant_id,
+      _primary_id,
+      v_duplicate.id,
+      to_jsonb(v_duplicate),
+      CASE WHEN v_workflow.id IS NULL THEN NULL ELSE to_jsonb(v_workflow) END,
+      auth.uid()
+    );
+
+    -- Only one workflow per customer is allowed, so a duplicate's workflow moves
+    -- over only when the primary has none; otherwise it stays archived above
+    IF v_workflow.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.workflows WHERE customer_id = _primary_id) THEN
+      UPDATE public.workflows SET customer_id = _primary_id WHERE id = v_workflow.id;
+    END IF;
+
+    -- Open follow-up tasks go to the primary's rep, as when reassigning
+    IF v_duplicate.sales_rep_user_id IS DISTINCT FROM v_primary.sales_rep_user_id THEN
+      UPDATE public.activities
+      SET user_id = v_primary.sales_rep_user_id,
+          sales_rep_id = v_primary.sales_rep_id
+      WHERE customer_id = v_duplicate.id
+        AND type = 'task'
+        AND completed_at IS NULL;
+    END IF;
+
+    -- The duplicate's timeline and earlier merges into it would otherwise be
+    -- deleted with it by ON DELETE CASCADE
+    UPDATE public.activities SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_status_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_ownership_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_merges SET primary_customer_id = _primary_id WHERE primary_customer_id = v_duplicate.id;
+
+    -- Carried over where the primary has no value of its own
+    IF v_deal.id IS NULL AND v_duplicate.deal_amount IS NOT NULL THEN
+      v_deal := v_duplicate;
+    END IF;
+
+    DELETE FROM public.customers WHERE id = v_duplicate.id;
+
+    v_merged := v_merged || jsonb_build_array(to_jsonb(v_duplicate));
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) AS d) THEN
+    RAISE EXCEPTION 'Some customers to merge were not found';
+  END IF;
+
+  IF v_deal.id IS NOT NULL THEN
+    UPDATE public.customers SET
+      deal_amount = v_deal.deal_amount,
+      deal_currency = v_deal.deal_currency,
+      deal_probability = v_deal.deal_probability,
+      expected_close_date = v_deal.expected_close_date
+    WHERE id = _primary_id
+      AND deal_amount IS NULL;
+  END IF;
+
+  UPDATE public.customers SET
+    first_name = COALESCE(_fields ->> 'first_name', first_name),
+    last_name = COALESCE(_fields ->> 'last_name', last_name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone_no = COALESCE(_fields ->> 'phone_no', phone_no),
+    source = COALESCE(_fields ->> 'source', source),
+    status = COALESCE(_fields ->> 'status', status),
+    notes = CASE WHEN _fields ? 'notes' THEN _fields ->> 'notes' ELSE notes END
+  WHERE id = _primary_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+  VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'merge_customers',
+    'customer',
+    _primary_id,
+    jsonb_build_object('primary', to_jsonb(v_primary), 'merged', v_merged),
+    to_jsonb(v_result)
+  );
+
+  RETURN _primary_id;
+END;
+$$;
@@ -0,0 +1,146 @@
+-- Tenant-defined rules that assign inbound webhook leads to a sales rep when the
+-- caller does not name one. Rules are tried in position order; the first whose
+-- conditions match picks a rep among its candidates using its strategy.
+CREATE TABLE public.lead_routing_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  strategy TEXT NOT NULL DEFAULT 'round_robin' CHECK (strategy IN ('round_robin', 'least_loaded')),
+  match_source TEXT, -- case-insensitive equality with customers.source; NULL matches any
+  match_phone_prefix TEXT, -- compared on digits only, e.g. "+44" or "1212"; NULL matches any
+  sales_rep_ids UUID[] NOT NULL DEFAULT '{}', -- candidate reps; empty means every active rep
+  last_assigned_sales_rep_id UUID REFERENCES public.sales_reps(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_routing_rules_tenant_position ON public.lead_routing_rules (tenant_id, position);
+
+ALTER TABLE public.lead_routing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Client admins can view lead routing rules"
+ON public.lead_routing_rules FOR SELECT
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Client admins can create lead routing rules"
+ON public.lead_routing_rules FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Client admins can update lead routing rules"
+ON public.lead_routing_rules FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Client admins can delete lead routing rules"
+ON public.lead_routing_rules FOR DELETE
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE TRIGGER update_lead_routing_rules_updated_at
+BEFORE UPDATE ON public.lead_routing_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How a customer got its rep: the matching rule, if any, and a readable reason
+ALTER TABLE public.customers
+  ADD COLUMN routing_rule_id UUID REFERENCES public.lead_routing_rules(id) ON DELETE SET NULL,
+  ADD COLUMN routing_reason TEXT;
+
+-- Picks the sales rep for an inbound lead. Without a matching rule the lead goes
+-- to the active rep with the fewest open customers. The matched rule row is locked
+-- so concurrent leads continue the round-robin instead of landing on the same rep.
+CREATE OR REPLACE FUNCTION public.route_lead(
+  _tenant_id UUID,
+  _source TEXT,
+  _phone TEXT
+)
+RETURNS TABLE (sales_rep_id UUID, user_id UUID, rule_id UUID, reason TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_rule public.lead_routing_rules;
+  v_rep_id UUID;
+  v_user_id UUID;
+  v_reason TEXT;
+  v_phone TEXT := regexp_replace(COALESCE(_phone, ''), '\D', '', 'g');
+BEGIN
+  SELECT * INTO v_rule
+  FROM public.lead_routing_rules r
+  WHERE r.tenant_id = _tenant_id
+    AND r.is_active
+    AND (r.match_source IS NULL OR lower(r.match_source) = lower(trim(COALESCE(_source, ''))))
+    AND (
+      r.match_phone_prefix IS NULL
+      OR v_phone LIKE regexp_replace(r.match_phone_prefix, '\D', '', 'g') || '%'
+    )
+  ORDER BY r.position, r.created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_rule.id IS NOT NULL AND v_rule.strategy = 'round_robin' THEN
+    -- The candidate after the one assigned last, wrapping around to the first
+    WITH candidates AS (
+      SELECT sr.id, sr.user_id, row_number() OVER (ORDER BY sr.created_at, sr.id) AS n
+      FROM public.sales_reps sr
+      WHERE sr.client_id = _tenant_id
+        AND sr.status = 'active'
+        AND (cardinality(v_rule.sales_rep_ids) = 0 OR sr.id = ANY(v_rule.sales_rep_ids))
+    )
+    SELECT c.id, c.user_id INTO v_rep_id, v_user_id
+    FROM candidates c
+    ORDER BY c.n <= COALESCE((SELECT l.n FROM candidates l WHERE l.id = v_rule.last_assigned_sales_rep_id), 0), c.n
+    LIMIT 1;
+
+    v_reason := format('Rule "%s" (round-robin)', v_rule.name);
+  ELSE
+    -- Least loaded: fewest customers outside won and lost stages, oldest rep first on a tie
+    SELECT sr.id, sr.user_id INTO v_rep_id, v_user_id
+    FROM public.sales_reps sr
+    WHERE sr.client_id = _tenant_id
+      AND sr.status = 'active'
+      AND (v_rule.id IS NULL OR cardinality(v_rule.sales_rep_ids) = 0 OR sr.id = ANY(v_rule.sales_rep_ids))
+    ORDER BY (
+      SELECT count(*) FROM public.customers c
+      WHERE c.sales_rep_user_id = sr.user_id
+        AND NOT EXISTS (
+          SELECT 1 FROM public.pipeline_stages ps
+          WHERE ps.tenant_id = _tenant_id AND ps.key = c.status AND (ps.is_won OR ps.is_lost)
+        )
+    ), sr.created_at, sr.id
+    LIMIT 1;
+
+    v_reason := CASE
+      WHEN v_rule.id IS NULL THEN 'No matching rule (least loaded rep)'
+      ELSE format('Rule "%s" (least loaded)', v_rule.name)
+    END;
+  END IF;
+
+  IF v_rep_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_rule.id IS NOT NULL THEN
+    UPDATE public.lead_routing_rules SET last_assigned_sales_rep_id = v_rep_id WHERE id = v_rule.id;
+  END IF;
+
+  RETURN QUERY SELECT v_rep_id, v_user_id, v_rule.id, v_reason;
+END;
+$$;
+
+-- Only the webhook, running with the service role, routes leads
+REVOKE EXECUTE ON FUNCTION public.route_lead(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,54 @@
+-- Server-side search, sorting and pagination for customers
+
+-- Words from the name, email, phone and notes. Emails are also split on @ and .
+-- and phone numbers reduced to their digits so "acme" or "5551234" match.
+ALTER TABLE public.customers
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector(
+      'simple',
+      coalesce(first_name, '') || ' ' ||
+      coalesce(last_name, '') || ' ' ||
+      coalesce(email, '') || ' ' ||
+      translate(coalesce(email, ''), '@.', '  ') || ' ' ||
+      coalesce(phone_no, '') || ' ' ||
+      regexp_replace(coalesce(phone_no, ''), '\D', '', 'g') || ' ' ||
+      coalesce(notes, '')
+    )
+  ) STORED;
+
+CREATE INDEX idx_customers_search_vector ON public.customers USING GIN (search_vector);
+
+-- Default order of the customer tables, for reps and for client admins
+CREATE INDEX idx_customers_sales_rep_created ON public.customers (sales_rep_user_id, created_at DESC, id);
+CREATE INDEX idx_customers_client_created ON public.customers (client_id, created_at DESC, id);
+
+-- Counts and deal totals per owner, stage and currency for the dashboard cards,
+-- so they no longer need every customer row. Runs as the caller: reps only see
+-- their own customers and client admins their tenant's.
+CREATE OR REPLACE FUNCTION public.get_customer_stage_summary()
+RETURNS TABLE (
+  sales_rep_user_id UUID,
+  status TEXT,
+  deal_currency TEXT,
+  customer_count BIGINT,
+  deal_count BIGINT,
+  deal_total NUMERIC,
+  weighted_total NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.sales_rep_user_id,
+    c.status,
+    c.deal_currency,
+    count(*) AS customer_count,
+    count(c.deal_amount) AS deal_count,
+    coalesce(sum(c.deal_amount), 0) AS deal_total,
+    coalesce(sum(c.deal_amount * coalesce(c.deal_probability, 0) / 100), 0) AS weighted_total
+  FROM public.customers c
+  GROUP BY c.sales_rep_user_id, c.status, c.deal_currency;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_customer_stage_summary() TO authenticated;
@@ -0,0 +1,44 @@
+-- Realtime subscriptions filtered by tenant and rep
+
+-- Channels filter customers on client_id, so every row needs one. Imports and
+-- older inserts left it empty; it follows from the owning rep's tenant.
+CREATE OR REPLACE FUNCTION public.set_customer_client_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.client_id := COALESCE(NEW.client_id, public.get_user_tenant_id(NEW.sales_rep_user_id));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_customer_client_id
+  BEFORE INSERT OR UPDATE OF client_id, sales_rep_user_id ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.set_customer_client_id();
+
+UPDATE public.customers
+SET client_id = public.get_user_tenant_id(sales_rep_user_id)
+WHERE client_id IS NULL;
+
+-- A rep's channel is filtered on the owner, so it never sees the update that
+-- moves a customer away; the ownership history insert tells it instead
+CREATE POLICY "Sales reps can view ownership changes away from them"
+ON public.customer_ownership_history FOR SELECT
+USING (from_user_id = auth.uid());
+
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY['customers', 'sales_reps', 'customer_ownership_history'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = _table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', _table);
+    END IF;
+  END LOOP;
+END;
+$$;
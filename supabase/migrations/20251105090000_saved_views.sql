@@ -0,0 +1,69 @@
+-- Named table views: filters, sort, visible columns and column order. Views are
+-- private to their owner unless a client admin shares them with the tenant.
+CREATE TABLE public.saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  table_key TEXT NOT NULL CHECK (table_key IN ('customers', 'sales_reps')),
+  name TEXT NOT NULL,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb, -- same shape as the table's URL state
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, table_key, name)
+);
+
+CREATE INDEX idx_saved_views_tenant_table ON public.saved_views (tenant_id, table_key);
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own and shared views"
+ON public.saved_views FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR (is_shared AND tenant_id = public.get_user_tenant_id(auth.uid()))
+);
+
+CREATE POLICY "Users can create their own views"
+ON public.saved_views FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+  AND (NOT is_shared OR public.has_role(auth.uid(), 'client_admin'))
+);
+
+-- Shared views belong to the tenant, so any of its client admins can change them
+CREATE POLICY "Users can update their own views and admins shared ones"
+ON public.saved_views FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR (
+    is_shared
+    AND public.has_role(auth.uid(), 'client_admin')
+    AND tenant_id = public.get_user_tenant_id(auth.uid())
+  )
+)
+WITH CHECK (
+  tenant_id = public.get_user_tenant_id(auth.uid())
+  AND (NOT is_shared OR public.has_role(auth.uid(), 'client_admin'))
+);
+
+-- Only the view itself can change; its owner, tenant and table stay fixed
+REVOKE UPDATE ON public.saved_views FROM anon, authenticated;
+GRANT UPDATE (name, state, is_shared) ON public.saved_views TO authenticated;
+
+CREATE POLICY "Users can delete their own views and admins shared ones"
+ON public.saved_views FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR (
+    is_shared
+    AND public.has_role(auth.uid(), 'client_admin')
+    AND tenant_id = public.get_user_tenant_id(auth.uid())
+  )
+);
+
+CREATE TRIGGER update_saved_views_updated_at
+BEFORE UPDATE ON public.saved_views
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
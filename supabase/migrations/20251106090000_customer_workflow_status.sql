@@ -0,0 +1,51 @@
+-- Copy each customer's onboarding workflow status onto the customer, so the
+-- customer list can filter on it alongside its own columns. NULL means the
+-- workflow has not started.
+ALTER TABLE public.customers ADD COLUMN workflow_status TEXT;
+
+UPDATE public.customers c
+SET workflow_status = w.status
+FROM public.workflows w
+WHERE w.customer_id = c.id;
+
+CREATE INDEX idx_customers_workflow_status ON public.customers (workflow_status);
+
+CREATE OR REPLACE FUNCTION public.sync_customer_workflow_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.customers SET workflow_status = NULL WHERE id = OLD.customer_id;
+    RETURN OLD;
+  END IF;
+
+  -- Merging moves a duplicate's workflow to the kept customer
+  IF TG_OP = 'UPDATE' AND OLD.customer_id IS DISTINCT FROM NEW.customer_id THEN
+    UPDATE public.customers SET workflow_status = NULL WHERE id = OLD.customer_id;
+  END IF;
+
+  UPDATE public.customers
+  SET workflow_status = NEW.status
+  WHERE id = NEW.customer_id
+    AND workflow_status IS DISTINCT FROM NEW.status;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_customer_workflow_status
+AFTER INSERT OR DELETE OR UPDATE OF status, customer_id ON public.workflows
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_customer_workflow_status();
+
+-- A workflow moving on is not an edit of the customer: leave updated_at alone so
+-- inline edits opened before it still apply
+DROP TRIGGER IF EXISTS update_customers_updated_at ON public.customers;
+
+CREATE TRIGGER update_customers_updated_at
+BEFORE UPDATE ON public.customers
+FOR EACH ROW
+WHEN (OLD.workflow_status IS NOT DISTINCT FROM NEW.workflow_status)
+EXECUTE FUNCTION public.update_updated_at_column();
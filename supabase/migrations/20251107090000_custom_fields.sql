@@ -0,0 +1,288 @@
+-- Tenant-defined customer fields. Values live in customers.custom_fields as
+-- { "<key>": value }: strings for text, select and date (yyyy-MM-dd) fields,
+-- JSON numbers and booleans for the others. Empty values are left out.
+CREATE TABLE public.custom_field_definitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  key TEXT NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL,
+  field_type TEXT NOT NULL CHECK (field_type IN ('text', 'number', 'date', 'select', 'boolean')),
+  options TEXT[] NOT NULL DEFAULT '{}', -- choices of a select field
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, key)
+);
+
+CREATE INDEX idx_custom_field_definitions_tenant_position ON public.custom_field_definitions (tenant_id, position);
+
+ALTER TABLE public.custom_field_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view custom fields"
+ON public.custom_field_definitions FOR SELECT
+USING (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Client admins can create custom fields"
+ON public.custom_field_definitions FOR INSERT
+WITH CHECK (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE POLICY "Client admins can update custom fields"
+ON public.custom_field_definitions FOR UPDATE
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+-- A field's key and type are fixed once customers may hold values for it
+REVOKE UPDATE ON public.custom_field_definitions FROM anon, authenticated;
+GRANT UPDATE (label, options, position) ON public.custom_field_definitions TO authenticated;
+
+CREATE TRIGGER update_custom_field_definitions_updated_at
+BEFORE UPDATE ON public.custom_field_definitions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.customers
+  ADD COLUMN custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb
+  CHECK (jsonb_typeof(custom_fields) = 'object');
+
+-- Removes a field and its values from every customer of the tenant. Reps cannot
+-- update customers they do not own, so this runs as the definer.
+CREATE OR REPLACE FUNCTION public.delete_custom_field(_field_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _field public.custom_field_definitions;
+  _cleared INTEGER;
+BEGIN
+  SELECT * INTO _field
+  FROM public.custom_field_definitions
+  WHERE id = _field_id
+    AND tenant_id = public.get_user_tenant_id(auth.uid());
+
+  IF _field.id IS NULL OR NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Custom field not found';
+  END IF;
+
+  UPDATE public.customers
+  SET custom_fields = custom_fields - _field.key
+  WHERE client_id = _field.tenant_id
+    AND custom_fields ? _field.key;
+  GET DIAGNOSTICS _cleared = ROW_COUNT;
+
+  DELETE FROM public.custom_field_definitions WHERE id = _field.id;
+
+  RETURN _cleared;
+END;
+$$;
+
+-- Undoing an import restores the custom field values it overwrote too
+CREATE OR REPLACE FUNCTION public.undo_import_job(_job_id UUID)
+RETURNS TABLE (reverted INTEGER, skipped INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.import_jobs;
+  v_changes INTEGER;
+  v_deleted INTEGER;
+  v_restored INTEGER;
+BEGIN
+  SELECT * INTO v_job
+  FROM public.import_jobs
+  WHERE id = _job_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+
+  IF v_job.status = 'reverted' THEN
+    RAISE EXCEPTION 'This import has already been undone';
+  END IF;
+
+  SELECT count(*) INTO v_changes FROM public.import_job_changes WHERE job_id = _job_id;
+
+  IF v_changes = 0 THEN
+    RAISE EXCEPTION 'This import has no recorded changes to undo';
+  END IF;
+
+  DELETE FROM public.customers c
+  USING public.import_job_changes ch
+  WHERE ch.job_id = _job_id
+    AND ch.change_type = 'inserted'
+    AND c.id = ch.customer_id
+    AND c.import_job_id = _job_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Columns missing from previous_data keep their current value
+  UPDATE public.customers c
+  SET (first_name, last_name, email, phone_no, source, notes, status, custom_fields, import_job_id) = (
+    SELECT p.first_name, p.last_name, p.email, p.phone_no, p.source, p.notes, p.status,
+      COALESCE(p.custom_fields, c.custom_fields), p.import_job_id
+    FROM jsonb_populate_record(c, ch.previous_data) AS p
+  )
+  FROM public.import_job_changes ch
+  WHERE ch.job_id = _job_id
+    AND ch.change_type = 'updated'
+    AND c.id = ch.customer_id
+    AND c.import_job_id = _job_id;
+  GET DIAGNOSTICS v_restored = ROW_COUNT;
+
+  UPDATE public.import_jobs
+  SET status = 'reverted', reverted_at = now()
+  WHERE id = _job_id;
+
+  RETURN QUERY SELECT v_deleted + v_restored, v_changes - v_deleted - v_restored;
+END;
+$$;
+
+-- Merged duplicates' custom field values fill in those the kept customer lacks
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _primary_id UUID,
+  _duplicate_ids UUID[],
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_primary public.customers;
+  v_duplicate public.customers;
+  v_workflow public.workflows;
+  v_result public.customers;
+  v_merged JSONB := '[]'::jsonb;
+  v_count INTEGER := 0;
+  v_deal public.customers;
+  v_custom_fields JSONB := '{}'::jsonb;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Only client admins can merge customers';
+  END IF;
+
+  IF _primary_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.customers c
+  WHERE c.id = _primary_id
+    AND (
+      c.client_id = v_tenant_id
+      OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _primary_id;
+  END IF;
+
+  FOR v_duplicate IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_duplicate_ids)
+      AND (
+        c.client_id = v_tenant_id
+        OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+      )
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_workflow FROM public.workflows WHERE customer_id = v_duplicate.id;
+
+    INSERT INTO public.customer_merges (
+      tenant_id, primary_customer_id, merged_customer_id, merged_data, merged_workflow, merged_by
+    )
+    VALUES (
+      v_tenant_id,
+      _primary_id,
+      v_duplicate.id,
+      to_jsonb(v_duplicate),
+      CASE WHEN v_workflow.id IS NULL THEN NULL ELSE to_jsonb(v_workflow) END,
+      auth.uid()
+    );
+
+    -- Only one workflow per customer is allowed, so a duplicate's workflow moves
+    -- over only when the primary has none; otherwise it stays archived above
+    IF v_workflow.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.workflows WHERE customer_id = _primary_id) THEN
+      UPDATE public.workflows SET customer_id = _primary_id WHERE id = v_workflow.id;
+    END IF;
+
+    -- Open follow-up tasks go to the primary's rep, as when reassigning
+    IF v_duplicate.sales_rep_user_id IS DISTINCT FROM v_primary.sales_rep_user_id THEN
+      UPDATE public.activities
+      SET user_id = v_primary.sales_rep_user_id,
+          sales_rep_id = v_primary.sales_rep_id
+      WHERE customer_id = v_duplicate.id
+        AND type = 'task'
+        AND completed_at IS NULL;
+    END IF;
+
+    -- The duplicate's timeline and earlier merges into it would otherwise be
+    -- deleted with it by ON DELETE CASCADE
+    UPDATE public.activities SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_status_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_ownership_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_merges SET primary_customer_id = _primary_id WHERE primary_customer_id = v_duplicate.id;
+
+    -- Carried over where the primary has no value of its own
+    IF v_deal.id IS NULL AND v_duplicate.deal_amount IS NOT NULL THEN
+      v_deal := v_duplicate;
+    END IF;
+    v_custom_fields := v_duplicate.custom_fields || v_custom_fields;
+
+    DELETE FROM public.customers WHERE id = v_duplicate.id;
+
+    v_merged := v_merged || jsonb_build_array(to_jsonb(v_duplicate));
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) AS d) THEN
+    RAISE EXCEPTION 'Some customers to merge were not found';
+  END IF;
+
+  IF v_deal.id IS NOT NULL THEN
+    UPDATE public.customers SET
+      deal_amount = v_deal.deal_amount,
+      deal_currency = v_deal.deal_currency,
+      deal_probability = v_deal.deal_probability,
+      expected_close_date = v_deal.expected_close_date
+    WHERE id = _primary_id
+      AND deal_amount IS NULL;
+  END IF;
+
+  UPDATE public.customers SET
+    first_name = COALESCE(_fields ->> 'first_name', first_name),
+    last_name = COALESCE(_fields ->> 'last_name', last_name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone_no = COALESCE(_fields ->> 'phone_no', phone_no),
+    source = COALESCE(_fields ->> 'source', source),
+    status = COALESCE(_fields ->> 'status', status),
+    custom_fields = v_custom_fields || custom_fields, -- the primary's own values win
+    notes = CASE WHEN _fields ? 'notes' THEN _fields ->> 'notes' ELSE notes END
+  WHERE id = _primary_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+  VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'merge_customers',
+    'customer',
+    _primary_id,
+    jsonb_build_object('primary', to_jsonb(v_primary), 'merged', v_merged),
+    to_jsonb(v_result)
+  );
+
+  RETURN _primary_id;
+END;
+$$;
@@ -0,0 +1,264 @@
+-- Companies the tenant's customers work for. A customer belongs to at most one
+-- account; customers whose email domain matches an account's domain are linked
+-- to it automatically, whichever way they arrive (form, import or webhook).
+CREATE TABLE public.accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.clients(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  domain TEXT CHECK (domain = lower(domain) AND domain <> ''), -- e.g. acme.com, without scheme or www
+  industry TEXT,
+  size TEXT CHECK (size IN ('1-10', '11-50', '51-200', '201-1000', '1000+')), -- employees
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_accounts_tenant_domain ON public.accounts (tenant_id, domain) WHERE domain IS NOT NULL;
+CREATE INDEX idx_accounts_tenant_name ON public.accounts (tenant_id, name);
+
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view accounts"
+ON public.accounts FOR SELECT
+USING (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Tenant members can create accounts"
+ON public.accounts FOR INSERT
+WITH CHECK (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Tenant members can update accounts"
+ON public.accounts FOR UPDATE
+USING (tenant_id = public.get_user_tenant_id(auth.uid()));
+
+CREATE POLICY "Client admins can delete accounts"
+ON public.accounts FOR DELETE
+USING (
+  public.has_role(auth.uid(), 'client_admin')
+  AND tenant_id = public.get_user_tenant_id(auth.uid())
+);
+
+CREATE TRIGGER update_accounts_updated_at
+BEFORE UPDATE ON public.accounts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.customers
+  ADD COLUMN account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_customers_account_id ON public.customers (account_id);
+CREATE INDEX idx_customers_client_email_domain ON public.customers (client_id, lower(split_part(email, '@', 2)));
+
+-- Fills in the account of a customer that has none from its email domain.
+-- Runs before set_customer_client_id, so the tenant may still have to be
+-- derived from the owner.
+CREATE OR REPLACE FUNCTION public.link_customer_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_id IS NULL THEN
+    SELECT a.id INTO NEW.account_id
+    FROM public.accounts a
+    WHERE a.tenant_id = COALESCE(NEW.client_id, public.get_user_tenant_id(NEW.sales_rep_user_id))
+      AND a.domain = lower(split_part(NEW.email, '@', 2));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_customer_account
+  BEFORE INSERT OR UPDATE OF email ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.link_customer_account();
+
+-- Links the tenant's unlinked customers when an account gets a domain. Reps
+-- cannot update customers they do not own, so this runs as the definer.
+CREATE OR REPLACE FUNCTION public.link_account_customers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.domain IS NOT NULL THEN
+    UPDATE public.customers
+    SET account_id = NEW.id
+    WHERE client_id = NEW.tenant_id
+      AND account_id IS NULL
+      AND lower(split_part(email, '@', 2)) = NEW.domain;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_account_customers
+  AFTER INSERT OR UPDATE OF domain ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.link_account_customers();
+
+-- Contacts per account, stage and workflow status for the accounts list and
+-- account view. Runs as the caller: reps only count their own customers and
+-- client admins their tenant's.
+CREATE OR REPLACE FUNCTION public.get_account_summary()
+RETURNS TABLE (
+  account_id UUID,
+  status TEXT,
+  workflow_status TEXT,
+  customer_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT c.account_id, c.status, c.workflow_status, count(*) AS customer_count
+  FROM public.customers c
+  WHERE c.account_id IS NOT NULL
+  GROUP BY c.account_id, c.status, c.workflow_status;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_account_summary() TO authenticated;
+
+-- A merged duplicate's account is kept when the kept customer has none
+CREATE OR REPLACE FUNCTION public.merge_customers(
+  _primary_id UUID,
+  _duplicate_ids UUID[],
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id UUID := public.get_user_tenant_id(auth.uid());
+  v_primary public.customers;
+  v_duplicate public.customers;
+  v_workflow public.workflows;
+  v_result public.customers;
+  v_merged JSONB := '[]'::jsonb;
+  v_count INTEGER := 0;
+  v_deal public.customers;
+  v_custom_fields JSONB := '{}'::jsonb;
+  v_account_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'client_admin') THEN
+    RAISE EXCEPTION 'Only client admins can merge customers';
+  END IF;
+
+  IF _primary_id = ANY(_duplicate_ids) THEN
+    RAISE EXCEPTION 'A customer cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_primary
+  FROM public.customers c
+  WHERE c.id = _primary_id
+    AND (
+      c.client_id = v_tenant_id
+      OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+    )
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _primary_id;
+  END IF;
+
+  FOR v_duplicate IN
+    SELECT * FROM public.customers c
+    WHERE c.id = ANY(_duplicate_ids)
+      AND (
+        c.client_id = v_tenant_id
+        OR c.sales_rep_user_id IN (SELECT user_id FROM public.user_roles WHERE tenant_id = v_tenant_id)
+      )
+    FOR UPDATE
+  LOOP
+    SELECT * INTO v_workflow FROM public.workflows WHERE customer_id = v_duplicate.id;
+
+    INSERT INTO public.customer_merges (
+      tenant_id, primary_customer_id, merged_customer_id, merged_data, merged_workflow, merged_by
+    )
+    VALUES (
+      v_tenant_id,
+      _primary_id,
+      v_duplicate.id,
+      to_jsonb(v_duplicate),
+      CASE WHEN v_workflow.id IS NULL THEN NULL ELSE to_jsonb(v_workflow) END,
+      auth.uid()
+    );
+
+    -- Only one workflow per customer is allowed, so a duplicate's workflow moves
+    -- over only when the primary has none; otherwise it stays archived above
+    IF v_workflow.id IS NOT NULL
+      AND NOT EXISTS (SELECT 1 FROM public.workflows WHERE customer_id = _primary_id) THEN
+      UPDATE public.workflows SET customer_id = _primary_id WHERE id = v_workflow.id;
+    END IF;
+
+    -- Open follow-up tasks go to the primary's rep, as when reassigning
+    IF v_duplicate.sales_rep_user_id IS DISTINCT FROM v_primary.sales_rep_user_id THEN
+      UPDATE public.activities
+      SET user_id = v_primary.sales_rep_user_id,
+          sales_rep_id = v_primary.sales_rep_id
+      WHERE customer_id = v_duplicate.id
+        AND type = 'task'
+        AND completed_at IS NULL;
+    END IF;
+
+    -- The duplicate's timeline and earlier merges into it would otherwise be
+    -- deleted with it by ON DELETE CASCADE
+    UPDATE public.activities SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_status_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_ownership_history SET customer_id = _primary_id WHERE customer_id = v_duplicate.id;
+    UPDATE public.customer_merges SET primary_customer_id = _primary_id WHERE primary_customer_id = v_duplicate.id;
+
+    -- Carried over where the primary has no value of its own
+    IF v_deal.id IS NULL AND v_duplicate.deal_amount IS NOT NULL THEN
+      v_deal := v_duplicate;
+    END IF;
+    v_custom_fields := v_duplicate.custom_fields || v_custom_fields;
+    v_account_id := COALESCE(v_account_id, v_duplicate.account_id);
+
+    DELETE FROM public.customers WHERE id = v_duplicate.id;
+
+    v_merged := v_merged || jsonb_build_array(to_jsonb(v_duplicate));
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count <> (SELECT count(DISTINCT d) FROM unnest(_duplicate_ids) AS d) THEN
+    RAISE EXCEPTION 'Some customers to merge were not found';
+  END IF;
+
+  IF v_deal.id IS NOT NULL THEN
+    UPDATE public.customers SET
+      deal_amount = v_deal.deal_amount,
+      deal_currency = v_deal.deal_currency,
+      deal_probability = v_deal.deal_probability,
+      expected_close_date = v_deal.expected_close_date
+    WHERE id = _primary_id
+      AND deal_amount IS NULL;
+  END IF;
+
+  UPDATE public.customers SET
+    first_name = COALESCE(_fields ->> 'first_name', first_name),
+    last_name = COALESCE(_fields ->> 'last_name', last_name),
+    email = COALESCE(_fields ->> 'email', email),
+    phone_no = COALESCE(_fields ->> 'phone_no', phone_no),
+    source = COALESCE(_fields ->> 'source', source),
+    status = COALESCE(_fields ->> 'status', status),
+    custom_fields = v_custom_fields || custom_fields, -- the primary's own values win
+    account_id = COALESCE(account_id, v_account_id),
+    notes = CASE WHEN _fields ? 'notes' THEN _fields ->> 'notes' ELSE notes END
+  WHERE id = _primary_id
+  RETURNING * INTO v_result;
+
+  INSERT INTO public.audit_logs (tenant_id, user_id, action, resource_type, resource_id, old_data, new_data)
+  VALUES (
+    v_tenant_id,
+    auth.uid(),
+    'merge_customers',
+    'customer',
+    _primary_id,
+    jsonb_build_object('primary', to_jsonb(v_primary), 'merged', v_merged),
+    to_jsonb(v_result)
+  );
+
+  RETURN _primary_id;
+END;
+$$;